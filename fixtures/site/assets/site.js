@@ -0,0 +1,67 @@
+// Minimal behaviour for the offline fixture site: dropdown menus,
+// client-side sign-in against /api/v1/auth/login, and dashboard data.
+(function () {
+  document.querySelectorAll('[aria-controls]').forEach(function (toggle) {
+    toggle.addEventListener('click', function () {
+      var menu = document.getElementById(toggle.getAttribute('aria-controls'));
+      var expanded = toggle.getAttribute('aria-expanded') === 'true';
+      document.querySelectorAll('[aria-expanded="true"]').forEach(function (other) {
+        other.setAttribute('aria-expanded', 'false');
+        document.getElementById(other.getAttribute('aria-controls')).hidden = true;
+      });
+      toggle.setAttribute('aria-expanded', String(!expanded));
+      menu.hidden = expanded;
+    });
+  });
+
+  var form = document.getElementById('login-form');
+  if (form) {
+    form.addEventListener('submit', function (event) {
+      event.preventDefault();
+      var email = form.email.value.trim();
+      var password = form.password.value;
+      var error = form.querySelector('.error-message');
+      var emailValid = /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+
+      form.querySelector('.email-error').hidden = emailValid;
+      form.querySelector('.password-error').hidden = password.length > 0;
+      error.hidden = true;
+      if (!emailValid || !password) {
+        return;
+      }
+
+      var spinner = form.querySelector('.loading');
+      spinner.hidden = false;
+      fetch('/api/v1/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: email, password: password })
+      }).then(function (response) {
+        return response.json().then(function (body) {
+          if (response.ok) {
+            window.location.href = '/dashboard';
+          } else {
+            error.textContent = body.message || 'Sign in failed';
+            error.hidden = false;
+          }
+        });
+      }).catch(function () {
+        error.textContent = 'We could not reach our servers. Please try again.';
+        error.hidden = false;
+      }).finally(function () {
+        spinner.hidden = true;
+      });
+    });
+  }
+
+  var score = document.querySelector('.credit-score-value');
+  if (score) {
+    fetch('/api/v1/credit/score').then(function (response) {
+      return response.json();
+    }).then(function (body) {
+      score.textContent = String(body.score);
+    }).catch(function () {
+      score.textContent = 'Unavailable';
+    });
+  }
+})();
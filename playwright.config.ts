@@ -1,8 +1,16 @@
 import { defineConfig, devices } from '@playwright/test';
 
+// FIXTURE_SITE=true runs the suite against the local copy in fixtures/site
+const useFixtureSite = process.env.FIXTURE_SITE === 'true';
+const fixtureSitePort = Number(process.env.FIXTURE_SITE_PORT || 4173);
+const fixtureSiteUrl = `http://localhost:${fixtureSitePort}`;
+
 export default defineConfig({
   testDir: './tests',
+  // Browserless unit tests run with playwright.unit.config.ts (npm run test:unit)
+  testIgnore: '**/tests/unit/**',
   use: {
+    baseURL: useFixtureSite ? fixtureSiteUrl : (process.env.BASE_URL || 'https://www.experian.com'),
     headless: false,
     trace: 'on-first-retry',
     slowMo: 1500, // Slow down actions by 1.5 seconds for better visibility
@@ -16,6 +24,12 @@ export default defineConfig({
     }
   },
   reporter: [['list']],
+  webServer: useFixtureSite ? {
+    command: 'npx tsx scripts/serve-fixture-site.ts',
+    url: fixtureSiteUrl,
+    env: { FIXTURE_SITE_PORT: String(fixtureSitePort) },
+    reuseExistingServer: !process.env.CI
+  } : undefined,
   projects: [
     { name: 'chromium', use: { ...devices['Desktop Chrome'] } },
     { name: 'firefox', use: { ...devices['Desktop Firefox'] } },
@@ -0,0 +1,19 @@
+import { defineConfig } from '@playwright/test';
+import baseConfig from './playwright.config';
+
+// Used by SpecRunner (USE_ITERATIVE_IMPROVEMENT) to run one generated spec:
+// same baseURL, web server and projects, but headless and at full speed, with
+// the spec's own directory as testDir so specs written outside tests/ are found
+export default defineConfig(baseConfig, {
+  testDir: process.env.EXECUTION_SPEC_DIR || baseConfig.testDir,
+  use: {
+    headless: true,
+    slowMo: 0,
+    screenshot: 'off',
+    video: 'off',
+    launchOptions: {
+      ...baseConfig.use?.launchOptions,
+      slowMo: 0
+    }
+  }
+});
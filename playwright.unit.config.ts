@@ -0,0 +1,7 @@
+import { defineConfig } from '@playwright/test';
+
+// Unit tests for the generator's own modules: no browser, no base URL, no web server
+export default defineConfig({
+  testDir: './tests/unit',
+  reporter: [['list']]
+});
@@ -0,0 +1,140 @@
+#!/usr/bin/env tsx
+
+import { chromium, Browser } from 'playwright';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Server } from 'http';
+import * as dotenv from 'dotenv';
+import { PageObjectCatalog } from '../src/codegen/page-object-catalog';
+import { KnowledgeBaseLoader } from '../src/rag/knowledge-base-loader';
+import { PageObjectDriftChecker, PageObjectDriftReport } from '../src/validation/page-object-drift';
+import { startFixtureSite } from './serve-fixture-site';
+
+dotenv.config();
+
+/**
+ * Compare the locators in src/pages with kb/selectors and the running site
+ */
+async function checkPageObjectDrift(): Promise<void> {
+  const args = process.argv.slice(2);
+  const useFixture = args.includes('--fixture');
+  const staticOnly = args.includes('--static');
+
+  let fixtureServer: Server | null = null;
+  let browser: Browser | null = null;
+
+  try {
+    const catalog = PageObjectCatalog.load();
+    const kbSelectors = new KnowledgeBaseLoader({
+      kbDir: readFlag(args, '--kb'),
+      site: readFlag(args, '--site') || process.env.KB_SITE || undefined
+    }).load().selectors;
+    const checker = new PageObjectDriftChecker(catalog, kbSelectors);
+
+    let report: PageObjectDriftReport;
+    if (staticOnly) {
+      console.log('Checking page objects against the knowledge base (static, no browser)...\n');
+      report = await checker.check();
+    } else {
+      if (useFixture) {
+        fixtureServer = await startFixtureSite();
+      }
+
+      const baseUrl = readFlag(args, '--base-url')
+        || (useFixture ? `http://localhost:${process.env.FIXTURE_SITE_PORT || 4173}` : undefined)
+        || process.env.BASE_URL
+        || 'https://www.experian.com';
+
+      console.log(`Checking page objects against the knowledge base and ${baseUrl}...\n`);
+      browser = await chromium.launch({ headless: !args.includes('--headed') });
+      report = await checker.check(await browser.newPage(), baseUrl);
+    }
+
+    const reportPath = writeReport(report);
+    showSummary(report, reportPath);
+
+    if (args.includes('--strict') && (report.unresolved_locators.length > 0 || report.divergent_selectors.length > 0)) {
+      process.exitCode = 1;
+    }
+
+  } catch (error) {
+    console.error('Page object drift check failed:', error);
+    process.exitCode = 1;
+  } finally {
+    if (browser) await browser.close();
+    if (fixtureServer) fixtureServer.close();
+  }
+}
+
+function readFlag(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+/**
+ * Write the drift report as JSON and Markdown
+ */
+function writeReport(report: PageObjectDriftReport): string {
+  const reportDir = path.join(__dirname, '../reports');
+  fs.mkdirSync(reportDir, { recursive: true });
+
+  const timestamp = Date.now();
+  fs.writeFileSync(path.join(reportDir, `page-object-drift-${timestamp}.json`), JSON.stringify(report, null, 2));
+
+  const liveStatus = (resolves?: boolean) => resolves === undefined ? '' : resolves ? 'resolves' : 'does not resolve';
+
+  const reportContent = `# Page Object Drift Report
+
+**Generated**: ${report.generated_at}
+**Site**: ${report.live ? report.base_url : 'not checked (--static)'}
+**Page Object Locators**: ${report.locators_checked}
+**Knowledge Base Entries**: ${report.kb_entries_checked}
+
+## Summary
+
+- **Unresolved**: ${report.unresolved_locators.length} page object locators match nothing on their page
+- **Divergent**: ${report.divergent_selectors.length} page object locators describe a knowledge base element with a different selector
+- **Unused**: ${report.unused_kb_entries.length} knowledge base entries no page object uses
+- **Consistent**: ${report.consistent.length} page object locators share a selector with the knowledge base
+
+## Unresolved Locators (${report.unresolved_locators.length})
+
+${report.unresolved_locators.map(l => `- **${l.page_object}.${l.field}** on ${l.url}: \`${l.expression}\`${l.error ? ` (${l.error})` : ''}`).join('\n') || (report.live ? 'None' : 'Not checked')}
+
+## Divergent Selectors (${report.divergent_selectors.length})
+
+${report.divergent_selectors.map(d => `- **${d.page_object}.${d.field}** \`${d.expression}\` ${liveStatus(d.page_object_resolves)}
+  vs **${d.kb_path}** \`${d.kb_selector}\` ${liveStatus(d.kb_resolves)} (${d.evidence === 'same_element' ? 'same element on the page' : 'similar name'})`).join('\n') || 'None'}
+
+## Unused Knowledge Base Entries (${report.unused_kb_entries.length})
+
+${report.unused_kb_entries.map(entry => `- **${entry.path}**: \`${entry.selector}\``).join('\n') || 'None'}
+
+## Unreachable Pages (${report.pages_unreachable.length})
+
+${report.pages_unreachable.map(p => `- **${p.page_object}** ${p.url}: ${p.error}`).join('\n') || 'None'}
+`;
+
+  const markdownPath = path.join(reportDir, `page-object-drift-${timestamp}.md`);
+  fs.writeFileSync(markdownPath, reportContent);
+  return markdownPath;
+}
+
+function showSummary(report: PageObjectDriftReport, reportPath: string): void {
+  console.log('\nPage Object Drift Summary:');
+  console.log(`   Locators checked: ${report.locators_checked}`);
+  console.log(`   Pages checked: ${report.live ? report.pages_checked.length : 'none (--static)'}`);
+  report.pages_unreachable.forEach(p => console.log(`      UNREACHABLE ${p.page_object} ${p.url}: ${p.error}`));
+  console.log(`   Unresolved locators: ${report.unresolved_locators.length}`);
+  report.unresolved_locators.forEach(l => console.log(`      ${l.page_object}.${l.field}`));
+  console.log(`   Divergent selectors: ${report.divergent_selectors.length}`);
+  report.divergent_selectors.forEach(d => console.log(`      ${d.page_object}.${d.field} <> ${d.kb_path} (${d.evidence})`));
+  console.log(`   Unused knowledge base entries: ${report.unused_kb_entries.length}`);
+  console.log(`   Consistent: ${report.consistent.length}`);
+  console.log(`\nReport: ${path.relative(process.cwd(), reportPath)}`);
+}
+
+// CLI execution
+if (require.main === module) {
+  checkPageObjectDrift();
+}
@@ -0,0 +1,176 @@
+#!/usr/bin/env tsx
+
+import { chromium, Browser } from 'playwright';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Server } from 'http';
+import * as dotenv from 'dotenv';
+import { CrawlDiff, CrawlResult, KnowledgeBaseCrawler } from '../src/rag/kb-crawler';
+import { KnowledgeBaseLoader, resolveKnowledgeBaseDir } from '../src/rag/knowledge-base-loader';
+import { startFixtureSite } from './serve-fixture-site';
+
+dotenv.config();
+
+interface CrawlConfig {
+  baseUrl?: string;
+  startUrls: string[];
+  output?: string;
+  maxMenusPerPage?: number;
+}
+
+const CONFIG_PATH = path.join(__dirname, '../kb/crawl-config.json');
+
+/**
+ * Crawl a running site and rebuild kb/selectors from what is actually on it
+ */
+async function crawlKnowledgeBase(): Promise<void> {
+  const args = process.argv.slice(2);
+  const config = loadConfig(readFlag(args, '--config') || CONFIG_PATH);
+
+  const startUrls = readFlags(args, '--start');
+  const useFixture = args.includes('--fixture');
+  const kbDir = resolveKnowledgeBaseDir(readFlag(args, '--kb'));
+  const site = readFlag(args, '--site') || process.env.KB_SITE || undefined;
+
+  // Outside kb/selectors, so the crawl is neither served to RAG nor the next crawl's baseline
+  // until its entries are reviewed and copied over (kb/crawled/<site>/selectors.json for a site)
+  const outputPath = path.resolve(
+    readFlag(args, '--out') || config.output || path.join(kbDir, 'crawled', site || '', 'selectors.json')
+  );
+  if (!path.relative(path.join(kbDir, 'selectors'), outputPath).startsWith('..')) {
+    console.warn(`Warning: ${outputPath} is inside ${path.join(kbDir, 'selectors')}, so the knowledge base will load it and later crawls will diff against it\n`);
+  }
+
+  let fixtureServer: Server | null = null;
+  let browser: Browser | null = null;
+
+  try {
+    if (useFixture) {
+      fixtureServer = await startFixtureSite();
+    }
+
+    const baseUrl = readFlag(args, '--base-url')
+      || (useFixture ? `http://localhost:${process.env.FIXTURE_SITE_PORT || 4173}` : undefined)
+      || config.baseUrl
+      || process.env.BASE_URL
+      || 'http://localhost:4173';
+
+    console.log(`Crawling ${baseUrl} for knowledge base selectors...\n`);
+
+    // An unknown site has no namespace yet, so diff it against the shared entries
+    const knownSite = site && new KnowledgeBaseLoader({ kbDir }).listSites().includes(site) ? site : undefined;
+    const existing = new KnowledgeBaseLoader({ kbDir, site: knownSite }).load().selectors;
+    const crawler = new KnowledgeBaseCrawler({
+      baseUrl,
+      startUrls: startUrls.length > 0 ? startUrls : config.startUrls,
+      maxMenusPerPage: config.maxMenusPerPage
+    });
+
+    browser = await chromium.launch({ headless: !args.includes('--headed') });
+    const page = await browser.newPage();
+    const result = await crawler.crawl(page, existing);
+
+    if (result.pages.length === 0) {
+      throw new Error(`None of the start URLs could be loaded from ${baseUrl}`);
+    }
+
+    fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+    fs.writeFileSync(outputPath, JSON.stringify(result.selectors, null, 2) + '\n');
+
+    const diff = crawler.diff(existing);
+    const reportPath = writeReport(result, diff);
+
+    showSummary(result, diff, outputPath, reportPath);
+
+  } catch (error) {
+    console.error('Knowledge base crawl failed:', error);
+    process.exitCode = 1;
+  } finally {
+    if (browser) await browser.close();
+    if (fixtureServer) fixtureServer.close();
+  }
+}
+
+function loadConfig(configPath: string): CrawlConfig {
+  const defaults: CrawlConfig = { startUrls: ['/'] };
+  if (!fs.existsSync(configPath)) {
+    return defaults;
+  }
+  return { ...defaults, ...JSON.parse(fs.readFileSync(configPath, 'utf-8')) };
+}
+
+function readFlag(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+function readFlags(args: string[], flag: string): string[] {
+  return args.flatMap((arg, i) => (arg === flag && args[i + 1] ? [args[i + 1]] : []));
+}
+
+/**
+ * Write the crawl diff against the knowledge base as JSON and Markdown
+ */
+function writeReport(result: CrawlResult, diff: CrawlDiff): string {
+  const reportDir = path.join(__dirname, '../reports');
+  fs.mkdirSync(reportDir, { recursive: true });
+
+  const timestamp = Date.now();
+  const jsonPath = path.join(reportDir, `kb-crawl-${timestamp}.json`);
+  fs.writeFileSync(jsonPath, JSON.stringify({ generated_at: new Date().toISOString(), ...result, diff }, null, 2));
+
+  const reportContent = `# Knowledge Base Crawl Report
+
+**Generated**: ${new Date().toISOString()}
+**Base URL**: ${result.base_url}
+**Pages Crawled**: ${result.pages.length}
+**Elements Discovered**: ${result.elements.length}
+
+## Summary
+
+- **Still Matching**: ${diff.matched.length} knowledge base selectors
+- **Stale**: ${diff.stale.length} knowledge base selectors match nothing
+- **Too Broad**: ${diff.broad.length} knowledge base selectors match more than 3 elements
+- **New**: ${diff.added.length} discovered elements not covered by the knowledge base
+
+## Stale Selectors (${diff.stale.length})
+
+${diff.stale.map(entry => `- **${entry.path}**: \`${entry.selector}\``).join('\n') || 'None'}
+
+## Too Broad (${diff.broad.length})
+
+${diff.broad.map(entry => `- **${entry.path}**: \`${entry.selector}\` matches ${entry.matched_elements} elements`).join('\n') || 'None'}
+
+## New Elements (${diff.added.length})
+
+${diff.added.map(entry => `- **${entry.path}** (${entry.page}): \`${entry.selector}\``).join('\n') || 'None'}
+
+## Still Matching (${diff.matched.length})
+
+${diff.matched.map(entry => `- **${entry.path}** → ${entry.crawled_keys.join(', ')}`).join('\n') || 'None'}
+`;
+
+  const markdownPath = path.join(reportDir, `kb-crawl-${timestamp}.md`);
+  fs.writeFileSync(markdownPath, reportContent);
+  return markdownPath;
+}
+
+function showSummary(result: CrawlResult, diff: CrawlDiff, outputPath: string, reportPath: string): void {
+  console.log('\nCrawl Summary:');
+  console.log(`   Pages: ${result.pages.length}`);
+  console.log(`   Regions: ${Object.keys(result.selectors).length}`);
+  console.log(`   Elements: ${result.elements.length}`);
+  console.log(`\nDiff against the knowledge base:`);
+  console.log(`   Still matching: ${diff.matched.length}`);
+  console.log(`   Stale: ${diff.stale.length}`);
+  diff.stale.forEach(entry => console.log(`      ${entry.path}: ${entry.selector}`));
+  console.log(`   Too broad: ${diff.broad.length}`);
+  console.log(`   New elements: ${diff.added.length}`);
+  console.log(`\nSelectors written to: ${path.relative(process.cwd(), outputPath)}`);
+  console.log(`Report: ${path.relative(process.cwd(), reportPath)}`);
+}
+
+// CLI execution
+if (require.main === module) {
+  crawlKnowledgeBase();
+}
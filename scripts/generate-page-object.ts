@@ -0,0 +1,152 @@
+#!/usr/bin/env tsx
+
+import { chromium, Browser } from 'playwright';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Server } from 'http';
+import * as dotenv from 'dotenv';
+import { AccessibilitySnapshot } from '../src/mcp/accessibility-snapshot';
+import { MicrosoftPlaywrightMCPClient } from '../src/mcp/microsoft-playwright-mcp-client';
+import { GeneratedPageObject, PageObjectGenerator } from '../src/codegen/page-object-generator';
+import { PageObjectCatalog } from '../src/codegen/page-object-catalog';
+import { startFixtureSite } from './serve-fixture-site';
+
+dotenv.config();
+
+/**
+ * Generate a page object for a page that has none yet, from the live page,
+ * an MCP browser session or a saved accessibility snapshot
+ */
+async function generatePageObject(): Promise<void> {
+  const args = process.argv.slice(2);
+  const urlArg = readFlag(args, '--url');
+  const snapshotFile = readFlag(args, '--snapshot');
+  const useFixture = args.includes('--fixture');
+
+  if (!urlArg && !snapshotFile) {
+    showUsage();
+    process.exitCode = 1;
+    return;
+  }
+
+  let fixtureServer: Server | null = null;
+
+  try {
+    if (useFixture) {
+      fixtureServer = await startFixtureSite();
+    }
+
+    const baseUrl = readFlag(args, '--base-url')
+      || (useFixture ? `http://localhost:${process.env.FIXTURE_SITE_PORT || 4173}` : undefined)
+      || process.env.BASE_URL
+      || 'http://localhost:4173';
+
+    let snapshotText: string;
+    let source: string;
+    if (snapshotFile) {
+      snapshotText = fs.readFileSync(snapshotFile, 'utf-8');
+      source = path.basename(snapshotFile);
+    } else {
+      source = new URL(urlArg!, baseUrl).toString();
+      snapshotText = args.includes('--mcp')
+        ? await snapshotWithMCP(source)
+        : await snapshotWithPlaywright(source, args.includes('--headed'));
+    }
+
+    const snapshot = AccessibilitySnapshot.parse(snapshotText);
+    const pagePath = new URL(urlArg || snapshot.url || '/', baseUrl).pathname;
+    const className = readFlag(args, '--name') || PageObjectGenerator.classNameFor(pagePath);
+    const maxLocators = readFlag(args, '--max-locators');
+
+    console.log(`Generating ${className} for ${pagePath} from ${source}...\n`);
+
+    const generator = new PageObjectGenerator();
+    const generated = generator.generate(snapshot, {
+      className,
+      url: pagePath,
+      source,
+      maxLocators: maxLocators ? Number(maxLocators) : undefined,
+      includeSiteChrome: args.includes('--include-chrome')
+    });
+
+    if (generated.locators.length === 0) {
+      console.warn('No named interactive elements found in the snapshot; the page object only has verifyPageLoaded()');
+    }
+
+    if (args.includes('--dry-run')) {
+      console.log(generated.source);
+      showSummary(generated);
+      return;
+    }
+
+    const { file, registered } = generator.write(generated, args.includes('--force'));
+    showSummary(generated);
+    console.log(`\nWritten: ${path.relative(process.cwd(), file)}`);
+    console.log(registered ? 'Registered in src/pages/index.ts' : 'Already exported from src/pages/index.ts');
+
+    // Agent C discovers page objects with the compiler; confirm it sees the new class
+    const discovered = PageObjectCatalog.load(path.dirname(file)).getClass(className);
+    console.log(discovered
+      ? `Agent C will use ${className} (${discovered.members.length} members)`
+      : `WARNING: ${className} was not discovered as a BasePage subclass`);
+
+  } catch (error) {
+    console.error('Page object generation failed:', error);
+    process.exitCode = 1;
+  } finally {
+    if (fixtureServer) fixtureServer.close();
+  }
+}
+
+async function snapshotWithPlaywright(url: string, headed: boolean): Promise<string> {
+  let browser: Browser | null = null;
+  try {
+    browser = await chromium.launch({ headless: !headed });
+    const page = await browser.newPage();
+    await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 45000 });
+    await page.waitForTimeout(500);
+    return `- Page URL: ${page.url()}\n${await page.locator('body').ariaSnapshot()}`;
+  } finally {
+    if (browser) await browser.close();
+  }
+}
+
+async function snapshotWithMCP(url: string): Promise<string> {
+  const mcpClient = new MicrosoftPlaywrightMCPClient();
+  await mcpClient.initialize();
+  try {
+    if (!mcpClient.isReady()) {
+      throw new Error('MCP server not connected');
+    }
+    await mcpClient.navigate(url);
+    return await mcpClient.snapshot();
+  } finally {
+    await mcpClient.disconnect();
+  }
+}
+
+function readFlag(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+function showSummary(generated: GeneratedPageObject): void {
+  console.log(`\nPage Object Summary:`);
+  console.log(`   Class: ${generated.className} (${generated.url})`);
+  console.log(`   Locators: ${generated.locators.length}`);
+  generated.locators.forEach(locator => console.log(`      ${locator.field}: ${locator.expression}`));
+  console.log(`   Methods: ${generated.methods.join(', ')}`);
+}
+
+function showUsage(): void {
+  console.log('Usage:');
+  console.log('  npm run pages:generate -- --url /credit-report [--name CreditReportPage] [--base-url <url> | --fixture]');
+  console.log('  npm run pages:generate -- --url /credit-report --mcp          # snapshot through the Playwright MCP server');
+  console.log('  npm run pages:generate -- --snapshot page.yml [--url /path]   # saved browser_snapshot or ariaSnapshot output');
+  console.log('\nOptions: --dry-run (print only), --force (overwrite), --max-locators <n>, --include-chrome, --headed');
+}
+
+// CLI execution
+if (require.main === module) {
+  generatePageObject();
+}
@@ -0,0 +1,109 @@
+#!/usr/bin/env tsx
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { PromptTemplate } from '@langchain/core/prompts';
+import { LangChainClient } from '../src/llm/langchain-client';
+import { LLMConfig } from '../src/llm/types';
+import { LangChainAgentA } from '../src/agents/langchain-agent-a';
+import { LangChainAgentB } from '../src/agents/langchain-agent-b';
+import { LangChainAgentC } from '../src/agents/langchain-agent-c';
+import { AnalysisAgentG } from '../src/agents/analysis-agent-g';
+import { UserStory } from '../src/types';
+
+// Story whose LLM responses are recorded in FIXTURES_DIR
+const STORY: UserStory = {
+  id: 'replay-sign-in',
+  description: 'As a registered user, I want to sign in with my email and password so that I can see my credit report',
+  acceptance_criteria: [
+    'A user with valid credentials is taken to their dashboard',
+    'A wrong password shows an error and keeps the user on the sign in page'
+  ]
+};
+
+const FIXTURES_DIR = path.join(__dirname, '../fixtures/llm/replay-sign-in');
+
+// Settings that change the prompts; pinned so a local .env cannot break the replay
+const PINNED_ENV: Record<string, string> = {
+  KB_DIR: path.join(__dirname, '../kb'),
+  KB_SITE: '',
+  RAG_EMBEDDER: 'tfidf',
+  RAG_TOP_K: '8',
+  RAG_MIN_SCORE: '0.1',
+  RAG_WIDE_TOP_K: '40',
+  AGENT_B_MIN_CONFIDENCE: '0.6',
+  TEST_DATA_SEED: ''
+};
+
+/**
+ * Agents catch LLM errors and fall back, so record them on the way through
+ */
+class CheckedLangChainClient extends LangChainClient {
+  constructor(private failures: string[], config: Partial<LLMConfig>) {
+    super(config);
+  }
+
+  async generateResponse(systemPrompt: string, userPrompt: string): Promise<string> {
+    return this.check('generateResponse', super.generateResponse(systemPrompt, userPrompt));
+  }
+
+  async generateWithTemplate(template: PromptTemplate, variables: Record<string, any>): Promise<string> {
+    return this.check('generateWithTemplate', super.generateWithTemplate(template, variables));
+  }
+
+  private async check(method: string, response: Promise<string>): Promise<string> {
+    try {
+      return await response;
+    } catch (error) {
+      this.failures.push(`${method}: ${error instanceof Error ? error.message : error}`);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Runs Agents A, B, C and G on STORY against recorded LLM responses, with no
+ * network access, and fails when a prompt has no fixture or an agent falls
+ * back to its rule-based path. LLM_PROVIDER=record re-records the fixtures
+ * after a prompt change (LLM_RECORD_PROVIDER answers them).
+ */
+async function main() {
+  Object.assign(process.env, PINNED_ENV);
+  const provider = process.env.LLM_PROVIDER === 'record' ? 'record' : 'replay';
+  const failures: string[] = [];
+  const llmClient = new CheckedLangChainClient(failures, { provider, fixturesDir: FIXTURES_DIR, maxRetries: 1 });
+
+  console.log(`Replaying "${STORY.description}" from ${path.relative(process.cwd(), FIXTURES_DIR)} (${provider})\n`);
+
+  const scenarios = await new LangChainAgentA(llmClient).expandUserStory(STORY);
+  const validated = await new LangChainAgentB(llmClient).validateScenarios(scenarios);
+  validated
+    .filter(scenario => scenario.validation_notes.some(note => note.startsWith('Estimated confidence')))
+    .forEach(scenario => failures.push(`Agent B used rule-based validation for "${scenario.title}"`));
+
+  const tests = await new LangChainAgentC(llmClient).generatePlaywrightTests(validated);
+  for (const test of tests) {
+    const plan = test.test_plan;
+    const unanswered = plan ? [...plan.steps, plan.outcome].filter(step => step.kind === 'llm' && !step.code) : [];
+    unanswered.forEach(step => failures.push(`Agent C left step ${step.step_index + 1} of ${test.filename} as a TODO`));
+  }
+
+  const report = await new AnalysisAgentG(llmClient).analyzeTestsAndGenerateReport(tests, validated);
+  // A check, not a run: keep reports/ for real runs
+  fs.rmSync(report.reportPath, { force: true });
+
+  console.log(`\nReplay: ${scenarios.length} scenarios, ${validated.length} validated, ${tests.length} specs, quality score ${report.summary.averageQualityScore}`);
+  if (failures.length > 0) {
+    console.error(`\nReplay FAILED (${failures.length}):`);
+    failures.forEach(failure => console.error(`   ${failure}`));
+    process.exit(1);
+  }
+  console.log('Replay passed');
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('Replay failed:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,222 @@
+#!/usr/bin/env tsx
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+
+/**
+ * Local stand-in for the Experian pages used by the page objects and
+ * kb/selectors/common.json, so generated specs and selector validation
+ * can run without internet access.
+ */
+
+const SITE_DIR = path.join(__dirname, '../fixtures/site');
+const ENDPOINTS_PATH = path.join(__dirname, '../kb/apis/endpoints.json');
+
+// Credentials accepted by the fake auth API
+const VALID_USER = {
+  email: process.env.FIXTURE_USER_EMAIL || 'test.user@example.com',
+  password: process.env.FIXTURE_USER_PASSWORD || 'Password123!'
+};
+const LOCKED_USER_EMAIL = 'locked.user@example.com';
+
+const PAGES: Record<string, string> = {
+  '/': 'index.html',
+  '/login': 'login.html',
+  '/dashboard': 'dashboard.html'
+};
+
+const REDIRECTS: Record<string, string> = {
+  '/signin': '/login',
+  '/logout': '/login'
+};
+
+const CONTENT_PAGES: Record<string, { title: string; summary: string }> = {
+  '/credit-report': { title: 'Free Credit Report', summary: 'Get your Experian credit report for free, updated every 30 days on sign in.' },
+  '/credit-score': { title: 'Free Credit Score', summary: 'See your FICO® Score for free. Checking will not hurt your credit.' },
+  '/boost': { title: 'Experian Boost', summary: 'Get credit for the bills you already pay.' },
+  '/experian-go': { title: 'Experian Go', summary: 'Start building credit from scratch.' },
+  '/identity-theft': { title: 'Identity Theft Protection', summary: 'Monitor your identity and get alerts.' },
+  '/dark-web-scan': { title: 'Free Dark Web Scan', summary: 'Find out if your information is on the dark web.' },
+  '/privacy-scan': { title: 'Personal Privacy Scan', summary: 'See which people-search sites show your data.' },
+  '/checking-account': { title: 'Digital Checking Account', summary: 'A digital checking account that helps build credit.' },
+  '/smart-money': { title: 'Experian Smart Money', summary: 'Digital checking with credit building built in.' },
+  '/manage-expenses': { title: 'Manage Expenses', summary: 'Track subscriptions and lower your bills.' },
+  '/credit-cards': { title: 'Credit Cards', summary: 'Compare credit card offers matched to your profile.' },
+  '/balance-transfer': { title: 'Balance Transfer Cards', summary: 'Cards with low introductory balance transfer APR.' },
+  '/cash-back': { title: 'Cash Back Cards', summary: 'Earn cash back on everyday purchases.' },
+  '/bad-credit': { title: 'Cards for Bad Credit', summary: 'Options for rebuilding your credit.' },
+  '/personal-loans': { title: 'Personal Loans', summary: 'Compare personal loan offers.' },
+  '/auto-loans': { title: 'Auto Loans', summary: 'Compare auto loan offers.' },
+  '/auto-insurance': { title: 'Auto Insurance', summary: 'Compare car insurance quotes and save.' },
+  '/security-freeze': { title: 'Security Freeze', summary: 'Freeze or unfreeze your Experian credit file.' },
+  '/disputes': { title: 'Disputes', summary: 'Dispute information on your credit report.' },
+  '/fraud-alert': { title: 'Fraud Alert', summary: 'Place a fraud alert on your credit file.' },
+  '/contact-us': { title: 'Contact Us', summary: 'Get help from Experian customer support.' },
+  '/signup': { title: 'Create Your Free Account', summary: 'Sign up for a free Experian membership.' },
+  '/forgot-password': { title: 'Reset Password', summary: 'We will email you a link to reset your password.' },
+  '/account-settings': { title: 'Account Settings', summary: 'Manage your personal information and preferences.' }
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.css': 'text/css; charset=utf-8',
+  '.js': 'application/javascript; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.html': 'text/html; charset=utf-8'
+};
+
+/**
+ * Start the fixture site and resolve once it is listening
+ */
+export function startFixtureSite(port: number = Number(process.env.FIXTURE_SITE_PORT || 4173)): Promise<http.Server> {
+  const apiRoutes = loadApiRoutes();
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', `http://localhost:${port}`);
+    const route = url.pathname.replace(/\/+$/, '') || '/';
+
+    try {
+      if (route.startsWith('/api/')) {
+        handleApi(req, res, route, apiRoutes);
+      } else if (route.startsWith('/assets/')) {
+        serveAsset(res, route);
+      } else if (REDIRECTS[route]) {
+        res.writeHead(302, { Location: REDIRECTS[route] });
+        res.end();
+      } else if (PAGES[route]) {
+        sendHtml(res, 200, renderFile(PAGES[route]));
+      } else if (CONTENT_PAGES[route]) {
+        const { title, summary } = CONTENT_PAGES[route];
+        sendHtml(res, 200, renderFile('content.html', { title, summary }));
+      } else {
+        sendHtml(res, 404, renderFile('404.html'));
+      }
+    } catch (error) {
+      console.error(`Fixture site error for ${req.method} ${url.pathname}:`, error);
+      res.writeHead(500, { 'Content-Type': 'text/plain' });
+      res.end('Internal fixture site error');
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, () => resolve(server));
+  });
+}
+
+function renderFile(file: string, variables: Record<string, string> = {}): string {
+  let html = fs.readFileSync(path.join(SITE_DIR, file), 'utf-8');
+
+  html = html.replace(/<!-- include:(\w+) -->/g, (_, partial) =>
+    fs.readFileSync(path.join(SITE_DIR, 'partials', `${partial}.html`), 'utf-8')
+  );
+
+  return html.replace(/\{\{(\w+)\}\}/g, (_, name) => escapeHtml(variables[name] || ''));
+}
+
+function serveAsset(res: http.ServerResponse, route: string): void {
+  const filePath = path.normalize(path.join(SITE_DIR, route));
+
+  if (!filePath.startsWith(path.join(SITE_DIR, 'assets')) || !fs.existsSync(filePath)) {
+    res.writeHead(404, { 'Content-Type': 'text/plain' });
+    res.end('Not found');
+    return;
+  }
+
+  res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(filePath)] || 'application/octet-stream' });
+  res.end(fs.readFileSync(filePath));
+}
+
+/**
+ * Endpoints from kb/apis/endpoints.json answer with a generic success
+ * payload; auth and credit score have realistic behaviour
+ */
+function handleApi(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  route: string,
+  apiRoutes: Array<{ method: string; pattern: RegExp; name: string }>
+): void {
+  if (req.method === 'POST' && route === '/api/v1/auth/login') {
+    readJsonBody(req).then(body => {
+      if (body.email === LOCKED_USER_EMAIL) {
+        sendJson(res, 423, { message: 'Your account is locked. Please contact support.' });
+      } else if (body.email === VALID_USER.email && body.password === VALID_USER.password) {
+        sendJson(res, 200, { token: 'fixture-token', user: { email: body.email } });
+      } else {
+        sendJson(res, 401, { message: 'Invalid email or password' });
+      }
+    }).catch(() => sendJson(res, 400, { message: 'Malformed request body' }));
+    return;
+  }
+
+  if (req.method === 'GET' && route === '/api/v1/credit/score') {
+    sendJson(res, 200, { score: 742, range: '300-850', change: 4 });
+    return;
+  }
+
+  const match = apiRoutes.find(r => r.method === req.method && r.pattern.test(route));
+  if (match) {
+    sendJson(res, 200, { status: 'ok', endpoint: match.name });
+  } else {
+    sendJson(res, 404, { message: `No fixture for ${req.method} ${route}` });
+  }
+}
+
+function loadApiRoutes(): Array<{ method: string; pattern: RegExp; name: string }> {
+  const endpoints: Record<string, Record<string, string>> = JSON.parse(fs.readFileSync(ENDPOINTS_PATH, 'utf-8'));
+
+  return Object.entries(endpoints).flatMap(([category, entries]) =>
+    Object.entries(entries).map(([name, endpoint]) => {
+      const [method, endpointPath] = endpoint.split(' ');
+      const pattern = new RegExp(`^${endpointPath.replace(/\{\w+\}/g, '[^/]+')}$`);
+      return { method, pattern, name: `${category}.${name}` };
+    })
+  );
+}
+
+function readJsonBody(req: http.IncomingMessage): Promise<Record<string, any>> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function sendHtml(res: http.ServerResponse, status: number, html: string): void {
+  res.writeHead(status, { 'Content-Type': CONTENT_TYPES['.html'] });
+  res.end(html);
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// CLI execution
+if (require.main === module) {
+  startFixtureSite().then(server => {
+    const address = server.address();
+    const port = typeof address === 'object' && address ? address.port : '';
+    console.log(`Fixture site running at http://localhost:${port}`);
+    console.log(`Test user: ${VALID_USER.email} / ${VALID_USER.password}`);
+  }).catch(error => {
+    console.error('Failed to start fixture site:', error);
+    process.exit(1);
+  });
+}
@@ -3,6 +3,7 @@
 import { chromium, Browser, Page } from 'playwright';
 import * as fs from 'fs';
 import * as path from 'path';
+import { KnowledgeBaseLoader } from '../src/rag/knowledge-base-loader';
 
 interface SelectorResult {
   path: string;
@@ -24,16 +25,17 @@ async function validateSelectorsLive(): Promise<void> {
 
   try {
     // Load selectors
-    const selectorsPath = path.join(__dirname, '../kb/selectors/common.json');
-    const selectorsData = JSON.parse(fs.readFileSync(selectorsPath, 'utf-8'));
+    const selectorsData = new KnowledgeBaseLoader().load().selectors;
 
     // Launch browser
     console.log('Launching browser...');
     browser = await chromium.launch({ headless: false }); // Use headed for debugging
     page = await browser.newPage();
 
-    // Navigate to Experian
-    const url = 'https://www.experian.com';
+    // Same base URL as playwright.config.ts; the fixture site must already be running (npm run fixture-site)
+    const url = process.env.FIXTURE_SITE === 'true'
+      ? `http://localhost:${process.env.FIXTURE_SITE_PORT || 4173}`
+      : process.env.BASE_URL || 'https://www.experian.com';
     console.log(`Navigating to ${url}...`);
     await page.goto(url, { 
       waitUntil: 'domcontentloaded',
@@ -4,6 +4,7 @@ import { MicrosoftPlaywrightMCPClient } from '../src/mcp/microsoft-playwright-mc
 import * as fs from 'fs';
 import * as path from 'path';
 import * as dotenv from 'dotenv';
+import { KnowledgeBaseLoader } from '../src/rag/knowledge-base-loader';
 
 // Load environment variables
 dotenv.config();
@@ -32,21 +33,20 @@ interface ValidationReport {
 }
 
 /**
- * Validate all selectors in common.json against the live Experian website
+ * Validate all knowledge base selectors against the live Experian website
  */
 async function validateSelectors(): Promise<void> {
   console.log('Validating selectors against live Experian website...\n');
 
   // Load selectors from knowledge base
-  const selectorsPath = path.join(__dirname, '../kb/selectors/common.json');
-  const selectorsData = JSON.parse(fs.readFileSync(selectorsPath, 'utf-8'));
+  const selectorsData = new KnowledgeBaseLoader().load().selectors;
 
   // Initialize MCP client
   const mcpClient = new MicrosoftPlaywrightMCPClient();
   await mcpClient.initialize();
 
   const results: SelectorValidationResult[] = [];
-  const url = 'https://www.experian.com';
+  const url = process.env.BASE_URL || 'https://www.experian.com';
 
   try {
     console.log(`Navigating to ${url}...`);
@@ -16,11 +16,13 @@ export class AnalysisAgentG {
   }
 
   /**
-   * Analyze all generated tests and create comprehensive engineer report
+   * Analyze all generated tests and create comprehensive engineer report.
+   * With saveReport false the report is returned without writing reportPath.
    */
   async analyzeTestsAndGenerateReport(
     tests: PlaywrightTest[], 
-    scenarios: ValidatedScenario[]
+    scenarios: ValidatedScenario[],
+    saveReport = true
   ): Promise<EngineerReviewReport> {
     console.log('Agent G: Starting comprehensive test analysis...');
 
@@ -34,6 +36,11 @@ export class AnalysisAgentG {
       analysisResults
     );
 
+    if (!saveReport) {
+      console.log('Agent G: Analysis complete');
+      return report;
+    }
+
     // Save report to file
     await this.saveReportToFile(report);
 
@@ -670,11 +677,6 @@ Provide 3-5 specific, actionable recommendations for an engineer to fix these is
     const timestamp = new Date().toISOString();
     const reportPath = path.join('reports', `engineer-review-${Date.now()}.md`);
 
-    // Ensure reports directory exists
-    if (!fs.existsSync('reports')) {
-      fs.mkdirSync('reports', { recursive: true });
-    }
-
     const totalIssues = analysisResults.reduce((sum, result) => 
       sum + result.syntaxErrors.length + result.playwrightApiIssues.length + 
       result.selectorQualityIssues.length + result.performanceIssues.length + 
@@ -792,6 +794,11 @@ Provide 3-5 specific, actionable recommendations for an engineer to fix these is
    */
   private async saveReportToFile(report: EngineerReviewReport): Promise<void> {
     const markdown = this.generateMarkdownReport(report);
+
+    // Ensure reports directory exists
+    if (!fs.existsSync(path.dirname(report.reportPath))) {
+      fs.mkdirSync(path.dirname(report.reportPath), { recursive: true });
+    }
     fs.writeFileSync(report.reportPath, markdown, 'utf-8');
   }
 
@@ -1,6 +1,30 @@
 import { UserStory, TestScenario } from '../types';
 import { LangChainClient } from '../llm/langchain-client';
-import { AGENT_A_TEMPLATE } from '../llm/prompt-templates';
+import { AGENT_A_TEMPLATE, AGENT_A_REPAIR_TEMPLATE } from '../llm/prompt-templates';
+import { TestScenarioSchema } from '../llm/schemas';
+import { parseStructuredArray, StructuredArrayResult } from '../llm/structured-output';
+import { describeSyntheticGenerators, SyntheticGeneratorName } from '../test-data/synthetic';
+
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Generator each rule-based negative or boundary step types into a field
+const NEGATIVE_INPUTS: Record<string, SyntheticGeneratorName> = {
+  'email': 'malformedEmail',
+  'password': 'whitespaceVariant',
+  'full name': 'injectionPayload',
+  'date of birth': 'invalidDateOfBirth',
+  'social security number': 'malformedSsn',
+  'search': 'injectionPayload'
+};
+
+const BOUNDARY_INPUTS: Record<string, SyntheticGeneratorName> = {
+  'email': 'overlongString',
+  'password': 'unicodeText',
+  'full name': 'unicodeText',
+  'date of birth': 'whitespaceVariant',
+  'social security number': 'overlongString',
+  'search': 'overlongString'
+};
 
 export class LangChainAgentA {
   private llmClient: LangChainClient;
@@ -14,15 +38,50 @@ export class LangChainAgentA {
       console.log(`Agent A (${this.llmClient.getModelInfo().provider}): Generating scenarios...`);
       
       // Generate scenarios using LangChain
-      const response = await this.llmClient.generateWithTemplate(AGENT_A_TEMPLATE, {
-        userStory: userStory.description
-      });
+      const variables = {
+        userStory: userStory.description,
+        acceptanceCriteria: this.formatAcceptanceCriteria(userStory),
+        syntheticData: describeSyntheticGenerators()
+      };
+      let response = await this.llmClient.generateWithTemplate(AGENT_A_TEMPLATE, variables);
+      // Every repair repeats the full request, so later attempts do not lose the criteria
+      const originalRequest = await AGENT_A_TEMPLATE.format(variables);
+
+      // Validate each scenario against the schema, keeping the good ones
+      let result = this.parseScenarios(response);
+      const scenarios = [...result.items];
+
+      // Ask the LLM to correct only the scenarios that failed validation
+      for (let attempt = 1; attempt <= MAX_REPAIR_ATTEMPTS && result.errors.length > 0; attempt++) {
+        console.warn(`Agent A: ${result.errors.length} validation error(s), repair attempt ${attempt}/${MAX_REPAIR_ATTEMPTS}`);
+        result.errors.forEach(error => console.warn(`   ${error}`));
+
+        try {
+          response = await this.llmClient.generateWithTemplate(AGENT_A_REPAIR_TEMPLATE, {
+            originalRequest,
+            previousResponse: response,
+            validationErrors: result.errors.join('\n')
+          });
+        } catch (error) {
+          // Keep the scenarios that already validated rather than discarding them
+          console.warn('Agent A: Repair request failed:', error);
+          break;
+        }
 
-      // Parse JSON response
-      const scenarios = this.parseScenarios(response);
+        result = this.parseScenarios(response);
+        scenarios.push(...result.items);
+      }
+
+      if (scenarios.length === 0) {
+        throw new Error(`No valid scenarios after ${MAX_REPAIR_ATTEMPTS} repair attempts: ${result.errors.join('; ')}`);
+      }
+
+      if (result.errors.length > 0) {
+        console.warn(`Agent A: Dropped ${result.errors.length} scenario(s) that could not be repaired`);
+      }
       
       console.log(`Agent A: Generated ${scenarios.length} scenarios`);
-      return scenarios;
+      return scenarios.map(scenario => this.resolveCoveredCriteria(scenario, userStory));
       
     } catch (error) {
       console.error('Agent A failed:', error);
@@ -33,58 +92,49 @@ export class LangChainAgentA {
     }
   }
 
-  private parseScenarios(response: string): TestScenario[] {
-    try {
-      // Clean the response - remove markdown code blocks if present
-      const cleanResponse = response
-        .replace(/```json\s*/g, '')
-        .replace(/```\s*/g, '')
-        .trim();
+  private formatAcceptanceCriteria(userStory: UserStory): string {
+    const criteria = userStory.acceptance_criteria || [];
+    return criteria.length > 0
+      ? criteria.map((criterion, i) => `${i + 1}. ${criterion}`).join('\n')
+      : 'None provided';
+  }
 
-      const scenarios = JSON.parse(cleanResponse);
-      
-      if (!Array.isArray(scenarios)) {
-        throw new Error('Response is not an array');
-      }
+  /**
+   * Map the criterion numbers the LLM returned back to the criterion text
+   */
+  private resolveCoveredCriteria(scenario: TestScenario, userStory: UserStory): TestScenario {
+    const criteria = userStory.acceptance_criteria || [];
+    const resolved = new Set<string>();
 
-      // Validate each scenario
-      return scenarios.map((scenario, index) => this.validateScenario(scenario, index));
-      
-    } catch (error) {
-      console.warn('Failed to parse LLM response:', error);
-      console.warn('Raw response:', response);
-      throw new Error(`Failed to parse scenarios: ${error}`);
-    }
-  }
+    for (const reference of scenario.covers_criteria || []) {
+      const trimmed = reference.trim();
+      const byIndex = /^\d+$/.test(trimmed) ? criteria[parseInt(trimmed, 10) - 1] : undefined;
+      const byText = criteria.find(criterion => criterion.toLowerCase() === trimmed.toLowerCase());
 
-  private validateScenario(scenario: any, index: number): TestScenario {
-    const requiredFields = ['title', 'type', 'description', 'steps', 'expected_outcome'];
-    const missingFields = requiredFields.filter(field => !scenario[field]);
-    
-    if (missingFields.length > 0) {
-      throw new Error(`Scenario ${index} missing fields: ${missingFields.join(', ')}`);
+      if (byIndex || byText) {
+        resolved.add((byIndex || byText)!);
+      } else {
+        console.warn(`Agent A: "${scenario.title}" references unknown acceptance criterion: ${reference}`);
+      }
     }
 
-    if (!['positive', 'negative', 'edge', 'cross-device'].includes(scenario.type)) {
-      scenario.type = 'positive'; // Default fallback
-    }
+    return { ...scenario, covers_criteria: [...resolved] };
+  }
+
+  private parseScenarios(response: string): StructuredArrayResult<TestScenario> {
+    const result = parseStructuredArray(response, TestScenarioSchema);
 
-    if (!Array.isArray(scenario.steps)) {
-      scenario.steps = [scenario.steps].filter(Boolean);
+    if (result.items.length === 0 && result.errors.length > 0) {
+      console.warn('Failed to parse LLM response:', result.errors.join('; '));
+      console.warn('Raw response:', response);
     }
 
-    return {
-      title: scenario.title,
-      type: scenario.type,
-      description: scenario.description,
-      steps: scenario.steps,
-      expected_outcome: scenario.expected_outcome,
-      device: scenario.device || (scenario.type === 'cross-device' ? 'mobile' : 'desktop')
-    };
+    return result;
   }
 
   private generateFallbackScenarios(userStory: UserStory): TestScenario[] {
     const baseTitle = this.extractTitle(userStory.description);
+    // Generic flows check none of the criteria, so the traceability matrix lists them all as uncovered
 
     return [
       {
@@ -93,7 +143,8 @@ export class LangChainAgentA {
         description: `User successfully completes: ${userStory.description}`,
         steps: this.generatePositiveSteps(userStory.description),
         expected_outcome: 'User successfully completes the action with expected results',
-        device: 'desktop' as const
+        device: 'desktop' as const,
+        covers_criteria: []
       },
       {
         title: `${baseTitle} - Invalid Input`,
@@ -101,7 +152,17 @@ export class LangChainAgentA {
         description: `User attempts ${userStory.description} with invalid data`,
         steps: this.generateNegativeSteps(userStory.description),
         expected_outcome: 'System displays appropriate error messages and prevents invalid actions',
-        device: 'desktop' as const
+        device: 'desktop' as const,
+        covers_criteria: []
+      },
+      {
+        title: `${baseTitle} - Boundary Input`,
+        type: 'edge' as const,
+        description: `User attempts ${userStory.description} with overlong, unicode and unusual input`,
+        steps: this.generateBoundarySteps(userStory.description),
+        expected_outcome: 'System rejects or safely handles the input without breaking the page',
+        device: 'desktop' as const,
+        covers_criteria: []
       },
       {
         title: `${baseTitle} - Network Error`,
@@ -109,7 +170,8 @@ export class LangChainAgentA {
         description: `User attempts ${userStory.description} during network issues`,
         steps: this.generateEdgeCaseSteps(userStory.description),
         expected_outcome: 'System gracefully handles network errors with proper user feedback',
-        device: 'desktop' as const
+        device: 'desktop' as const,
+        covers_criteria: []
       },
       {
         title: `${baseTitle} - Mobile Experience`,
@@ -117,7 +179,8 @@ export class LangChainAgentA {
         description: `User completes ${userStory.description} on mobile device`,
         steps: this.generatePositiveSteps(userStory.description),
         expected_outcome: 'Mobile interface provides equivalent functionality with responsive design',
-        device: 'mobile' as const
+        device: 'mobile' as const,
+        covers_criteria: []
       }
     ];
   }
@@ -171,15 +234,60 @@ export class LangChainAgentA {
   }
 
   private generateNegativeSteps(description: string): string[] {
+    const flow = this.describeDataFlow(description);
     return [
-      'Navigate to the application',
-      'Attempt to perform action with invalid/missing data',
-      'Submit the form/request',
-      'Observe error handling and validation messages',
+      ...flow.setup,
+      ...flow.fields.map(field => `Enter synthetic.${NEGATIVE_INPUTS[field]} in the ${field} field`),
+      flow.submit,
+      'Verify validation error messages are displayed',
       'Verify system prevents invalid operations'
     ];
   }
 
+  private generateBoundarySteps(description: string): string[] {
+    const flow = this.describeDataFlow(description);
+    return [
+      ...flow.setup,
+      ...flow.fields.map(field => `Enter synthetic.${BOUNDARY_INPUTS[field]} in the ${field} field`),
+      flow.submit,
+      'Verify the page shows a validation message or keeps working without errors'
+    ];
+  }
+
+  /**
+   * Steps before data entry, the fields a flow asks for and how it is submitted
+   */
+  private describeDataFlow(description: string): { setup: string[]; fields: string[]; submit: string } {
+    const lower = description.toLowerCase();
+
+    if (lower.includes('sign up') || lower.includes('register')) {
+      return {
+        setup: ['Navigate to the application', 'Click on sign up/register link'],
+        fields: ['email', 'full name', 'date of birth'],
+        submit: 'Submit the registration form'
+      };
+    }
+    if (lower.includes('login') || lower.includes('sign in')) {
+      return {
+        setup: ['Navigate to the sign in page'],
+        fields: ['email', 'password'],
+        submit: 'Click login button'
+      };
+    }
+    if (lower.includes('credit report')) {
+      return {
+        setup: ['Navigate to the application', 'Log in to user account', 'Navigate to credit report section', 'Click request credit report button'],
+        fields: ['social security number', 'date of birth'],
+        submit: 'Submit the verification form'
+      };
+    }
+    return {
+      setup: ['Navigate to the application'],
+      fields: ['search'],
+      submit: 'Submit the form/request'
+    };
+  }
+
   private generateEdgeCaseSteps(description: string): string[] {
     return [
       'Navigate to the application',
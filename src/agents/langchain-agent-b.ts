@@ -1,15 +1,30 @@
-import { TestScenario, ValidatedScenario } from '../types';
+import { ScenarioValidation, StepBinding, TestScenario, ValidatedScenario } from '../types';
 import { LangChainClient } from '../llm/langchain-client';
 import { AGENT_B_TEMPLATE } from '../llm/prompt-templates';
+import { ScenarioValidationSchema } from '../llm/schemas';
+import { parseStructuredObject } from '../llm/structured-output';
 import { RAGRetriever } from '../rag/retriever';
+import { RetrievalResult } from '../rag/vector-index';
+import { StepBinder } from '../validation/step-binder';
+
+interface ScenarioRetrieval {
+  selectors: RetrievalResult[];
+  endpoints: RetrievalResult[];
+}
 
 export class LangChainAgentB {
   private llmClient: LangChainClient;
   private ragRetriever: RAGRetriever;
+  private stepBinder: StepBinder;
+  private minConfidence: number;
+  private wideTopK: number;
 
   constructor(llmClient?: LangChainClient) {
     this.llmClient = llmClient || new LangChainClient();
     this.ragRetriever = new RAGRetriever();
+    this.stepBinder = new StepBinder(this.ragRetriever);
+    this.minConfidence = parseFloat(process.env.AGENT_B_MIN_CONFIDENCE || '0.6');
+    this.wideTopK = parseInt(process.env.RAG_WIDE_TOP_K || '40');
   }
 
   async validateScenarios(scenarios: TestScenario[]): Promise<ValidatedScenario[]> {
@@ -24,84 +39,154 @@ export class LangChainAgentB {
   }
 
   private async validateScenario(scenario: TestScenario): Promise<ValidatedScenario> {
+    let retrieval = await this.retrieveForScenario(scenario);
+
     try {
-      // Use LangChain for intelligent validation
-      const validation = await this.performLLMValidation(scenario);
+      // Use LangChain for intelligent validation over the top-k candidates only
+      let validation = await this.performLLMValidation(scenario, retrieval);
+      const notes: string[] = [];
+
+      // Low confidence usually means the right entries were not among the candidates
+      if (validation.confidence_score < this.minConfidence) {
+        const wider = await this.retrieveForScenario(scenario, this.wideTopK, 0);
+
+        if (this.countCandidates(wider) > this.countCandidates(retrieval)) {
+          console.log(`Agent B: Low confidence (${validation.confidence_score}) for "${scenario.title}", widening search to ${this.countCandidates(wider)} candidates`);
+          const retry = await this.performLLMValidation(scenario, wider);
+          notes.push(`Low confidence (${validation.confidence_score}) with ${this.countCandidates(retrieval)} candidates; wider search over ${this.countCandidates(wider)} candidates scored ${retry.confidence_score}`);
+
+          if (retry.confidence_score >= validation.confidence_score) {
+            validation = retry;
+            retrieval = wider;
+          }
+        }
+      }
+      
+      const stepBindings = await this.stepBinder.bind(scenario, validation.step_bindings);
       
       return {
         ...scenario,
-        selectors: validation.relevant_selectors || {},
-        api_endpoints: validation.relevant_endpoints || [],
-        validation_notes: validation.validation_notes || []
+        selectors: { ...validation.relevant_selectors, ...this.boundSelectors(stepBindings) },
+        api_endpoints: validation.relevant_endpoints,
+        validation_notes: [
+          ...validation.validation_notes,
+          ...notes,
+          ...this.formatRetrievalNotes(retrieval),
+          ...this.stepBinder.describeMissing(stepBindings)
+        ],
+        confidence_score: validation.confidence_score,
+        step_bindings: stepBindings
       };
       
     } catch (error) {
       console.warn(`LLM validation failed for scenario: ${scenario.title}, using fallback`);
       
       // Fallback to rule-based validation
-      return this.performFallbackValidation(scenario);
+      return await this.performFallbackValidation(scenario, retrieval);
     }
   }
 
-  private async performLLMValidation(scenario: TestScenario): Promise<any> {
-    const kb = this.ragRetriever.getKnowledgeBase();
-    
+  private async retrieveForScenario(scenario: TestScenario, k?: number, minScore?: number): Promise<ScenarioRetrieval> {
+    const query = `${scenario.title} ${scenario.description} ${scenario.steps.join(' ')}`;
+    try {
+      const [selectors, endpoints] = await Promise.all([
+        this.ragRetriever.retrieveSelectors(query, k, minScore),
+        this.ragRetriever.retrieveEndpoints(query, k, minScore)
+      ]);
+      return { selectors, endpoints };
+    } catch (error) {
+      console.warn('Agent B: Knowledge base retrieval failed:', error instanceof Error ? error.message : error);
+      return { selectors: [], endpoints: [] };
+    }
+  }
+
+  private boundSelectors(bindings: StepBinding[]): Record<string, string> {
+    return Object.fromEntries(
+      bindings.filter(binding => binding.target && binding.selector).map(binding => [binding.target!, binding.selector!])
+    );
+  }
+
+  private countCandidates(retrieval: ScenarioRetrieval): number {
+    return retrieval.selectors.length + retrieval.endpoints.length;
+  }
+
+  private formatRetrievalNotes(retrieval: ScenarioRetrieval): string[] {
+    const format = (results: RetrievalResult[]) => results.map(result => `${result.key} (${result.score.toFixed(2)})`).join(', ');
+    const notes: string[] = [];
+
+    if (retrieval.selectors.length > 0) {
+      notes.push(`Retrieved selectors: ${format(retrieval.selectors)}`);
+    }
+    if (retrieval.endpoints.length > 0) {
+      notes.push(`Retrieved endpoints: ${format(retrieval.endpoints)}`);
+    }
+    return notes;
+  }
+
+  private async performLLMValidation(scenario: TestScenario, retrieval: ScenarioRetrieval): Promise<ScenarioValidation> {
+    const toCandidates = (results: RetrievalResult[]) => Object.fromEntries(results.map(result => [result.key, result.value]));
+
     const response = await this.llmClient.generateWithTemplate(AGENT_B_TEMPLATE, {
       scenario: JSON.stringify(scenario, null, 2),
-      selectors: JSON.stringify(kb.selectors, null, 2),
-      endpoints: JSON.stringify(kb.endpoints, null, 2)
+      selectors: JSON.stringify(toCandidates(retrieval.selectors), null, 2),
+      endpoints: JSON.stringify(toCandidates(retrieval.endpoints), null, 2)
     });
 
-    // Parse LLM response
-    return this.parseValidationResponse(response);
-  }
-
-  private parseValidationResponse(response: string): any {
     try {
-      const cleanResponse = response
-        .replace(/```json\s*/g, '')
-        .replace(/```\s*/g, '')
-        .trim();
-
-      const validation = JSON.parse(cleanResponse);
-      
-      // Ensure required structure
-      return {
-        relevant_selectors: validation.relevant_selectors || {},
-        relevant_endpoints: validation.relevant_endpoints || [],
-        validation_notes: validation.validation_notes || [],
-        confidence_score: validation.confidence_score || 0.5
-      };
-      
+      return parseStructuredObject(response, ScenarioValidationSchema);
     } catch (error) {
-      console.warn('Failed to parse validation response:', error);
+      console.warn(`Agent B: Unusable validation for "${scenario.title}": ${error instanceof Error ? error.message : error}`);
       throw error;
     }
   }
 
-  private performFallbackValidation(scenario: TestScenario): ValidatedScenario {
-    // Extract keywords using the existing RAG retriever
-    const keywords = this.ragRetriever.extractKeywords(
-      `${scenario.title} ${scenario.description} ${scenario.steps.join(' ')}`
-    );
-
-    const relevantSelectors = this.ragRetriever.findRelevantSelectors(keywords);
-    const relevantEndpoints = this.ragRetriever.findRelevantEndpoints(keywords);
+  private async performFallbackValidation(
+    scenario: TestScenario,
+    retrieval: ScenarioRetrieval
+  ): Promise<ValidatedScenario> {
+    // Top-k semantic matches from the RAG retriever
+    const stepBindings = await this.stepBinder.bind(scenario);
+    const relevantSelectors = {
+      ...Object.fromEntries(retrieval.selectors.map(result => [result.key, result.value])),
+      ...this.boundSelectors(stepBindings)
+    };
+    const relevantEndpoints = retrieval.endpoints.map(result => `${result.key}: ${result.value}`);
+    const confidence = this.estimateConfidence(stepBindings, retrieval);
     
-    const validationNotes = this.generateValidationNotes(
-      scenario, 
-      relevantSelectors, 
-      relevantEndpoints
-    );
+    const validationNotes = [
+      ...this.generateValidationNotes(scenario, relevantSelectors, relevantEndpoints),
+      ...this.formatRetrievalNotes(retrieval),
+      `Estimated confidence ${confidence.score}: ${confidence.covered_steps}/${scenario.steps.length} steps matched a selector, ${retrieval.endpoints.length > 0 ? 'endpoints found' : 'no endpoints found'}`,
+      ...this.stepBinder.describeMissing(stepBindings)
+    ];
 
     return {
       ...scenario,
       selectors: relevantSelectors,
       api_endpoints: relevantEndpoints,
-      validation_notes: validationNotes
+      validation_notes: validationNotes,
+      confidence_score: confidence.score,
+      step_bindings: stepBindings
     };
   }
 
+  /**
+   * Deterministic confidence for the rule-based path: the share of steps
+   * with a matching selector, plus whether any API endpoint matched
+   */
+  private estimateConfidence(
+    bindings: StepBinding[],
+    retrieval: ScenarioRetrieval
+  ): { score: number; covered_steps: number } {
+    const coveredSteps = bindings.filter(binding => binding.selector || binding.page_object_member).length;
+
+    const stepCoverage = bindings.length > 0 ? coveredSteps / bindings.length : 0;
+    const endpointCoverage = retrieval.endpoints.length > 0 ? 1 : 0;
+    const score = Math.round((0.8 * stepCoverage + 0.2 * endpointCoverage) * 100) / 100;
+
+    return { score, covered_steps: coveredSteps };
+  }
+
   private generateValidationNotes(
     scenario: TestScenario, 
     selectors: Record<string, string>,
@@ -1,9 +1,14 @@
 import { ValidatedScenario, PlaywrightTest } from '../types';
 import { LangChainClient } from '../llm/langchain-client';
-import { AGENT_C_TEMPLATE } from '../llm/prompt-templates';
+import { PageObjectCatalog } from '../codegen/page-object-catalog';
+import { TestDataResolver } from '../codegen/test-data-resolver';
+import { NetworkMockPlanner } from '../codegen/network-mock-planner';
+import { TestPlanCompiler } from '../codegen/test-plan-compiler';
 
 export class LangChainAgentC {
   private llmClient: LangChainClient;
+  private pageObjects?: PageObjectCatalog;
+  private compiler?: TestPlanCompiler;
 
   constructor(llmClient?: LangChainClient) {
     this.llmClient = llmClient || new LangChainClient();
@@ -20,44 +25,60 @@ export class LangChainAgentC {
     return tests;
   }
 
-  private async generateSingleTest(scenario: ValidatedScenario): Promise<PlaywrightTest> {
-    const filename = this.generateFilename(scenario);
-    
+  private async generateSingleTest(validatedScenario: ValidatedScenario): Promise<PlaywrightTest> {
+    const filename = this.generateFilename(validatedScenario);
+
     try {
-      // Use LangChain for intelligent test generation
-      const content = await this.generateLLMTestContent(scenario);
-      return { filename, content };
-      
+      const { scenario, warnings } = this.bindScenario(validatedScenario);
+      const networkMocks = NetworkMockPlanner.load().plan(scenario);
+
+      // Compiled from the test plan; the LLM only writes steps the plan cannot express
+      const { content, plan } = await this.getCompiler().compile(scenario, networkMocks);
+      return {
+        filename,
+        content,
+        ...this.getTraceability(scenario),
+        page_object_warnings: warnings,
+        network_mocks: networkMocks,
+        test_plan: plan
+      };
     } catch (error) {
-      console.warn(`LLM test generation failed for ${filename}, using fallback`);
-      
-      // Fallback to rule-based generation
-      const content = this.generateFallbackTestContent(scenario);
-      return { filename, content };
+      console.warn(`Test compilation failed for ${filename}, writing its steps as TODOs:`, error instanceof Error ? error.message : error);
+      const { content, plan } = this.getCompiler().fallback(validatedScenario, error);
+      return { filename, content, ...this.getTraceability(validatedScenario), test_plan: plan };
     }
   }
 
-  private async generateLLMTestContent(scenario: ValidatedScenario): Promise<string> {
-    const response = await this.llmClient.generateWithTemplate(AGENT_C_TEMPLATE, {
-      validatedScenario: JSON.stringify(scenario, null, 2),
-      selectors: JSON.stringify(scenario.selectors, null, 2),
-      endpoints: scenario.api_endpoints.join('\n')
-    });
+  /**
+   * Binds steps to page-object members and test data fixtures, and warns
+   * about steps left on raw selectors
+   */
+  private bindScenario(scenario: ValidatedScenario): { scenario: ValidatedScenario; warnings: string[] } {
+    const { bindings, warnings } = this.getPageObjects().bind(scenario.step_bindings);
+    warnings.forEach(warning => console.warn(`NO PAGE OBJECT (${scenario.title}): ${warning}`));
+    const step_bindings = new TestDataResolver(scenario.type).bind(bindings);
+    return { scenario: { ...scenario, step_bindings }, warnings };
+  }
 
-    // Clean up the response
-    return response
-      .replace(/```typescript\s*/g, '')
-      .replace(/```ts\s*/g, '')
-      .replace(/```\s*/g, '')
-      .trim();
+  private getPageObjects(): PageObjectCatalog {
+    if (!this.pageObjects) {
+      this.pageObjects = PageObjectCatalog.load();
+    }
+    return this.pageObjects;
   }
 
-  private generateFallbackTestContent(scenario: ValidatedScenario): string {
-    const imports = this.generateImports();
-    const testDescription = this.generateTestDescription(scenario);
-    const testBody = this.generateTestBody(scenario);
-    
-    return `${imports}\n\n${testDescription}\n${testBody}\n});`;
+  private getCompiler(): TestPlanCompiler {
+    if (!this.compiler) {
+      this.compiler = new TestPlanCompiler(this.llmClient, this.getPageObjects());
+    }
+    return this.compiler;
+  }
+
+  private getTraceability(scenario: ValidatedScenario): Pick<PlaywrightTest, 'scenario_title' | 'covers_criteria'> {
+    return {
+      scenario_title: scenario.title,
+      covers_criteria: scenario.covers_criteria || []
+    };
   }
 
   private generateFilename(scenario: ValidatedScenario): string {
@@ -71,114 +92,4 @@ export class LangChainAgentC {
     const device = scenario.device ? `-${scenario.device}` : '';
     return `${sanitized}${device}.spec.ts`;
   }
-
-  private generateImports(): string {
-    return `import { test, expect, devices } from '@playwright/test';`;
-  }
-
-  private generateTestDescription(scenario: ValidatedScenario): string {
-    const deviceConfig = scenario.device === 'mobile' 
-      ? `.use({ ...devices['iPhone 13'] })` 
-      : '';
-    
-    return `test.describe('${scenario.title}', () => {
-  // Scenario Type: ${scenario.type}
-  // Description: ${scenario.description}
-  // Expected Outcome: ${scenario.expected_outcome}
-  ${scenario.validation_notes.map(note => `  // ${note}`).join('\n')}
-
-  test('${scenario.title}'${deviceConfig}, async ({ page }) => {`;
-  }
-
-  private generateTestBody(scenario: ValidatedScenario): string {
-    const steps = scenario.steps.map((step, index) => 
-      this.generateStepCode(step, index, scenario)
-    ).join('\n\n');
-
-    const selectorComments = Object.entries(scenario.selectors).length > 0
-      ? `\n    // Available selectors:\n${Object.entries(scenario.selectors)
-          .map(([name, selector]) => `    // ${name}: ${selector}`)
-          .join('\n')}`
-      : '';
-
-    const apiComments = scenario.api_endpoints.length > 0
-      ? `\n    // Relevant API endpoints:\n${scenario.api_endpoints
-          .map(endpoint => `    // ${endpoint}`)
-          .join('\n')}`
-      : '';
-
-    return `${selectorComments}${apiComments}
-
-    ${steps}
-
-    // Verify expected outcome
-    ${this.generateOutcomeVerification(scenario)}`;
-  }
-
-  private generateStepCode(step: string, index: number, scenario: ValidatedScenario): string {
-    const stepComment = `    // Given/When/Then: ${step}`;
-    
-    if (step.toLowerCase().includes('navigate')) {
-      return `${stepComment}
-    await page.goto('/'); // TODO: Replace with actual URL`;
-    }
-    
-    if (step.toLowerCase().includes('click') || step.toLowerCase().includes('button')) {
-      const selector = this.findBestSelector(step, scenario.selectors, 'button') || 
-                     'button'; // fallback
-      return `${stepComment}
-    await page.click('${selector}');`;
-    }
-    
-    if (step.toLowerCase().includes('fill') || step.toLowerCase().includes('enter')) {
-      const selector = this.findBestSelector(step, scenario.selectors, 'input') || 
-                     'input'; // fallback
-      return `${stepComment}
-    await page.fill('${selector}', 'test-data'); // TODO: Replace with actual test data`;
-    }
-    
-    if (step.toLowerCase().includes('wait') || step.toLowerCase().includes('load')) {
-      return `${stepComment}
-    await page.waitForLoadState('networkidle');`;
-    }
-    
-    if (step.toLowerCase().includes('verify') || step.toLowerCase().includes('check')) {
-      return `${stepComment}
-    // TODO: Add specific verification logic
-    await expect(page).toHaveURL(/.*\\/expected-page/);`;
-    }
-    
-    return `${stepComment}
-    // TODO: Implement step logic for: ${step}`;
-  }
-
-  private findBestSelector(step: string, selectors: Record<string, string>, fallback: string): string {
-    const stepLower = step.toLowerCase();
-    
-    for (const [name, selector] of Object.entries(selectors)) {
-      if (stepLower.includes(name.toLowerCase()) || 
-          name.toLowerCase().includes('login') && stepLower.includes('login') ||
-          name.toLowerCase().includes('submit') && stepLower.includes('submit')) {
-        return selector;
-      }
-    }
-    
-    return fallback;
-  }
-
-  private generateOutcomeVerification(scenario: ValidatedScenario): string {
-    if (scenario.type === 'negative') {
-      return `// Verify error handling
-    await expect(page.locator('.error-message, .alert-error, [role="alert"]')).toBeVisible();`;
-    }
-    
-    if (scenario.expected_outcome.toLowerCase().includes('success')) {
-      return `// Verify successful completion
-    await expect(page.locator('.success-message, .alert-success')).toBeVisible();`;
-    }
-    
-    return `// TODO: Add specific outcome verification based on: ${scenario.expected_outcome}
-    await expect(page).toHaveURL(/.*\\/success/);`;
-  }
 }
-
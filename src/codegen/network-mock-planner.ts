@@ -0,0 +1,185 @@
+import { KnowledgeBaseLoader } from '../rag/knowledge-base-loader';
+import { NetworkMockPlan, ValidatedScenario } from '../types';
+import { DEFAULT_SLOW_DELAY_MS, MOCK_RESPONSES, parseEndpoint } from '../mocks/api-mocks';
+import { SpecBlock } from './spec-emitter';
+
+// Checked in order: the first failure a scenario describes is the one simulated
+const FAILURE_MODES: Array<[NetworkMockPlan['mode'], RegExp]> = [
+  ['unauthorized', /\b(401|session (has )?expire[sd]?|expired (session|token)|token (has )?expire[sd]?|unauthori[sz]ed (response|error|status))\b/i],
+  ['timeout', /\b(time ?outs?|timed out|times out|network (interruption|disconnect\w*|drops?)|connection (is )?(lost|drops?|interrupt\w*|fails?)|offline|no response|loses? (the )?connection)\b/i],
+  ['slow', /\b(slow (connection|network|response|api|server)s?|high latency|latency|delayed responses?|throttl\w+)\b/i],
+  ['server_error', /\b((HTTP|status|error) 50[0-4]|50[0-4] (error|status|response)|server errors?|internal error|service unavailable|outage|(api|backend|server|network) (error|failure)s?)\b/i]
+];
+
+// A step saying only that the session expires: the 401s start there rather than at sign in
+const SESSION_EXPIRES_STEP = /^\s*(the )?(user'?s )?session (expires|has expired|times out)\s*\.?\s*$/i;
+
+// Mocked when a scenario describes a failure but Agent B matched no endpoint
+const ALL_API_ENDPOINT = '* /api/**';
+
+// ApiMocks method per mode
+const MODE_CALLS: Record<NetworkMockPlan['mode'], string> = {
+  success: 'success',
+  server_error: 'serverError',
+  unauthorized: 'unauthorized',
+  timeout: 'timeout',
+  slow: 'slow'
+};
+
+/**
+ * Decides which kb/apis endpoints a negative or edge scenario mocks and how
+ * (500, 401, timeout, slow), renders the ApiMocks calls for its spec and
+ * the matching HAR fixture
+ */
+export class NetworkMockPlanner {
+  private static cached?: NetworkMockPlanner;
+
+  constructor(private endpoints: Record<string, Record<string, string>>) {}
+
+  /**
+   * Planner over the knowledge base endpoints (KB_DIR/KB_SITE)
+   */
+  static load(): NetworkMockPlanner {
+    if (!NetworkMockPlanner.cached) {
+      let endpoints: Record<string, Record<string, string>> = {};
+      try {
+        endpoints = new KnowledgeBaseLoader().load().endpoints;
+      } catch (error) {
+        console.warn('Network mocks: knowledge base endpoints unavailable:', error instanceof Error ? error.message : error);
+      }
+      NetworkMockPlanner.cached = new NetworkMockPlanner(endpoints);
+    }
+    return NetworkMockPlanner.cached;
+  }
+
+  plan(scenario: ValidatedScenario): NetworkMockPlan[] {
+    // Positive and cross-device flows run against the real backend
+    if (scenario.type !== 'negative' && scenario.type !== 'edge') {
+      return [];
+    }
+
+    const text = [scenario.title, scenario.description, ...scenario.steps, scenario.expected_outcome].join('\n');
+    const failure = FAILURE_MODES.find(([, pattern]) => pattern.test(text));
+    if (!failure) {
+      return [];
+    }
+
+    const [mode, pattern] = failure;
+    const reason = text.match(pattern)![0];
+    const endpoints = this.resolveEndpoints(scenario.api_endpoints);
+    const atStep = mode === 'unauthorized' ? scenario.steps.findIndex(step => SESSION_EXPIRES_STEP.test(step)) : -1;
+    const placement = atStep !== -1 ? { at_step: atStep } : {};
+
+    if (endpoints.length === 0) {
+      return [{ endpoint: ALL_API_ENDPOINT, mode, reason, ...placement }];
+    }
+    return endpoints.map(endpoint => ({ ...endpoint, mode, reason, ...placement }));
+  }
+
+  /**
+   * Spec block that sets up the mocks, at the start of a test or at the
+   * step that switches them on
+   */
+  static renderSetup(plans: NetworkMockPlan[]): SpecBlock | undefined {
+    if (plans.length === 0) {
+      return undefined;
+    }
+    return {
+      comments: [`Network mocks from kb/apis (${plans[0].mode}): "${plans[0].reason}"`],
+      code: [
+        'const apiMocks = new ApiMocks(page);',
+        ...plans.map(plan => `await ${NetworkMockPlanner.renderCall(plan)};${plan.endpoint_key ? ` // ${plan.endpoint_key}` : ''}`)
+      ]
+    };
+  }
+
+  /**
+   * HAR 1.2 log with the mocked responses, for page.routeFromHAR or
+   * ApiMocks.replayHar. Timeouts have no response and are left out.
+   */
+  toHar(plans: NetworkMockPlan[], baseUrl: string): object {
+    const entries = plans
+      .filter(plan => plan.mode !== 'timeout' && !plan.endpoint.startsWith('*'))
+      .map(plan => {
+        const { method, path } = parseEndpoint(plan.endpoint);
+        const response = MOCK_RESPONSES[plan.mode as Exclude<NetworkMockPlan['mode'], 'timeout'>];
+        const text = JSON.stringify(response.body);
+        const wait = plan.mode === 'slow' ? DEFAULT_SLOW_DELAY_MS : 0;
+
+        return {
+          startedDateTime: new Date().toISOString(),
+          time: wait,
+          request: {
+            method,
+            // Path parameters need a concrete value to replay
+            url: new URL(path.replace(/\{[^}]+\}/g, '1'), baseUrl).toString(),
+            httpVersion: 'HTTP/1.1',
+            cookies: [],
+            headers: [],
+            queryString: [],
+            headersSize: -1,
+            bodySize: -1
+          },
+          response: {
+            status: response.status,
+            statusText: response.status === 200 ? 'OK' : response.status === 401 ? 'Unauthorized' : 'Internal Server Error',
+            httpVersion: 'HTTP/1.1',
+            cookies: [],
+            headers: [{ name: 'Content-Type', value: 'application/json' }],
+            content: { size: text.length, mimeType: 'application/json', text },
+            redirectURL: '',
+            headersSize: -1,
+            bodySize: text.length
+          },
+          cache: {},
+          timings: { send: 0, wait, receive: 0 }
+        };
+      });
+
+    return {
+      log: {
+        version: '1.2',
+        creator: { name: 'playwright-ai-test-generator', version: '1.0.0' },
+        entries
+      }
+    };
+  }
+
+  private static renderCall(plan: NetworkMockPlan): string {
+    return `apiMocks.${MODE_CALLS[plan.mode]}('${plan.endpoint}')`;
+  }
+
+  /**
+   * Agent B lists endpoints as "category.name: METHOD /path", "METHOD /path"
+   * or just the knowledge base key
+   */
+  private resolveEndpoints(apiEndpoints: string[]): Array<Pick<NetworkMockPlan, 'endpoint' | 'endpoint_key'>> {
+    const resolved = new Map<string, Pick<NetworkMockPlan, 'endpoint' | 'endpoint_key'>>();
+
+    for (const entry of apiEndpoints) {
+      const keyed = entry.match(/^\s*([\w-]+\.[\w-]+)\s*:\s*(.+)$/);
+      const key = keyed ? keyed[1] : /^[\w-]+\.[\w-]+$/.test(entry.trim()) ? entry.trim() : undefined;
+      const endpoint = keyed ? keyed[2].trim() : key ? this.lookup(key) : entry.trim();
+
+      if (!endpoint || !/^[A-Z]+\s+\//.test(endpoint)) {
+        console.warn(`Network mocks: skipping unknown endpoint "${entry}"`);
+        continue;
+      }
+      resolved.set(endpoint, { endpoint, endpoint_key: key || this.findKey(endpoint) });
+    }
+    return [...resolved.values()];
+  }
+
+  private lookup(key: string): string | undefined {
+    const [category, name] = key.split('.');
+    return this.endpoints[category]?.[name];
+  }
+
+  private findKey(endpoint: string): string | undefined {
+    for (const [category, entries] of Object.entries(this.endpoints)) {
+      const name = Object.keys(entries).find(n => entries[n] === endpoint);
+      if (name) return `${category}.${name}`;
+    }
+    return undefined;
+  }
+}
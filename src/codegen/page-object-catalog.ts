@@ -0,0 +1,479 @@
+import * as ts from 'typescript';
+import * as fs from 'fs';
+import * as path from 'path';
+import { StepActionKind, StepBinding } from '../types';
+import { tokenize } from '../rag/embedders';
+import { TestDataResolver } from './test-data-resolver';
+
+export interface PageObjectParameter {
+  name: string;
+  type: string;
+  optional: boolean;
+}
+
+export interface PageObjectMember {
+  name: string;
+  kind: 'method' | 'locator';
+  parameters: PageObjectParameter[];
+  // Method return type as written by the compiler, e.g. "Promise<boolean>"
+  returns?: string;
+  doc?: string;
+  // Class that declares the member when it is inherited, e.g. "BasePage"
+  inherited_from?: string;
+  // Locator initializer from the constructor, e.g. "page.locator('a[href*=\"login\"]')"
+  expression?: string;
+  // CSS passed to page.locator(), when the initializer is one
+  selector?: string;
+}
+
+export interface PageObjectClass {
+  name: string;
+  // Variable name used in generated specs, e.g. "signInPage"
+  variable: string;
+  file: string;
+  // Path passed to super(page, url)
+  url?: string;
+  members: PageObjectMember[];
+}
+
+export interface PageObjectBindingResult {
+  bindings: StepBinding[];
+  warnings: string[];
+}
+
+const BASE_CLASS = 'BasePage';
+
+// The project's page objects (the '@pages' specs import), from src/ or a dist/ build
+export const DEFAULT_PAGES_DIR = path.join(__dirname, '../../src/pages');
+
+// Verbs, element roles and filler that say how a step acts, not what on;
+// dropped from both steps and member names before matching
+const GENERIC_WORDS = new Set([
+  'click', 'tap', 'press', 'select', 'open', 'navigate', 'go', 'goe', 'goto', 'visit', 'fill', 'enter', 'type',
+  'input', 'field', 'button', 'link', 'checkbox', 'verify', 'see', 'sees', 'view', 'display', 'displayed',
+  'visible', 'value', 'load', 'loaded', 'wait', 'for', 'get', 'has', 'into', 'from', 'that', 'this', 'it', 'his', 'her'
+]);
+
+// First word of a member name that fits each step action
+const ACTION_VERBS: Record<StepActionKind, string[]> = {
+  navigate: ['goto', 'navigate'],
+  click: ['click', 'navigate', 'open', 'view', 'select', 'toggle'],
+  fill: ['fill', 'enter', 'type', 'sign'],
+  check: ['toggle', 'check'],
+  assert: ['verify', 'is', 'has', 'get']
+};
+
+const MIN_SCORE = 0.6;
+
+let cachedCatalog: PageObjectCatalog | undefined;
+
+/**
+ * Words that name what a step or member acts on, without verbs and element roles
+ */
+export function significantTokens(text: string): string[] {
+  return tokenize(text).filter(token => !GENERIC_WORDS.has(token));
+}
+
+/**
+ * Public API of the page objects in src/pages, read with the TypeScript
+ * compiler so new BasePage subclasses are picked up without configuration.
+ * Binds scenario steps to the page-object member that performs them.
+ */
+export class PageObjectCatalog {
+  constructor(readonly classes: PageObjectClass[]) {}
+
+  /**
+   * Catalog of every concrete BasePage subclass in pagesDir, cached per
+   * process for the default directory
+   */
+  static load(pagesDir?: string): PageObjectCatalog {
+    if (!pagesDir && cachedCatalog) {
+      return cachedCatalog;
+    }
+
+    const dir = path.resolve(pagesDir || DEFAULT_PAGES_DIR);
+    const catalog = new PageObjectCatalog(PageObjectCatalog.discover(dir));
+    console.log(`Page objects: ${catalog.classes.map(cls => `${cls.name} (${cls.members.length} members)`).join(', ') || 'none found'}`);
+
+    if (!pagesDir) {
+      cachedCatalog = catalog;
+    }
+    return catalog;
+  }
+
+  getClass(name: string): PageObjectClass | undefined {
+    return this.classes.find(cls => cls.name === name);
+  }
+
+  /**
+   * Resolves "Class.member" to the class and member, if both exist
+   */
+  resolve(reference: string): { cls: PageObjectClass; member: PageObjectMember } | undefined {
+    const [className, memberName] = reference.replace(/\(\)$/, '').split('.');
+    const cls = this.getClass(className);
+    const member = cls?.members.find(m => m.name === memberName);
+    return cls && member ? { cls, member } : undefined;
+  }
+
+  /**
+   * Page object API for LLM prompts: one line per public method and locator
+   */
+  describe(): string {
+    return this.classes.map(cls => {
+      const members = cls.members.map(member => {
+        const signature = member.kind === 'method'
+          ? `${member.name}(${member.parameters.map(p => `${p.name}${p.optional ? '?' : ''}: ${p.type}`).join(', ')}): ${member.returns}`
+          : `${member.name}: Locator`;
+        return `  - ${cls.variable}.${signature}${member.doc ? ` // ${member.doc}` : ''}`;
+      });
+      return `${cls.name} (const ${cls.variable} = new ${cls.name}(page)${cls.url ? `, url ${cls.url}` : ''}):\n${members.join('\n')}`;
+    }).join('\n');
+  }
+
+  /**
+   * Sets page_object_member on every step a page object can perform and
+   * warns about the rest. Steps are matched against the current page first:
+   * the last page navigated to, or the page a click led to.
+   */
+  bind(bindings: StepBinding[]): PageObjectBindingResult {
+    const warnings: string[] = [];
+    let current: PageObjectClass | undefined;
+
+    const bound = bindings.map(binding => {
+      const proposed = binding.page_object_member ? this.resolve(binding.page_object_member) : undefined;
+      const match = proposed || this.match(binding, current);
+
+      if (!match) {
+        const { page_object_member, ...rest } = binding;
+        const fallback = binding.selector ? `falling back to raw selector ${binding.target}` : 'no knowledge base selector either';
+        warnings.push(`Step ${binding.step_index + 1} (${binding.action}) "${binding.step}" has no page-object equivalent; ${fallback}`);
+        return rest;
+      }
+
+      current = this.pageAfter(match.cls, match.member, binding.action) || current;
+      const { missing_reason, ...rest } = binding;
+      return { ...rest, page_object_member: `${match.cls.name}.${match.member.name}` };
+    });
+
+    return { bindings: bound, warnings };
+  }
+
+  /**
+   * Classes whose members the bindings (or plan targets) call, in catalog order
+   */
+  classesUsedBy(bindings: Array<{ page_object_member?: string }>): PageObjectClass[] {
+    const names = new Set(bindings.map(binding => binding.page_object_member?.split('.')[0]));
+    return this.classes.filter(cls => names.has(cls.name));
+  }
+
+  /**
+   * The page a text names, e.g. "lands on the dashboard" -> DashboardPage
+   */
+  pageNamedIn(text: string): PageObjectClass | undefined {
+    const tokens = significantTokens(text);
+    return this.classes.find(cls => {
+      const pageTokens = this.pageTokens(cls);
+      return pageTokens.length > 0 && pageTokens.every(token => tokens.includes(token));
+    });
+  }
+
+  /**
+   * The statement that performs a bound step through its page object;
+   * arguments the story gives no value for come from testData
+   */
+  renderCall(binding: StepBinding, testData: TestDataResolver): string | undefined {
+    const resolved = binding.page_object_member ? this.resolve(binding.page_object_member) : undefined;
+    if (!resolved) {
+      return undefined;
+    }
+
+    const { cls, member } = resolved;
+    const target = `${cls.variable}.${member.name}`;
+
+    if (member.kind === 'locator') {
+      switch (binding.action) {
+        case 'click': return `await ${target}.click();`;
+        case 'check': return `await ${target}.check();`;
+        case 'fill': return `await ${target}.fill(${this.argument(binding, member.name, testData)});`;
+        default: return `await expect(${target}).toBeVisible();`;
+      }
+    }
+
+    let dataUsed = false;
+    const args = member.parameters
+      .filter(param => !param.optional)
+      .map(param => {
+        if (param.type === 'string' && (binding.test_data !== undefined || binding.test_data_ref) && !dataUsed) {
+          dataUsed = true;
+          return binding.test_data !== undefined ? JSON.stringify(binding.test_data) : binding.test_data_ref!;
+        }
+        return testData.reference(param.name, binding.step);
+      });
+    const call = `${target}(${args.join(', ')})`;
+
+    if (binding.action === 'assert' && member.returns === 'Promise<boolean>') {
+      return `expect(await ${call}).toBe(true);`;
+    }
+    if (binding.action === 'assert' && member.returns !== 'Promise<void>') {
+      return `expect(await ${call}).toBeTruthy();`;
+    }
+    return `await ${call};`;
+  }
+
+  private argument(binding: StepBinding, name: string, testData: TestDataResolver): string {
+    if (binding.test_data !== undefined) {
+      return JSON.stringify(binding.test_data);
+    }
+    return binding.test_data_ref || testData.reference(name, binding.step);
+  }
+
+  private match(binding: StepBinding, current?: PageObjectClass): { cls: PageObjectClass; member: PageObjectMember } | undefined {
+    const stepTokens = significantTokens(binding.step);
+
+    if (binding.action === 'navigate') {
+      // A navigation step names the page it opens; otherwise it opens the site root
+      const cls = this.pageNamedIn(binding.step) || this.classes.find(c => c.url === '/');
+      const member = cls?.members.find(m => m.name === 'goto');
+      return cls && member ? { cls, member } : undefined;
+    }
+
+    if (stepTokens.length === 0) {
+      return undefined;
+    }
+
+    let best: { cls: PageObjectClass; member: PageObjectMember; score: number } | undefined;
+    for (const cls of this.classes) {
+      const pageTokens = this.pageTokens(cls);
+
+      for (const member of cls.members) {
+        if (!this.canPerform(member, binding.action)) continue;
+
+        const memberTokens = significantTokens(member.name);
+        const hits = memberTokens.filter(token => stepTokens.includes(token)).length;
+        const pageNamed = pageTokens.length > 0
+          && pageTokens.every(token => stepTokens.includes(token) && !memberTokens.includes(token));
+        if (hits === 0 && !(memberTokens.length === 0 && pageNamed)) continue;
+
+        const matched = stepTokens.filter(token => memberTokens.includes(token) || (pageNamed && pageTokens.includes(token)));
+        const verb = member.name.replace(/([a-z])([A-Z])/g, '$1 $2').split(' ')[0].toLowerCase();
+        const score = 0.6 * (memberTokens.length ? hits / memberTokens.length : 0)
+          + 0.4 * (matched.length / stepTokens.length)
+          + (cls === current || pageNamed ? 0.3 : 0)
+          + (member.kind === 'method' && ACTION_VERBS[binding.action].includes(verb) ? 0.2 : 0);
+
+        if (score >= MIN_SCORE && (!best || score > best.score)) {
+          best = { cls, member, score };
+        }
+      }
+    }
+    return best;
+  }
+
+  private canPerform(member: PageObjectMember, action: StepActionKind): boolean {
+    if (member.kind === 'locator') {
+      return true;
+    }
+    // Helpers that take a Locator or options are not page-object equivalents of a step
+    if (member.parameters.some(param => !param.optional && param.type !== 'string')) {
+      return false;
+    }
+    // Plain getters only answer assertions
+    return action === 'assert' || !/^(get|is|has)[A-Z]/.test(member.name);
+  }
+
+  /**
+   * The page a click or navigation member leads to, when its name names one
+   */
+  private pageAfter(cls: PageObjectClass, member: PageObjectMember, action: StepActionKind): PageObjectClass | undefined {
+    if (member.name === 'goto') {
+      return cls;
+    }
+    if (action !== 'click' && action !== 'navigate') {
+      return undefined;
+    }
+    const memberTokens = significantTokens(member.name);
+    return this.classes.find(other => {
+      const pageTokens = this.pageTokens(other);
+      return other !== cls && pageTokens.length > 0 && pageTokens.every(token => memberTokens.includes(token));
+    });
+  }
+
+  private pageTokens(cls: PageObjectClass): string[] {
+    return significantTokens(cls.name.replace(/Page$/, ''));
+  }
+
+
+  private static discover(dir: string): PageObjectClass[] {
+    if (!fs.existsSync(dir)) {
+      console.warn(`Page object directory not found: ${dir}`);
+      return [];
+    }
+
+    const files = fs.readdirSync(dir)
+      .filter(file => file.endsWith('.ts') && !file.endsWith('.d.ts'))
+      .map(file => path.join(dir, file));
+
+    const program = ts.createProgram(files, {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.CommonJS,
+      moduleResolution: ts.ModuleResolutionKind.Node10,
+      esModuleInterop: true,
+      strict: true,
+      skipLibCheck: true,
+      noEmit: true,
+      types: []
+    });
+    const checker = program.getTypeChecker();
+    const classes: PageObjectClass[] = [];
+
+    for (const file of files) {
+      const sourceFile = program.getSourceFile(file);
+      if (!sourceFile) continue;
+
+      ts.forEachChild(sourceFile, node => {
+        if (!ts.isClassDeclaration(node) || !node.name || !PageObjectCatalog.hasModifier(node, ts.SyntaxKind.ExportKeyword)) return;
+        if (PageObjectCatalog.hasModifier(node, ts.SyntaxKind.AbstractKeyword)) return;
+
+        const symbol = checker.getSymbolAtLocation(node.name);
+        if (!symbol) return;
+        const type = checker.getDeclaredTypeOfSymbol(symbol) as ts.InterfaceType;
+        if (!PageObjectCatalog.extendsBase(checker, type)) return;
+
+        const name = node.name.text;
+        classes.push({
+          name,
+          variable: name.charAt(0).toLowerCase() + name.slice(1),
+          file: path.relative(process.cwd(), file),
+          url: PageObjectCatalog.findUrl(checker, node),
+          members: PageObjectCatalog.collectMembers(checker, type, node)
+        });
+      });
+    }
+
+    return classes.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  private static collectMembers(checker: ts.TypeChecker, type: ts.Type, node: ts.ClassDeclaration): PageObjectMember[] {
+    const members: PageObjectMember[] = [];
+    const initializers = PageObjectCatalog.collectInitializers(node);
+
+    for (const property of checker.getPropertiesOfType(type)) {
+      const declaration = property.valueDeclaration || property.declarations?.[0];
+      if (!declaration || property.name.startsWith('#')) continue;
+      if (ts.getCombinedModifierFlags(declaration) & (ts.ModifierFlags.Private | ts.ModifierFlags.Protected)) continue;
+
+      const owner = declaration.parent;
+      const inheritedFrom = owner !== node && ts.isClassDeclaration(owner) && owner.name ? owner.name.text : undefined;
+      const doc = ts.displayPartsToString(property.getDocumentationComment(checker)).trim().split('\n')[0] || undefined;
+      const propertyType = checker.getTypeOfSymbolAtLocation(property, declaration);
+
+      if (ts.isMethodDeclaration(declaration)) {
+        const [signature] = propertyType.getCallSignatures();
+        if (!signature) continue;
+
+        members.push({
+          name: property.name,
+          kind: 'method',
+          parameters: signature.getParameters().map(param => {
+            const paramDeclaration = param.valueDeclaration as ts.ParameterDeclaration | undefined;
+            return {
+              name: param.name,
+              type: checker.typeToString(checker.getTypeOfSymbolAtLocation(param, paramDeclaration || declaration)),
+              optional: !!paramDeclaration && checker.isOptionalParameter(paramDeclaration)
+            };
+          }),
+          returns: checker.typeToString(signature.getReturnType()),
+          doc,
+          inherited_from: inheritedFrom
+        });
+      } else if (checker.typeToString(propertyType) === 'Locator') {
+        const initializer = initializers.get(property.name);
+        members.push({
+          name: property.name,
+          kind: 'locator',
+          parameters: [],
+          doc,
+          inherited_from: inheritedFrom,
+          expression: initializer?.getText(),
+          selector: initializer ? PageObjectCatalog.cssSelector(initializer) : undefined
+        });
+      }
+    }
+
+    return members;
+  }
+
+  /**
+   * `this.field = <expression>` assignments in the constructor, with
+   * `this.submitButton = this.signInButton` aliases followed
+   */
+  private static collectInitializers(node: ts.ClassDeclaration): Map<string, ts.Expression> {
+    const assignments = new Map<string, ts.Expression>();
+    const body = node.members.find(ts.isConstructorDeclaration)?.body;
+
+    for (const statement of body?.statements || []) {
+      if (!ts.isExpressionStatement(statement) || !ts.isBinaryExpression(statement.expression)) continue;
+      const { left, operatorToken, right } = statement.expression;
+      if (operatorToken.kind !== ts.SyntaxKind.EqualsToken) continue;
+      if (ts.isPropertyAccessExpression(left) && left.expression.kind === ts.SyntaxKind.ThisKeyword) {
+        assignments.set(left.name.text, right);
+      }
+    }
+
+    const resolve = (expression: ts.Expression, depth = 0): ts.Expression => {
+      if (depth < 5 && ts.isPropertyAccessExpression(expression) && expression.expression.kind === ts.SyntaxKind.ThisKeyword) {
+        const target = assignments.get(expression.name.text);
+        return target ? resolve(target, depth + 1) : expression;
+      }
+      return expression;
+    };
+
+    return new Map([...assignments].map(([name, expression]) => [name, resolve(expression)]));
+  }
+
+  private static cssSelector(expression: ts.Expression): string | undefined {
+    if (!ts.isCallExpression(expression) || !ts.isPropertyAccessExpression(expression.expression)) return undefined;
+    if (expression.expression.name.text !== 'locator') return undefined;
+    const [argument] = expression.arguments;
+    return argument && ts.isStringLiteralLike(argument) ? argument.text : undefined;
+  }
+
+  private static extendsBase(checker: ts.TypeChecker, type: ts.InterfaceType): boolean {
+    return (checker.getBaseTypes(type) || []).some(base =>
+      base.symbol?.name === BASE_CLASS || (base.isClassOrInterface() && PageObjectCatalog.extendsBase(checker, base))
+    );
+  }
+
+  /**
+   * The string literal URL passed to super() by the class or its nearest
+   * ancestor that passes one
+   */
+  private static findUrl(checker: ts.TypeChecker, node: ts.ClassDeclaration): string | undefined {
+    const constructor = node.members.find(ts.isConstructorDeclaration);
+    let url: string | undefined;
+
+    const visit = (child: ts.Node): void => {
+      if (url) return;
+      if (ts.isCallExpression(child) && child.expression.kind === ts.SyntaxKind.SuperKeyword) {
+        const literal = child.arguments.find(ts.isStringLiteralLike);
+        url = literal?.text;
+        return;
+      }
+      ts.forEachChild(child, visit);
+    };
+    if (constructor?.body) {
+      visit(constructor.body);
+    }
+    if (url || constructor) {
+      return url;
+    }
+
+    const heritage = node.heritageClauses?.[0]?.types[0];
+    const baseDeclaration = heritage ? checker.getTypeAtLocation(heritage.expression).symbol?.valueDeclaration : undefined;
+    return baseDeclaration && ts.isClassDeclaration(baseDeclaration) ? PageObjectCatalog.findUrl(checker, baseDeclaration) : undefined;
+  }
+
+  private static hasModifier(node: ts.ClassDeclaration, kind: ts.SyntaxKind): boolean {
+    return !!ts.getModifiers(node)?.some(modifier => modifier.kind === kind);
+  }
+}
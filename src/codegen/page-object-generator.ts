@@ -0,0 +1,386 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { AccessibilitySnapshot, SnapshotElement } from '../mcp/accessibility-snapshot';
+import { quote } from './quoting';
+import { DEFAULT_PAGES_DIR } from './page-object-catalog';
+
+export interface PageObjectGeneratorOptions {
+  className: string;
+  // Path passed to super(page, url), e.g. "/credit-report"
+  url: string;
+  // Where the snapshot came from, recorded in the generated file
+  source?: string;
+  // Upper bound on generated locators
+  maxLocators?: number;
+  // Keep header/footer elements that every page shares
+  includeSiteChrome?: boolean;
+}
+
+export type GeneratedLocatorGroup = 'form' | 'action' | 'content' | 'navigation';
+
+export interface GeneratedLocator {
+  field: string;
+  group: GeneratedLocatorGroup;
+  role: string;
+  name: string;
+  expression: string;
+}
+
+export interface GeneratedPageObject {
+  className: string;
+  fileName: string;
+  url: string;
+  locators: GeneratedLocator[];
+  methods: string[];
+  source: string;
+}
+
+interface GeneratedMethod {
+  name: string;
+  doc: string;
+  signature: string;
+  body: string[];
+}
+
+// Role -> locator group and field suffix
+const ROLE_FIELDS: Record<string, { group: GeneratedLocatorGroup; suffix: string }> = {
+  textbox: { group: 'form', suffix: 'Input' },
+  searchbox: { group: 'form', suffix: 'Input' },
+  spinbutton: { group: 'form', suffix: 'Input' },
+  combobox: { group: 'form', suffix: 'Select' },
+  checkbox: { group: 'form', suffix: 'Checkbox' },
+  radio: { group: 'form', suffix: 'Radio' },
+  switch: { group: 'form', suffix: 'Toggle' },
+  button: { group: 'action', suffix: 'Button' },
+  heading: { group: 'content', suffix: 'Heading' },
+  alert: { group: 'content', suffix: 'Message' },
+  status: { group: 'content', suffix: 'Message' },
+  link: { group: 'navigation', suffix: 'Link' },
+  tab: { group: 'navigation', suffix: 'Tab' },
+  menuitem: { group: 'navigation', suffix: 'MenuItem' }
+};
+
+const GROUP_ORDER: GeneratedLocatorGroup[] = ['form', 'action', 'content', 'navigation'];
+
+const GROUP_COMMENTS: Record<GeneratedLocatorGroup, [string, string]> = {
+  form: ['Form locators', 'Form elements'],
+  action: ['Action locators', 'Actions'],
+  content: ['Content locators', 'Content'],
+  navigation: ['Navigation locators', 'Navigation']
+};
+
+// Left out of field names: "I agree to the terms" -> iAgreeTermsCheckbox
+const FILLER_WORDS = new Set(['the', 'a', 'an', 'to', 'of', 'and', 'or', 'for', 'in', 'on', 'your', 'our', 'my']);
+
+// Landmarks shared by every page; their elements belong to the existing page objects
+const SITE_CHROME_ROLES = ['banner', 'contentinfo'];
+
+/**
+ * Writes a BasePage subclass for a page that has no page object yet, from
+ * an accessibility snapshot of it (Playwright ariaSnapshot or MCP
+ * browser_snapshot), and registers it in src/pages/index.ts.
+ */
+export class PageObjectGenerator {
+  private pagesDir: string;
+
+  constructor(pagesDir?: string) {
+    this.pagesDir = path.resolve(pagesDir || DEFAULT_PAGES_DIR);
+  }
+
+  /**
+   * "CreditReportPage" for "/credit-report", "HomePage" for "/"
+   */
+  static classNameFor(url: string): string {
+    const pathname = new URL(url, 'http://localhost').pathname;
+    const words = pathname.split(/[^a-zA-Z0-9]+/).filter(Boolean);
+    const base = words.length > 0 ? words.map(PageObjectGenerator.capitalize).join('') : 'Home';
+    return /^[0-9]/.test(base) ? `Page${base}` : `${base.replace(/Page$/, '')}Page`;
+  }
+
+  generate(snapshot: AccessibilitySnapshot, options: PageObjectGeneratorOptions): GeneratedPageObject {
+    if (!/^[A-Z][A-Za-z0-9]*$/.test(options.className)) {
+      throw new Error(`Invalid page object class name: ${options.className}`);
+    }
+
+    const locators = this.selectLocators(snapshot, options);
+    const methods = this.buildMethods(locators, options.url);
+
+    return {
+      className: options.className,
+      fileName: `${options.className}.ts`,
+      url: options.url,
+      locators,
+      methods: methods.map(method => method.name),
+      source: this.render(options, locators, methods)
+    };
+  }
+
+  /**
+   * Write the class to src/pages and export it from index.ts; refuses to
+   * replace an existing page object unless force is set
+   */
+  write(generated: GeneratedPageObject, force = false): { file: string; registered: boolean } {
+    const file = path.join(this.pagesDir, generated.fileName);
+    if (fs.existsSync(file) && !force) {
+      throw new Error(`${path.relative(process.cwd(), file)} already exists (use --force to overwrite)`);
+    }
+    fs.writeFileSync(file, generated.source, 'utf-8');
+
+    return { file, registered: this.register(generated.className) };
+  }
+
+  private register(className: string): boolean {
+    const indexPath = path.join(this.pagesDir, 'index.ts');
+    const exportLine = `export { ${className} } from './${className}';`;
+    const content = fs.existsSync(indexPath) ? fs.readFileSync(indexPath, 'utf-8') : '';
+
+    if (content.split('\n').some(line => line.trim() === exportLine)) {
+      return false;
+    }
+
+    fs.writeFileSync(indexPath, `${content.replace(/\s*$/, '')}\n${exportLine}\n`, 'utf-8');
+    return true;
+  }
+
+  private selectLocators(snapshot: AccessibilitySnapshot, options: PageObjectGeneratorOptions): GeneratedLocator[] {
+    const elements = snapshot.elements();
+    const seen = new Set<string>();
+    const fields = new Set<string>();
+    const candidates: GeneratedLocator[] = [];
+
+    for (const element of elements) {
+      const roleField = ROLE_FIELDS[element.role];
+      const name = element.name.trim();
+      if (!roleField || !name) continue;
+      if (element.role === 'heading' && (element.level || 1) > 2) continue;
+      if (!options.includeSiteChrome && this.inSiteChrome(element)) continue;
+
+      const key = `${element.role}:${name}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      candidates.push({
+        field: this.uniqueName(this.fieldName(name, roleField.suffix), fields),
+        group: roleField.group,
+        role: element.role,
+        name,
+        expression: this.locatorExpression(element, name, elements)
+      });
+    }
+
+    const limit = options.maxLocators ?? 30;
+    const kept = [...candidates]
+      .sort((a, b) => GROUP_ORDER.indexOf(a.group) - GROUP_ORDER.indexOf(b.group))
+      .slice(0, limit);
+    if (candidates.length > limit) {
+      console.warn(`Page object generator: kept ${limit} of ${candidates.length} elements (raise --max-locators to keep more)`);
+    }
+    return kept;
+  }
+
+  private buildMethods(locators: GeneratedLocator[], url: string): GeneratedMethod[] {
+    const names = new Set<string>(['verifyPageLoaded']);
+    const methods: GeneratedMethod[] = [];
+
+    for (const locator of locators) {
+      const base = PageObjectGenerator.capitalize(this.baseName(locator.field));
+      const label = locator.name.length > 60 ? `${locator.name.slice(0, 57)}...` : locator.name;
+      const param = this.parameterName(locator.field);
+
+      switch (locator.role) {
+        case 'textbox':
+        case 'searchbox':
+        case 'spinbutton':
+          methods.push({
+            name: this.uniqueName(`fill${base}`, names),
+            doc: `Fill ${label} field`,
+            signature: `(${param}: string)`,
+            body: [
+              `await this.waitForElement(this.${locator.field});`,
+              `await this.${locator.field}.clear();`,
+              `await this.${locator.field}.fill(${param});`
+            ]
+          });
+          break;
+        case 'combobox':
+          methods.push({
+            name: this.uniqueName(`select${base}`, names),
+            doc: `Select an option in ${label}`,
+            signature: `(option: string)`,
+            body: [`await this.${locator.field}.selectOption(option);`]
+          });
+          break;
+        case 'checkbox':
+        case 'switch':
+          methods.push({
+            name: this.uniqueName(`toggle${base}`, names),
+            doc: `Click ${label} checkbox`,
+            signature: '()',
+            body: [`await this.${locator.field}.check();`]
+          });
+          break;
+        case 'radio':
+          methods.push({
+            name: this.uniqueName(`choose${base}`, names),
+            doc: `Choose ${label}`,
+            signature: '()',
+            body: [`await this.${locator.field}.check();`]
+          });
+          break;
+        case 'button':
+        case 'tab':
+        case 'menuitem':
+          methods.push({
+            name: this.uniqueName(`click${base}`, names),
+            doc: `Click ${label}`,
+            signature: '()',
+            body: [`await this.${locator.field}.click();`]
+          });
+          break;
+        case 'link':
+          methods.push({
+            name: this.uniqueName(`navigateTo${base}`, names),
+            doc: `Navigate to ${label}`,
+            signature: '()',
+            body: [`await this.${locator.field}.click();`]
+          });
+          break;
+      }
+    }
+
+    // Page-level headings first, then the form and the first action
+    const anchors = [
+      ...locators.filter(l => l.role === 'heading'),
+      ...locators.filter(l => l.group === 'form'),
+      ...locators.filter(l => l.group === 'action')
+    ].slice(0, 3);
+
+    methods.push({
+      name: 'verifyPageLoaded',
+      doc: 'Verify page is loaded',
+      signature: '()',
+      body: [
+        ...(url !== '/' ? [`await this.waitForUrl(${quote(url)});`] : []),
+        ...(anchors.length > 0
+          ? anchors.map(anchor => `await this.waitForElement(this.${anchor.field});`)
+          : ['await this.waitForPageLoad();'])
+      ]
+    });
+
+    return methods;
+  }
+
+  private render(options: PageObjectGeneratorOptions, locators: GeneratedLocator[], methods: GeneratedMethod[]): string {
+    const groups = GROUP_ORDER.filter(group => locators.some(locator => locator.group === group));
+
+    const fields = groups.map(group => [
+      `  // ${GROUP_COMMENTS[group][0]}`,
+      ...locators.filter(l => l.group === group).map(l => `  readonly ${l.field}: Locator;`)
+    ].join('\n')).join('\n\n');
+
+    const assignments = groups.map(group => [
+      `    // ${GROUP_COMMENTS[group][1]}`,
+      ...locators.filter(l => l.group === group).map(l => `    this.${l.field} = page.${l.expression};`)
+    ].join('\n')).join('\n\n');
+
+    const methodBlocks = methods.map(method => `  /**
+   * ${method.doc}
+   */
+  async ${method.name}${method.signature}: Promise<void> {
+${method.body.map(line => `    ${line}`).join('\n')}
+  }`).join('\n\n');
+
+    return `import { Page, Locator } from '@playwright/test';
+import { BasePage } from './BasePage';
+
+// Generated by npm run pages:generate from ${options.source || options.url}; review the locators before relying on them
+export class ${options.className} extends BasePage {
+${fields}
+
+  constructor(page: Page) {
+    super(page, ${quote(options.url)});
+${assignments ? `\n${assignments}\n` : ''}  }
+
+${methodBlocks}
+}
+`;
+  }
+
+  /**
+   * getByRole with exact matching when another element's name contains this
+   * one, and .first() when several elements share it
+   */
+  private locatorExpression(element: SnapshotElement, name: string, elements: SnapshotElement[]): string {
+    const sameRole = elements.filter(e => e.role === element.role && e !== element);
+    const duplicates = sameRole.filter(e => e.name.trim() === name).length;
+    const partial = sameRole.filter(e => e.name.toLowerCase().includes(name.toLowerCase())).length;
+    const exact = partial > duplicates ? ', exact: true' : '';
+
+    return `getByRole('${element.role}', { name: ${quote(name)}${exact} })${duplicates > 0 ? '.first()' : ''}`;
+  }
+
+  private inSiteChrome(element: SnapshotElement): boolean {
+    for (let parent = element.parent; parent; parent = parent.parent) {
+      if (SITE_CHROME_ROLES.includes(parent.role)) return true;
+    }
+    return false;
+  }
+
+  private fieldName(name: string, suffix: string): string {
+    const allWords = name
+      .replace(/([a-z])([A-Z])/g, '$1 $2')
+      .replace(/['’]/g, '')
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(Boolean);
+    const meaningful = allWords.filter(word => !FILLER_WORDS.has(word));
+    const words = (meaningful.length > 0 ? meaningful : allWords).slice(0, 4);
+    // "Submit button" + Button would read submitButtonButton
+    if (words.length > 1 && words[words.length - 1] === suffix.toLowerCase()) {
+      words.pop();
+    }
+
+    const camel = words.map((word, i) => (i === 0 ? word : PageObjectGenerator.capitalize(word))).join('');
+    const base = /^[a-z]/.test(camel) ? camel : `element${PageObjectGenerator.capitalize(camel)}`;
+    return `${base}${suffix}`;
+  }
+
+  /**
+   * Field name without its role suffix: emailInput -> email
+   */
+  private baseName(field: string): string {
+    const suffixes = [...new Set(Object.values(ROLE_FIELDS).map(role => role.suffix))];
+    const suffix = suffixes.find(s => new RegExp(`${s}\\d*$`).test(field));
+    return suffix ? field.replace(new RegExp(`${suffix}(\\d*)$`), '$1') : field;
+  }
+
+  /**
+   * Parameter for a fill method: the field's base name, unless that is a
+   * word a class body cannot use as a name (textbox "Default" -> defaultValue)
+   */
+  private parameterName(field: string): string {
+    const name = this.baseName(field);
+    if (!name) {
+      return 'value';
+    }
+    const token = ts.identifierToKeywordKind(ts.factory.createIdentifier(name));
+    const reserved = token !== undefined
+      && ((token >= ts.SyntaxKind.FirstReservedWord && token <= ts.SyntaxKind.LastReservedWord)
+        || (token >= ts.SyntaxKind.FirstFutureReservedWord && token <= ts.SyntaxKind.LastFutureReservedWord));
+    return reserved ? `${name}Value` : name;
+  }
+
+  private uniqueName(name: string, taken: Set<string>): string {
+    let candidate = name;
+    for (let suffix = 2; taken.has(candidate); suffix++) {
+      candidate = `${name}${suffix}`;
+    }
+    taken.add(candidate);
+    return candidate;
+  }
+
+  private static capitalize(word: string): string {
+    return word.charAt(0).toUpperCase() + word.slice(1);
+  }
+}
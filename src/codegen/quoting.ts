@@ -0,0 +1,17 @@
+/**
+ * Single-quoted TypeScript string literal
+ */
+export function quote(text: string): string {
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\r?\n/g, '\\n')}'`;
+}
+
+/**
+ * Text a scenario step puts in quotes, e.g. jane@example.com in
+ * 'Type "jane@example.com" into the email field'. Single quotes only count
+ * at word boundaries so "user's" is not a quote.
+ */
+export function quotedText(step: string, minLength = 1): string | undefined {
+  const length = `{${minLength},}`;
+  const match = step.match(new RegExp(`"([^"]${length})"|“([^”]${length})”|(?:^|\\s)'([^']${length})'(?=$|[\\s.,;:!?])`));
+  return match ? match[1] || match[2] || match[3] : undefined;
+}
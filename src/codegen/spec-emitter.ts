@@ -0,0 +1,267 @@
+import * as ts from 'typescript';
+
+const f = ts.factory;
+
+// Names a spec may use, by the module that exports them
+const DEFAULT_MODULES: Record<string, string[]> = {
+  '@playwright/test': ['test', 'expect', 'devices'],
+  '@pages': [],
+  '@test-data': ['testData'],
+  '@mocks': ['ApiMocks'],
+  '@utils/visual-helpers': ['VisualTestHelper']
+};
+
+// The printer drops blank lines, so a marker comment stands in for them until formatting
+const BLANK_LINE = '@@blank-line@@';
+
+const FORMAT_OPTIONS: ts.FormatCodeSettings = {
+  ...ts.getDefaultFormatCodeSettings('\n'),
+  indentSize: 2,
+  tabSize: 2,
+  convertTabsToSpaces: true
+};
+
+/**
+ * Statements that belong together in a test body, e.g. one scenario step
+ */
+export interface SpecBlock {
+  // Line comments above the block, without the leading "//"
+  comments: string[];
+  // TypeScript statements as source; may be empty for a comment-only block
+  code: string[];
+}
+
+export interface SpecTest {
+  title: string;
+  blocks: SpecBlock[];
+}
+
+export interface SpecFile {
+  // test.describe title
+  title: string;
+  // Line comments at the top of the describe block
+  comments?: string[];
+  // Playwright device descriptor for a file-level test.use, e.g. "iPhone 13"
+  device?: string;
+  tests: SpecTest[];
+}
+
+/**
+ * Writes spec files with the TypeScript compiler's factory and printer, so
+ * titles are escaped, imports match what the spec uses and every code path
+ * gets the same layout
+ */
+export class SpecEmitter {
+  private modules: Record<string, string[]>;
+  private printer = ts.createPrinter({ newLine: ts.NewLineKind.LineFeed });
+
+  /**
+   * @param pageClasses page object classes the specs may import from '@pages'
+   */
+  constructor(pageClasses: string[] = []) {
+    this.modules = { ...DEFAULT_MODULES, '@pages': pageClasses };
+  }
+
+  emit(spec: SpecFile): string {
+    const used = new Set<string>();
+    const tests = spec.tests.map(test => this.testCall(test, used));
+    if (spec.device) {
+      used.add('devices');
+    }
+
+    tests.forEach((statement, i) => {
+      if (i > 0) this.comment(statement, [], true);
+    });
+    this.comment(tests[0], spec.comments || []);
+
+    const describe = f.createExpressionStatement(f.createCallExpression(
+      f.createPropertyAccessExpression(f.createIdentifier('test'), 'describe'),
+      undefined,
+      [f.createStringLiteral(spec.title, true), f.createArrowFunction(undefined, undefined, [], undefined, undefined, f.createBlock(tests, true))]
+    ));
+
+    // One blank line after the imports and after a file-level test.use
+    const body = [...(spec.device ? [this.testUse(spec.device)] : []), describe]
+      .map(statement => this.comment(statement, [], true));
+    const file = f.createSourceFile(
+      // Device descriptors set defaultBrowserType, a worker option Playwright only accepts at file level
+      [...this.imports(used), ...body],
+      f.createToken(ts.SyntaxKind.EndOfFileToken),
+      ts.NodeFlags.None
+    );
+    return this.format(this.printer.printFile(file));
+  }
+
+  /**
+   * Parse statements written as source (page-object calls, LLM code) into
+   * nodes the printer can place anywhere. Throws when the code does not parse.
+   */
+  static parseStatements(code: string): { statements: ts.Statement[]; identifiers: string[] } {
+    const syntaxError = ts.transpileModule(code, { reportDiagnostics: true, compilerOptions: { target: ts.ScriptTarget.ES2022, module: ts.ModuleKind.ESNext } })
+      .diagnostics?.find(diagnostic => diagnostic.category === ts.DiagnosticCategory.Error);
+    if (syntaxError) {
+      throw new Error(`Code does not parse: ${ts.flattenDiagnosticMessageText(syntaxError.messageText, '\n')}`);
+    }
+
+    const source = ts.createSourceFile('statement.ts', code, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+    const identifiers: string[] = [];
+    const collect = (node: ts.Node): void => {
+      if (ts.isIdentifier(node) && !SpecEmitter.isMemberName(node)) {
+        identifiers.push(node.text);
+      }
+      ts.forEachChild(node, collect);
+    };
+    collect(source);
+
+    const statements = source.statements.map(statement => {
+      const copy = synthesize(statement, source);
+      for (const range of ts.getLeadingCommentRanges(source.text, statement.pos) || []) {
+        addComment(copy, source.text.slice(range.pos, range.end), range.kind, 'leading');
+      }
+      for (const range of ts.getTrailingCommentRanges(source.text, statement.end) || []) {
+        addComment(copy, source.text.slice(range.pos, range.end), range.kind, 'trailing');
+      }
+      return copy;
+    });
+    return { statements, identifiers };
+  }
+
+  private testCall(test: SpecTest, used: Set<string>): ts.Statement {
+    used.add('test');
+    const statements = test.blocks.flatMap((block, i) => this.block(block, used, i > 0));
+    const page = f.createObjectBindingPattern([f.createBindingElement(undefined, undefined, 'page')]);
+
+    return f.createExpressionStatement(f.createCallExpression(f.createIdentifier('test'), undefined, [
+      f.createStringLiteral(test.title, true),
+      f.createArrowFunction(
+        [f.createModifier(ts.SyntaxKind.AsyncKeyword)],
+        undefined,
+        [f.createParameterDeclaration(undefined, undefined, page)],
+        undefined,
+        undefined,
+        f.createBlock(statements, true)
+      )
+    ]));
+  }
+
+  private block(block: SpecBlock, used: Set<string>, blankLine: boolean): ts.Statement[] {
+    const statements = block.code.flatMap(code => {
+      const parsed = SpecEmitter.parseStatements(code);
+      parsed.identifiers.forEach(name => used.add(name));
+      return parsed.statements;
+    });
+
+    // A comment-only block (TODO, MISSING BINDING) still needs a node to hang on
+    if (statements.length === 0) {
+      statements.push(f.createNotEmittedStatement(f.createEmptyStatement()));
+    }
+    this.comment(statements[0], block.comments, blankLine);
+    return statements;
+  }
+
+  private testUse(device: string): ts.Statement {
+    return f.createExpressionStatement(f.createCallExpression(
+      f.createPropertyAccessExpression(f.createIdentifier('test'), 'use'),
+      undefined,
+      [f.createObjectLiteralExpression([
+        f.createSpreadAssignment(f.createElementAccessExpression(f.createIdentifier('devices'), f.createStringLiteral(device, true)))
+      ])]
+    ));
+  }
+
+  private imports(used: Set<string>): ts.ImportDeclaration[] {
+    return Object.entries(this.modules)
+      .map(([module, names]) => [module, names.filter(name => used.has(name))] as const)
+      .filter(([, names]) => names.length > 0)
+      .map(([module, names]) => f.createImportDeclaration(
+        undefined,
+        f.createImportClause(false, undefined, f.createNamedImports(
+          names.map(name => f.createImportSpecifier(false, undefined, f.createIdentifier(name)))
+        )),
+        f.createStringLiteral(module, true)
+      ));
+  }
+
+  /**
+   * Put line comments (and optionally a blank line) above a node, before
+   * any comments it already has
+   */
+  private comment<T extends ts.Node>(node: T, comments: string[], blankLine = false): T {
+    const added: ts.SynthesizedComment[] = [...(blankLine ? [BLANK_LINE] : []), ...comments].map(text => ({
+      kind: ts.SyntaxKind.SingleLineCommentTrivia,
+      text: ` ${text.replace(/\s*\r?\n\s*/g, ' ')}`,
+      hasTrailingNewLine: true,
+      pos: -1,
+      end: -1
+    }));
+    return ts.setSyntheticLeadingComments(node, [...added, ...(ts.getSyntheticLeadingComments(node) || [])]);
+  }
+
+  /**
+   * Re-indent with the compiler's formatter (two spaces), which leaves
+   * string and template literal contents alone, then turn the markers into
+   * blank lines
+   */
+  private format(printed: string): string {
+    const fileName = 'spec.ts';
+    const service = ts.createLanguageService({
+      getCompilationSettings: () => ({}),
+      getScriptFileNames: () => [fileName],
+      getScriptVersion: () => '0',
+      getScriptSnapshot: name => name === fileName ? ts.ScriptSnapshot.fromString(printed) : undefined,
+      getCurrentDirectory: () => '',
+      getDefaultLibFileName: () => 'lib.d.ts',
+      fileExists: name => name === fileName,
+      readFile: name => name === fileName ? printed : undefined
+    });
+    const edits = service.getFormattingEditsForDocument(fileName, FORMAT_OPTIONS);
+    service.dispose();
+
+    const formatted = edits
+      .sort((a, b) => b.span.start - a.span.start)
+      .reduce((text, edit) => text.slice(0, edit.span.start) + edit.newText + text.slice(edit.span.start + edit.span.length), printed);
+    return formatted.replace(new RegExp(`^[ \\t]*// ${BLANK_LINE}$`, 'gm'), '');
+  }
+
+  private static isMemberName(node: ts.Identifier): boolean {
+    const parent = node.parent;
+    return (ts.isPropertyAccessExpression(parent) && parent.name === node)
+      || (ts.isPropertyAssignment(parent) && parent.name === node)
+      || (ts.isBindingElement(parent) && parent.propertyName === node);
+  }
+}
+
+/**
+ * Copy of a parsed node with no source positions, so the printer writes it
+ * from the node's own text instead of the source file it came from
+ */
+function synthesize<T extends ts.Node>(node: T, source: ts.SourceFile): T {
+  const visit = (current: ts.Node): ts.Node => {
+    const copy = copyLeaf(current, source) || ts.visitEachChild(current, visit, undefined);
+    return ts.setTextRange(copy, { pos: -1, end: -1 });
+  };
+  return visit(node) as T;
+}
+
+function copyLeaf(node: ts.Node, source: ts.SourceFile): ts.Node | undefined {
+  if (ts.isIdentifier(node)) return f.createIdentifier(node.text);
+  if (ts.isPrivateIdentifier(node)) return f.createPrivateIdentifier(node.text);
+  if (ts.isStringLiteral(node)) return f.createStringLiteral(node.text, source.text[node.getStart(source)] === "'");
+  if (ts.isNumericLiteral(node)) return f.createNumericLiteral(node.text);
+  if (ts.isBigIntLiteral(node)) return f.createBigIntLiteral(node.text);
+  if (ts.isRegularExpressionLiteral(node)) return f.createRegularExpressionLiteral(node.text);
+  if (ts.isNoSubstitutionTemplateLiteral(node)) return f.createNoSubstitutionTemplateLiteral(node.text, node.rawText);
+  if (ts.isTemplateHead(node)) return f.createTemplateHead(node.text, node.rawText);
+  if (ts.isTemplateMiddle(node)) return f.createTemplateMiddle(node.text, node.rawText);
+  if (ts.isTemplateTail(node)) return f.createTemplateTail(node.text, node.rawText);
+  return undefined;
+}
+
+function addComment(node: ts.Node, text: string, kind: ts.CommentKind, position: 'leading' | 'trailing'): void {
+  const body = kind === ts.SyntaxKind.SingleLineCommentTrivia ? text.replace(/^\/\//, '') : text.replace(/^\/\*|\*\/$/g, '');
+  if (position === 'leading') {
+    ts.addSyntheticLeadingComment(node, kind, body, true);
+  } else {
+    ts.addSyntheticTrailingComment(node, kind, body, false);
+  }
+}
@@ -0,0 +1,172 @@
+import { StepBinding, TestScenario } from '../types';
+import { SyntheticData, describeSyntheticGenerators } from '../test-data/synthetic';
+import { TestDataFixtures, createTestData } from '../test-data/fixtures';
+
+export const TEST_DATA_IMPORT = `import { testData } from '@test-data';`;
+
+// "synthetic.malformedEmail" in a step (or as its test data) names a generator
+const SYNTHETIC_REFERENCE = /\bsynthetic\.(\w+)\b/;
+
+type DataField = 'email' | 'password' | 'name' | 'phone' | 'zip' | 'search' | 'text';
+
+// Checked in order: the first pattern found in the field hint names the field
+const FIELD_PATTERNS: Array<[DataField, RegExp]> = [
+  ['email', /e-?mail|username|user ?name|login id/i],
+  ['password', /password|passcode|pwd/i],
+  ['phone', /phone|mobile number/i],
+  ['zip', /zip|postal/i],
+  ['search', /search|query/i],
+  ['name', /\bname\b|first ?name|last ?name|fullname/i]
+];
+
+const POSITIVE: Record<DataField, string> = {
+  email: 'testData.users.valid.email',
+  password: 'testData.users.valid.password',
+  name: 'testData.valid.name',
+  phone: 'testData.valid.phone',
+  zip: 'testData.valid.zipCode',
+  search: 'testData.valid.searchTerm',
+  text: 'testData.valid.text'
+};
+
+const NEGATIVE: Record<DataField, string> = {
+  email: 'testData.invalid.email',
+  password: 'testData.invalid.password',
+  name: 'testData.invalid.whitespace',
+  phone: 'testData.invalid.phone',
+  zip: 'testData.invalid.zipCode',
+  search: 'testData.invalid.whitespace',
+  text: 'testData.invalid.empty'
+};
+
+const EDGE: Record<DataField, string> = {
+  email: 'testData.boundary.longEmail',
+  password: 'testData.boundary.longPassword',
+  name: 'testData.boundary.unicode',
+  phone: 'testData.boundary.specialCharacters',
+  zip: 'testData.boundary.singleCharacter',
+  search: 'testData.boundary.longText',
+  text: 'testData.boundary.longText'
+};
+
+// Step wording that picks a more specific fixture than the scenario type's default
+const STEP_OVERRIDES: Array<{ pattern: RegExp; fields?: DataField[]; reference: (field: DataField) => string }> = [
+  // Only the named field is wrong; the other one stays valid
+  { pattern: /\b(wrong|incorrect|invalid) password\b/i, fields: ['email'], reference: () => 'testData.users.valid.email' },
+  { pattern: /\b(wrong|incorrect|invalid) (e-?mail|username)\b/i, fields: ['password'], reference: () => 'testData.users.valid.password' },
+  { pattern: /\blocked\b/i, fields: ['email', 'password'], reference: field => `testData.users.locked.${field}` },
+  { pattern: /\b(unregistered|non-?existent|unknown|no such)\b/i, fields: ['email', 'password'], reference: field => `testData.users.unregistered.${field}` },
+  // Before the generic "without" so it wins for email fields
+  { pattern: /\bwithout (a |the )?domain\b/i, fields: ['email'], reference: () => 'testData.invalid.emailWithoutDomain' },
+  { pattern: /\b(empty|blank|without|leaves?|missing)\b/i, reference: () => 'testData.invalid.empty' },
+  { pattern: /\b(whitespace|spaces)\b/i, reference: () => 'testData.invalid.whitespace' },
+  { pattern: /\b(unicode|international|accent\w*|non-?latin|emoji)\b/i, reference: () => 'testData.boundary.unicode' },
+  { pattern: /\b(script|html|xss)\b/i, reference: () => 'testData.boundary.htmlInjection' },
+  { pattern: /\bsql\b/i, reference: () => 'testData.boundary.sqlInjection' },
+  { pattern: /\bspecial characters?\b/i, reference: () => 'testData.boundary.specialCharacters' },
+  { pattern: /\b(single character|one character|minimum length)\b/i, reference: () => 'testData.boundary.singleCharacter' },
+  { pattern: /\b(long|maximum length|max length|too long)\b/i, reference: field => EDGE[field] }
+];
+
+/**
+ * Picks the test data fixture (see src/test-data) a generated step should
+ * type, from the field it fills and the scenario type: valid data for
+ * positive flows, invalid data for negative ones, boundary data for edges.
+ */
+export class TestDataResolver {
+  constructor(private scenarioType: TestScenario['type']) {}
+
+  /**
+   * testData reference for a field, e.g. "testData.invalid.email"
+   */
+  reference(fieldHint: string, step: string): string {
+    // A generator the step names wins over everything else
+    const synthetic = TestDataResolver.syntheticReference(step);
+    if (synthetic) {
+      return synthetic;
+    }
+
+    const field = this.detectField(fieldHint) || this.detectField(step) || 'text';
+
+    // Positive flows always get valid data, whatever the step says
+    const override = STEP_OVERRIDES.find(o => o.pattern.test(step) && (!o.fields || o.fields.includes(field)));
+    if (override && (this.scenarioType === 'negative' || this.scenarioType === 'edge')) {
+      return override.reference(field);
+    }
+
+    switch (this.scenarioType) {
+      case 'negative': return NEGATIVE[field];
+      case 'edge': return EDGE[field];
+      default: return POSITIVE[field];
+    }
+  }
+
+  /**
+   * Sets test_data_ref on fill steps that have no literal value in the story
+   */
+  bind(bindings: StepBinding[]): StepBinding[] {
+    return bindings.map(binding => {
+      if (binding.action !== 'fill') {
+        return binding;
+      }
+      // A quoted "synthetic.<name>" is a generator reference, not text to type
+      const synthetic = binding.test_data !== undefined ? TestDataResolver.syntheticReference(binding.test_data) : undefined;
+      if (synthetic) {
+        const { test_data, ...rest } = binding;
+        return { ...rest, test_data_ref: synthetic };
+      }
+      if (binding.test_data !== undefined) {
+        return binding;
+      }
+      const hint = [binding.target, binding.page_object_member].filter(Boolean).join(' ');
+      return { ...binding, test_data_ref: this.reference(hint, binding.step) };
+    });
+  }
+
+  /**
+   * Prompt lines: which fixtures this scenario type should use
+   */
+  describe(): string {
+    const defaults = this.scenarioType === 'negative' ? NEGATIVE : this.scenarioType === 'edge' ? EDGE : POSITIVE;
+    return [
+      `${TEST_DATA_IMPORT}`,
+      `Defaults for a ${this.scenarioType} scenario: ${Object.entries(defaults).map(([field, ref]) => `${field} -> ${ref}`).join(', ')}`,
+      'Accounts: testData.users.valid, testData.users.locked, testData.users.unregistered ({ email, password })',
+      'Invalid: testData.invalid.email, .emailWithoutDomain, .password, .phone, .zipCode, .empty, .whitespace',
+      'Boundary: testData.boundary.longEmail, .longPassword, .longText, .singleCharacter, .unicode, .specialCharacters, .htmlInjection, .sqlInjection',
+      'Seeded generators, called as testData.synthetic.<name>() when a step names synthetic.<name>:',
+      describeSyntheticGenerators()
+    ].join('\n');
+  }
+
+  /**
+   * "testData.synthetic.<name>()" for a known generator named in the text
+   */
+  static syntheticReference(text: string): string | undefined {
+    const name = text.match(SYNTHETIC_REFERENCE)?.[1];
+    return name && SyntheticData.isGenerator(name) ? `testData.synthetic.${name}()` : undefined;
+  }
+
+  /**
+   * The value a reference stands for, for typing into a live page (e.g.
+   * while the MCP client walks a scenario); throws for unknown references
+   * and for accounts with no secrets configured
+   */
+  static value(reference: string, data: TestDataFixtures = createTestData()): string {
+    const synthetic = reference.match(/^testData\.synthetic\.(\w+)\(\)$/)?.[1];
+    if (synthetic && SyntheticData.isGenerator(synthetic)) {
+      return data.synthetic.generate(synthetic);
+    }
+
+    const value = reference.split('.').slice(1)
+      .reduce<unknown>((current, key) => (current as Record<string, unknown> | undefined)?.[key], data);
+    if (typeof value !== 'string') {
+      throw new Error(`Unknown test data reference: ${reference}`);
+    }
+    return value;
+  }
+
+  private detectField(text: string): DataField | undefined {
+    return FIELD_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0];
+  }
+}
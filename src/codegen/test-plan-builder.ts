@@ -0,0 +1,153 @@
+import { NetworkMockPlan, PlanData, PlanStep, PlanTarget, StepBinding, TestPlan, ValidatedScenario } from '../types';
+import { PageObjectCatalog } from './page-object-catalog';
+import { TestDataResolver } from './test-data-resolver';
+import { quotedText } from './quoting';
+
+const SELECT_WORDS = /\b(selects?|chooses?|picks?)\b/i;
+const URL_WORDS = /\b(redirected|taken|sent|returned|returns|lands?|navigated|url)\b/i;
+const WAIT_WORDS = /\b(wait|waits|load|loads)\b/i;
+// "/dashboard" or "/credit-report/details" in a step
+const PATH = /(?:^|\s)(\/[\w\-./]*)/;
+
+// Shown by most sites for a rejected form or request
+const ERROR_MESSAGE_SELECTOR = '[role="alert"], .error-message, .alert-error';
+
+/**
+ * Turns a bound scenario (step bindings with page objects and test data
+ * resolved) into a test plan. Steps the plan cannot express become "llm"
+ * steps; everything else compiles without the LLM.
+ */
+export class TestPlanBuilder {
+  constructor(private pageObjects: PageObjectCatalog) {}
+
+  /**
+   * Path a step names, e.g. "/dashboard" in "Open /dashboard"
+   */
+  static pathIn(step: string): string | undefined {
+    return step.match(PATH)?.[1];
+  }
+
+  build(scenario: ValidatedScenario, networkMocks: NetworkMockPlan[] = []): TestPlan {
+    const testData = new TestDataResolver(scenario.type);
+
+    return {
+      title: scenario.title,
+      type: scenario.type,
+      device: scenario.device,
+      description: scenario.description,
+      expected_outcome: scenario.expected_outcome,
+      setup: networkMocks.filter(mock => mock.at_step === undefined).map(mock => ({ kind: 'mockRoute' as const, ...mock })),
+      steps: scenario.step_bindings.map(binding => {
+        const mocks = networkMocks.filter(mock => mock.at_step === binding.step_index);
+        return mocks.length > 0
+          ? { step_index: binding.step_index, step: binding.step, kind: 'mockRoute', mocks: mocks.map(mock => ({ kind: 'mockRoute' as const, ...mock })) }
+          : this.planStep(binding, testData);
+      }),
+      outcome: this.planOutcome(scenario)
+    };
+  }
+
+  private planStep(binding: StepBinding, testData: TestDataResolver): PlanStep {
+    const base = { step_index: binding.step_index, step: binding.step };
+    const target = this.target(binding);
+
+    if (binding.action === 'navigate') {
+      const path = TestPlanBuilder.pathIn(binding.step);
+      return binding.page_object_member && !path
+        ? { ...base, kind: 'navigate', target }
+        : { ...base, kind: 'navigate', url: path || '/' };
+    }
+
+    if (binding.missing_reason) {
+      return { ...base, kind: 'unbound', action: binding.action, reason: binding.missing_reason };
+    }
+
+    if (binding.action === 'assert') {
+      return this.planAssertion(binding, target);
+    }
+
+    if (!target.page_object_member && !target.selector) {
+      return { ...base, kind: 'llm', action: binding.action, reason: `No element to ${binding.action}` };
+    }
+
+    switch (binding.action) {
+      case 'fill':
+        return { ...base, kind: 'fill', target, data: this.data(binding, testData) };
+      case 'check':
+        return { ...base, kind: 'check', target };
+      default: {
+        // "Selects "Texas" from the state dropdown" sets a <select> rather than clicking
+        const option = quotedText(binding.step);
+        return SELECT_WORDS.test(binding.step) && option !== undefined && !target.page_object_member
+          ? { ...base, kind: 'select', target, data: { literal: option } }
+          : { ...base, kind: 'click', target };
+      }
+    }
+  }
+
+  private planAssertion(binding: StepBinding, target: PlanTarget): PlanStep {
+    const base = { step_index: binding.step_index, step: binding.step };
+
+    if (target.page_object_member) {
+      return { ...base, kind: 'assertVisible', target };
+    }
+
+    const text = quotedText(binding.step);
+    if (text !== undefined) {
+      return { ...base, kind: 'assertText', target: { text }, text };
+    }
+
+    const url = this.expectedUrl(binding.step);
+    if (url) {
+      return { ...base, kind: 'assertUrl', url };
+    }
+
+    if (WAIT_WORDS.test(binding.step)) {
+      return { ...base, kind: 'waitForLoad' };
+    }
+
+    if (target.selector) {
+      return { ...base, kind: 'assertVisible', target };
+    }
+
+    return { ...base, kind: 'llm', action: 'assert', reason: 'No element, text or URL to check' };
+  }
+
+  private planOutcome(scenario: ValidatedScenario): PlanStep {
+    const base = { step_index: scenario.steps.length, step: scenario.expected_outcome };
+
+    if (scenario.type === 'negative') {
+      return { ...base, kind: 'assertVisible', target: { selector: ERROR_MESSAGE_SELECTOR } };
+    }
+
+    const url = this.expectedUrl(scenario.expected_outcome);
+    if (url) {
+      return { ...base, kind: 'assertUrl', url };
+    }
+
+    return { ...base, kind: 'llm', action: 'assert', reason: 'The expected outcome names no element, text or URL' };
+  }
+
+  /**
+   * Path a step says the user ends up on: written out, or the URL of the page object it names
+   */
+  private expectedUrl(text: string): string | undefined {
+    if (!URL_WORDS.test(text)) {
+      return undefined;
+    }
+    return text.match(PATH)?.[1] || this.pageObjects.pageNamedIn(text)?.url;
+  }
+
+  private target(binding: StepBinding): PlanTarget {
+    if (binding.page_object_member) {
+      return { page_object_member: binding.page_object_member };
+    }
+    return binding.selector ? { kb_key: binding.target, selector: binding.selector } : {};
+  }
+
+  private data(binding: StepBinding, testData: TestDataResolver): PlanData {
+    return binding.test_data !== undefined
+      ? { literal: binding.test_data }
+      : { ref: binding.test_data_ref || testData.reference(binding.target || '', binding.step) };
+  }
+}
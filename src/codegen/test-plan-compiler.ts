@@ -0,0 +1,102 @@
+import { NetworkMockPlan, PlanStep, TestPlan, ValidatedScenario } from '../types';
+import { LangChainClient } from '../llm/langchain-client';
+import { AGENT_C_STEP_TEMPLATE } from '../llm/prompt-templates';
+import { PlanStepCodeSchema } from '../llm/schemas';
+import { parseStructuredArray } from '../llm/structured-output';
+import { PageObjectCatalog } from './page-object-catalog';
+import { TestDataResolver } from './test-data-resolver';
+import { TestPlanBuilder } from './test-plan-builder';
+import { TestPlanEmitter } from './test-plan-emitter';
+import { SpecEmitter } from './spec-emitter';
+
+type LLMStep = Extract<PlanStep, { kind: 'llm' }>;
+
+// Code the LLM may not write into a compiled spec
+const FORBIDDEN_CODE = /^\s*import\s|\btest(\.describe)?\(|\bpage\.route\(|\b(document|window)\./m;
+
+/**
+ * Compiles a bound scenario to a Playwright spec: builds its test plan,
+ * asks the LLM to write only the steps the plan cannot express, and emits
+ * the file deterministically from the plan
+ */
+export class TestPlanCompiler {
+  private builder: TestPlanBuilder;
+  private emitter: TestPlanEmitter;
+
+  constructor(private llmClient: LangChainClient, private pageObjects: PageObjectCatalog) {
+    this.builder = new TestPlanBuilder(pageObjects);
+    this.emitter = new TestPlanEmitter(pageObjects);
+  }
+
+  async compile(scenario: ValidatedScenario, networkMocks: NetworkMockPlan[] = []): Promise<{ content: string; plan: TestPlan }> {
+    const plan = this.builder.build(scenario, networkMocks);
+    const pending = [...plan.steps, plan.outcome].filter((step): step is LLMStep => step.kind === 'llm');
+
+    if (pending.length > 0) {
+      await this.writeLLMSteps(plan, pending, scenario);
+    }
+
+    return { content: this.emitter.emit(plan), plan };
+  }
+
+  /**
+   * Spec for a scenario that could not be compiled, with every step left as
+   * a TODO, so one bad scenario does not cost the rest of the run
+   */
+  fallback(scenario: ValidatedScenario, error: unknown): { content: string; plan: TestPlan } {
+    const reason = `not compiled (${error instanceof Error ? error.message : error})`;
+    const todo = (step: string, step_index: number): PlanStep => ({ kind: 'llm', action: 'assert', step_index, step, reason });
+    const plan: TestPlan = {
+      title: scenario.title,
+      type: scenario.type,
+      device: scenario.device,
+      description: scenario.description,
+      expected_outcome: scenario.expected_outcome,
+      setup: [],
+      steps: scenario.steps.map(todo),
+      outcome: todo(scenario.expected_outcome, scenario.steps.length)
+    };
+    return { content: this.emitter.emit(plan), plan };
+  }
+
+  /**
+   * Fills in the code of "llm" steps; steps the LLM leaves out or answers
+   * with unusable code stay as TODOs
+   */
+  private async writeLLMSteps(plan: TestPlan, pending: LLMStep[], scenario: ValidatedScenario): Promise<void> {
+    console.log(`Agent C: ${pending.length} step(s) of "${plan.title}" need the LLM`);
+
+    try {
+      const response = await this.llmClient.generateWithTemplate(AGENT_C_STEP_TEMPLATE, {
+        scenario: `${plan.title} (${plan.type}): ${plan.description}`,
+        compiledSpec: this.emitter.emit(plan),
+        pendingSteps: pending.map(step => `- step_index ${step.step_index}: "${step.step}" (${step.reason})`).join('\n'),
+        selectors: Object.entries(scenario.selectors).map(([name, selector]) => `${name}: ${selector}`).join('\n') || 'None',
+        pageObjects: this.pageObjects.describe(),
+        testData: new TestDataResolver(plan.type).describe()
+      });
+
+      const { items, errors } = parseStructuredArray(response, PlanStepCodeSchema);
+      errors.forEach(error => console.warn(`Agent C: Unusable step code for "${plan.title}": ${error}`));
+
+      for (const item of items) {
+        const step = pending.find(candidate => candidate.step_index === item.step_index);
+        if (!step) continue;
+
+        if (FORBIDDEN_CODE.test(item.code)) {
+          console.warn(`Agent C: Rejected LLM code for step ${item.step_index + 1} of "${plan.title}": not plain test statements`);
+          continue;
+        }
+        try {
+          SpecEmitter.parseStatements(item.code);
+        } catch (error) {
+          console.warn(`Agent C: Rejected LLM code for step ${item.step_index + 1} of "${plan.title}": ${error instanceof Error ? error.message : error}`);
+          continue;
+        }
+        step.code = item.code.trim();
+      }
+    } catch (error) {
+      console.warn(`Agent C: LLM step generation failed for "${plan.title}", leaving TODOs:`, error instanceof Error ? error.message : error);
+    }
+  }
+}
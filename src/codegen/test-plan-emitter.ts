@@ -0,0 +1,145 @@
+import { PlanStep, PlanTarget, StepActionKind, StepBinding, TestPlan } from '../types';
+import { PageObjectCatalog, PageObjectClass } from './page-object-catalog';
+import { TestDataResolver } from './test-data-resolver';
+import { NetworkMockPlanner } from './network-mock-planner';
+import { SpecBlock, SpecEmitter } from './spec-emitter';
+import { quote } from './quoting';
+
+const DEVICES: Record<string, string> = {
+  mobile: 'iPhone 13',
+  tablet: 'iPad Mini'
+};
+
+// Step action a plan step performs, for page-object calls
+const STEP_ACTIONS: Partial<Record<PlanStep['kind'], StepActionKind>> = {
+  navigate: 'navigate',
+  click: 'click',
+  select: 'click',
+  fill: 'fill',
+  check: 'check',
+  assertVisible: 'assert',
+  assertText: 'assert'
+};
+
+const NO_PAGE_OBJECT = 'NO PAGE OBJECT: no page-object member performs this step';
+
+/**
+ * Writes a test plan out as a Playwright spec. The output depends only on
+ * the plan and the page objects, so the same plan always gives the same file.
+ */
+export class TestPlanEmitter {
+  private specEmitter: SpecEmitter;
+
+  constructor(private pageObjects: PageObjectCatalog) {
+    this.specEmitter = new SpecEmitter(pageObjects.classes.map(cls => cls.name));
+  }
+
+  emit(plan: TestPlan): string {
+    const testData = new TestDataResolver(plan.type);
+    const pageObjects = this.classesUsedBy(plan);
+    const mockSetup = NetworkMockPlanner.renderSetup(plan.setup);
+
+    const blocks: SpecBlock[] = [
+      ...(mockSetup ? [mockSetup] : []),
+      ...(pageObjects.length > 0 ? [{ comments: [], code: pageObjects.map(cls => `const ${cls.variable} = new ${cls.name}(page);`) }] : []),
+      ...plan.steps.map(step => this.block(`Step ${step.step_index + 1}: ${step.step}`, step, testData)),
+      this.block(`Verify expected outcome: ${plan.outcome.step}`, plan.outcome, testData)
+    ];
+
+    return this.specEmitter.emit({
+      title: plan.title,
+      comments: [`Type: ${plan.type}`, `Description: ${plan.description}`, `Expected outcome: ${plan.expected_outcome}`],
+      device: plan.device ? DEVICES[plan.device] : undefined,
+      tests: [{ title: plan.title, blocks }]
+    });
+  }
+
+  private block(heading: string, step: PlanStep, testData: TestDataResolver): SpecBlock {
+    const { comments, code } = this.statements(step, testData);
+    return { comments: [heading, ...comments], code };
+  }
+
+  private statements(step: PlanStep, testData: TestDataResolver): SpecBlock {
+    const target = 'target' in step ? step.target : undefined;
+    if (target?.page_object_member) {
+      const call = this.pageObjects.renderCall(this.toBinding(step), testData);
+      if (call) return { comments: [], code: [call] };
+    }
+
+    const selector = target?.selector ? quote(target.selector) : undefined;
+    const kbComment = target?.kb_key ? ` // ${target.kb_key}` : '';
+    const raw = (code: string): SpecBlock => ({ comments: [NO_PAGE_OBJECT], code: [code] });
+    const check = (code: string): SpecBlock => ({ comments: [], code: [code] });
+
+    switch (step.kind) {
+      case 'navigate':
+        return raw(`await page.goto(${quote(step.url || '/')});`);
+      case 'click':
+        return raw(`await page.click(${selector});${kbComment}`);
+      case 'fill':
+        return raw(`await page.fill(${selector}, ${this.value(step.data)});${kbComment}`);
+      case 'select':
+        return raw(`await page.selectOption(${selector}, ${this.value(step.data)});${kbComment}`);
+      case 'check':
+        return raw(`await page.check(${selector});${kbComment}`);
+      case 'assertVisible':
+        return check(`await expect(${this.locator(step.target)}).toBeVisible();${kbComment}`);
+      case 'assertText':
+        return check(step.target.selector
+          ? `await expect(page.locator(${selector})).toContainText(${quote(step.text)});${kbComment}`
+          : `await expect(page.getByText(${quote(step.text)})).toBeVisible();`);
+      case 'assertUrl':
+        return check(`await expect(page).toHaveURL(${urlPattern(step.url)});`);
+      case 'waitForLoad':
+        return check(`await page.waitForLoadState('networkidle');`);
+      case 'mockRoute':
+        return NetworkMockPlanner.renderSetup(step.mocks)!;
+      case 'unbound':
+        return { comments: [`MISSING BINDING: ${step.reason}`, 'TODO: Add a selector for this step to the knowledge base'], code: [] };
+      case 'llm':
+        return step.code
+          ? { comments: [`GENERATED BY LLM: ${step.reason}`], code: [step.code] }
+          : { comments: [`TODO: ${step.reason}; implement this step by hand`], code: [] };
+    }
+  }
+
+  private locator(target: PlanTarget): string {
+    return target.selector ? `page.locator(${quote(target.selector)})` : `page.getByText(${quote(target.text || '')})`;
+  }
+
+  private value(data: { literal?: string; ref?: string }): string {
+    return data.literal !== undefined ? quote(data.literal) : data.ref!;
+  }
+
+  /**
+   * Page objects the plan's targets call, plus any the LLM-written code uses
+   */
+  private classesUsedBy(plan: TestPlan): PageObjectClass[] {
+    const steps = [...plan.steps, plan.outcome];
+    const targets = steps.flatMap(step => 'target' in step && step.target ? [step.target] : []);
+    const llmCode = steps.map(step => step.kind === 'llm' ? step.code || '' : '').join('\n');
+
+    const used = new Set(this.pageObjects.classesUsedBy(targets).map(cls => cls.name));
+    return this.pageObjects.classes
+      .filter(cls => used.has(cls.name) || new RegExp(`\\b${cls.variable}\\.`).test(llmCode));
+  }
+
+  private toBinding(step: PlanStep): StepBinding {
+    const data = 'data' in step ? step.data : undefined;
+    return {
+      step_index: step.step_index,
+      step: step.step,
+      action: STEP_ACTIONS[step.kind] || 'assert',
+      page_object_member: 'target' in step ? step.target?.page_object_member : undefined,
+      test_data: data?.literal,
+      test_data_ref: data?.ref
+    };
+  }
+}
+
+/**
+ * Regex literal matching a path anywhere in the URL
+ */
+function urlPattern(url: string): string {
+  return `/${url.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\//g, '\\/')}/`;
+}
@@ -0,0 +1,164 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { MCPEnhancedAgentC } from '../agents/mcp-enhanced-agent-c';
+import { ExecutionStatus, PlaywrightTest, SpecRunResult, ValidatedScenario } from '../types';
+import { SpecRunner } from './spec-runner';
+
+export interface SpecExecutionRecord {
+  spec_file: string;
+  scenario_title?: string;
+  status: SpecRunResult['status'];
+  runs: number;
+  repairs: number;
+  failure_reason?: string;
+  trace_path?: string;
+  history: Array<{ run: number; status: SpecRunResult['status']; duration_ms: number; errors: string[] }>;
+}
+
+export interface ExecutionReport {
+  max_iterations: number;
+  passed: number;
+  failed: number;
+  specs: SpecExecutionRecord[];
+}
+
+export interface ExecuteAndRepairOptions {
+  maxIterations?: number;
+  runner?: SpecRunner;
+}
+
+/**
+ * Runs every written spec and sends failures back to Agent C for a
+ * targeted fix, up to maxIterations repairs per spec. Specs that still
+ * fail are marked with the reason at the top of the file.
+ */
+export class ExecuteAndRepairLoop {
+  private agentC: MCPEnhancedAgentC;
+  private runner: SpecRunner;
+  private maxIterations: number;
+
+  constructor(agentC: MCPEnhancedAgentC, options: ExecuteAndRepairOptions = {}) {
+    this.agentC = agentC;
+    this.runner = options.runner || new SpecRunner();
+    this.maxIterations = options.maxIterations ?? parseInt(process.env.MAX_VALIDATION_ITERATIONS || '3');
+  }
+
+  /**
+   * @param render turns a test into the file content to write (e.g. adds the traceability header)
+   */
+  async run(
+    tests: PlaywrightTest[],
+    scenarios: ValidatedScenario[],
+    outputDir: string,
+    render: (test: PlaywrightTest) => string
+  ): Promise<{ tests: PlaywrightTest[]; report: ExecutionReport }> {
+    const finalTests: PlaywrightTest[] = [];
+    const records: SpecExecutionRecord[] = [];
+
+    // Sequential on purpose: specs share the browser budget and repairs share the LLM
+    for (const test of tests) {
+      const scenario = scenarios.find(s => s.title === test.scenario_title);
+      const { test: finalTest, record } = await this.executeSpec(test, scenario, outputDir, render);
+      finalTests.push(finalTest);
+      records.push(record);
+    }
+
+    const passed = records.filter(r => r.status === 'passed').length;
+    console.log(`Execute-and-repair: ${passed}/${records.length} specs passing`);
+
+    return {
+      tests: finalTests,
+      report: {
+        max_iterations: this.maxIterations,
+        passed,
+        failed: records.length - passed,
+        specs: records
+      }
+    };
+  }
+
+  private async executeSpec(
+    test: PlaywrightTest,
+    scenario: ValidatedScenario | undefined,
+    outputDir: string,
+    render: (test: PlaywrightTest) => string
+  ): Promise<{ test: PlaywrightTest; record: SpecExecutionRecord }> {
+    const specPath = path.join(outputDir, test.filename);
+    const record: SpecExecutionRecord = {
+      spec_file: test.filename,
+      scenario_title: test.scenario_title,
+      status: 'error',
+      runs: 0,
+      repairs: 0,
+      history: []
+    };
+
+    let current = test;
+    let result: SpecRunResult | undefined;
+
+    while (true) {
+      record.runs++;
+      console.log(`Running ${test.filename} (run ${record.runs})...`);
+      result = await this.runner.run(specPath, record.runs);
+      record.history.push({
+        run: record.runs,
+        status: result.status,
+        duration_ms: result.duration_ms,
+        errors: result.failures.map(f => f.error_message.split('\n')[0])
+      });
+
+      if (result.status === 'passed') {
+        console.log(`   PASSED: ${test.filename}`);
+        break;
+      }
+
+      console.log(`   ${result.status.toUpperCase()}: ${result.failures[0]?.error_message.split('\n')[0] || 'unknown error'}`);
+
+      if (record.repairs >= this.maxIterations || !scenario) {
+        break;
+      }
+
+      record.repairs++;
+      const repaired = await this.agentC.repairTest(current, scenario, result, render(current));
+      if (repaired.content === current.content) {
+        console.log(`   No change from repair of ${test.filename}, stopping`);
+        break;
+      }
+
+      current = repaired;
+      fs.writeFileSync(specPath, render(current), 'utf-8');
+    }
+
+    record.status = result.status;
+    record.trace_path = result.failures.find(f => f.trace_path)?.trace_path;
+
+    if (result.status !== 'passed') {
+      record.failure_reason = result.failures[0]?.error_message.split('\n')[0] || `Spec ${result.status}`;
+    }
+
+    // Kept on the test so the banner survives the spec being written again on resume
+    current = {
+      ...current,
+      execution_status: { status: record.status, runs: record.runs, repairs: record.repairs, failure_reason: record.failure_reason }
+    };
+    if (result.status !== 'passed') {
+      fs.writeFileSync(specPath, ExecuteAndRepairLoop.markFailing(render(current), current.execution_status), 'utf-8');
+    }
+
+    return { test: current, record };
+  }
+
+  /**
+   * Put the EXECUTION FAILED banner above a spec whose last run failed
+   */
+  static markFailing(content: string, status?: ExecutionStatus): string {
+    if (!status || status.status === 'passed') {
+      return content;
+    }
+    return [
+      `// EXECUTION FAILED after ${status.runs} run(s) and ${status.repairs} repair attempt(s) - review before relying on this spec`,
+      `// Reason: ${status.failure_reason}`,
+      content
+    ].join('\n');
+  }
+}
@@ -0,0 +1,184 @@
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { JSONReport, JSONReportSuite, JSONReportTestResult, TestError } from '@playwright/test/reporter';
+import { SpecFailure, SpecRunResult } from '../types';
+
+export interface SpecRunnerOptions {
+  project?: string;
+  timeoutMs?: number;
+  outputDir?: string;
+}
+
+// Keep the failure context small enough to fit into a repair prompt
+const MAX_SNAPSHOT_LENGTH = 4000;
+
+/**
+ * Runs a single generated spec with the Playwright CLI and collects what
+ * Agent C needs to repair it: error, failing line, page snapshot and trace.
+ */
+export class SpecRunner {
+  private project: string;
+  private timeoutMs: number;
+  private outputDir: string;
+  private rootDir: string;
+
+  constructor(options: SpecRunnerOptions = {}) {
+    this.rootDir = path.join(__dirname, '../..');
+    this.project = options.project || process.env.EXECUTION_PROJECT || 'chromium';
+    this.timeoutMs = options.timeoutMs || 5 * 60 * 1000;
+    this.outputDir = options.outputDir || path.join(this.rootDir, 'test-results/execute-and-repair');
+  }
+
+  async run(specPath: string, attempt: number = 1): Promise<SpecRunResult> {
+    const specName = path.basename(specPath, '.spec.ts');
+    const runDir = path.join(this.outputDir, `${specName}-attempt-${attempt}`);
+    const reportPath = path.join(runDir, 'report.json');
+    fs.mkdirSync(runDir, { recursive: true });
+
+    const startTime = Date.now();
+    const { exitCode, output } = await this.spawnPlaywright(specPath, runDir, reportPath);
+    const duration = Date.now() - startTime;
+
+    if (!fs.existsSync(reportPath)) {
+      return {
+        spec_file: path.basename(specPath),
+        status: 'error',
+        duration_ms: duration,
+        failures: [{
+          test_name: specName,
+          error_message: this.stripAnsi(output).trim().slice(-2000) || `Playwright exited with code ${exitCode}`
+        }]
+      };
+    }
+
+    const report = JSON.parse(fs.readFileSync(reportPath, 'utf-8')) as JSONReport;
+    const failures = this.collectFailures(report, specPath);
+    const loadErrors: SpecFailure[] = (report.errors || []).map(error => ({
+      test_name: specName,
+      error_message: this.stripAnsi(error.message || 'Spec failed to load'),
+      failing_line: error.location?.line,
+      code_snippet: error.snippet ? this.stripAnsi(error.snippet) : undefined
+    }));
+    const ranTests = (report.stats?.expected || 0) + (report.stats?.unexpected || 0) + (report.stats?.flaky || 0);
+
+    // A spec that compiles to zero tests, or that Playwright did not pick up, is as broken as a failing one
+    if (ranTests === 0) {
+      return {
+        spec_file: path.basename(specPath),
+        status: 'error',
+        duration_ms: duration,
+        failures: loadErrors.length > 0 ? loadErrors : [{
+          test_name: specName,
+          error_message: `No tests found in ${path.basename(specPath)}`
+        }]
+      };
+    }
+
+    return {
+      spec_file: path.basename(specPath),
+      status: failures.length === 0 && loadErrors.length === 0 ? 'passed' : 'failed',
+      duration_ms: duration,
+      failures: [...loadErrors, ...failures]
+    };
+  }
+
+  private spawnPlaywright(specPath: string, runDir: string, reportPath: string): Promise<{ exitCode: number | null; output: string }> {
+    const args = [
+      'playwright', 'test', path.resolve(specPath),
+      `--config=${path.join(this.rootDir, 'playwright.execution.config.ts')}`,
+      '--reporter=json',
+      `--project=${this.project}`,
+      '--workers=1',
+      '--retries=0',
+      '--trace=on',
+      `--output=${path.join(runDir, 'artifacts')}`
+    ];
+
+    return new Promise(resolve => {
+      let output = '';
+      const child = spawn('npx', args, {
+        cwd: this.rootDir,
+        env: { ...process.env, EXECUTION_SPEC_DIR: path.dirname(path.resolve(specPath)), PLAYWRIGHT_JSON_OUTPUT_NAME: reportPath }
+      });
+
+      const timer = setTimeout(() => {
+        output += `\nSpec run timed out after ${this.timeoutMs}ms`;
+        child.kill('SIGTERM');
+      }, this.timeoutMs);
+
+      child.stdout.on('data', chunk => { output += chunk.toString(); });
+      child.stderr.on('data', chunk => { output += chunk.toString(); });
+      child.on('error', error => {
+        clearTimeout(timer);
+        resolve({ exitCode: null, output: `${output}\n${error.message}` });
+      });
+      child.on('close', exitCode => {
+        clearTimeout(timer);
+        resolve({ exitCode, output });
+      });
+    });
+  }
+
+  private collectFailures(report: JSONReport, specPath: string): SpecFailure[] {
+    const failures: SpecFailure[] = [];
+
+    const visitSuite = (suite: JSONReportSuite, titlePath: string[]) => {
+      const suiteTitles = suite.title && !suite.title.endsWith('.spec.ts') ? [...titlePath, suite.title] : titlePath;
+
+      for (const spec of suite.specs || []) {
+        for (const test of spec.tests || []) {
+          const result = (test.results || []).find(r => r.status !== 'passed' && r.status !== 'skipped');
+          if (!result) continue;
+
+          const error: TestError = result.error || (result.errors || [])[0] || {};
+          const attachments = result.attachments || [];
+
+          failures.push({
+            test_name: [...suiteTitles, spec.title].join(' > '),
+            error_message: this.stripAnsi(error.message || `Test ${result.status}`),
+            failing_line: error.location?.line ?? this.findLineInStack(error.stack, specPath),
+            code_snippet: error.snippet ? this.stripAnsi(error.snippet) : undefined,
+            dom_snapshot: this.readSnapshot(attachments),
+            trace_path: attachments.find(a => a.name === 'trace')?.path
+          });
+        }
+      }
+
+      for (const child of suite.suites || []) {
+        visitSuite(child, suiteTitles);
+      }
+    };
+
+    for (const suite of report.suites || []) {
+      visitSuite(suite, []);
+    }
+
+    return failures;
+  }
+
+  private readSnapshot(attachments: JSONReportTestResult['attachments']): string | undefined {
+    // Playwright writes the page's aria snapshot to error-context.md on failure
+    const context = attachments.find(a => a.name === 'error-context');
+    if (!context) return undefined;
+
+    const content = context.path && fs.existsSync(context.path)
+      ? fs.readFileSync(context.path, 'utf-8')
+      : context.body ? Buffer.from(context.body, 'base64').toString('utf-8') : '';
+
+    return content.length > MAX_SNAPSHOT_LENGTH
+      ? `${content.slice(0, MAX_SNAPSHOT_LENGTH)}\n... (truncated)`
+      : content || undefined;
+  }
+
+  private findLineInStack(stack: string | undefined, specPath: string): number | undefined {
+    if (!stack) return undefined;
+    const escaped = path.basename(specPath).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const match = stack.match(new RegExp(`${escaped}:(\\d+):\\d+`));
+    return match ? Number(match[1]) : undefined;
+  }
+
+  private stripAnsi(text: string): string {
+    return text.replace(/\u001b\[[0-9;]*m/g, '');
+  }
+}
@@ -0,0 +1,13 @@
+// Library entry point: embed the pipeline instead of running scripts/generate-tests.ts
+export { TestGenerator } from './pipeline/test-generator';
+export type { TestGeneratorOptions, TestGeneratorHooks, StoryGenerationResult, GenerationReport } from './pipeline/test-generator';
+export { PipelineRun, PIPELINE_STAGES } from './pipeline/pipeline-run';
+export type { PipelineStage, StageArtifacts } from './pipeline/pipeline-run';
+export { PipelinePlugins } from './pipeline/pipeline-plugins';
+export type { PipelinePlugin, PluginContext, PluginTransform } from './pipeline/pipeline-plugins';
+export { LangChainClient } from './llm/langchain-client';
+export { UserStoryLoader } from './stories/user-story-loader';
+export type { EngineerReviewReport } from './agents/analysis-agent-g';
+export type { ExecutionReport } from './execution/execute-and-repair';
+export type { ConfidenceGateReport } from './validation/confidence-gate';
+export * from './types';
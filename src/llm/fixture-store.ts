@@ -0,0 +1,66 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LLMFixture } from './types';
+
+/**
+ * File-backed store of recorded LLM responses, keyed by prompt hash.
+ * Used by the `record` and `replay` providers so the agents can run offline.
+ */
+export class LLMFixtureStore {
+  private fixturesDir: string;
+
+  constructor(fixturesDir: string) {
+    this.fixturesDir = path.resolve(fixturesDir);
+  }
+
+  /**
+   * Compute a stable key for a prompt
+   */
+  static hashPrompt(kind: LLMFixture['kind'], prompt: LLMFixture['prompt']): string {
+    return crypto
+      .createHash('sha256')
+      .update(JSON.stringify({ kind, system: prompt.system || '', user: prompt.user }))
+      .digest('hex');
+  }
+
+  /**
+   * Load the recorded response for a prompt, or null if none was recorded
+   */
+  load(kind: LLMFixture['kind'], prompt: LLMFixture['prompt']): LLMFixture | null {
+    const filePath = this.getFixturePath(LLMFixtureStore.hashPrompt(kind, prompt));
+
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as LLMFixture;
+  }
+
+  /**
+   * Persist a response so later runs can replay it
+   */
+  save(fixture: Omit<LLMFixture, 'key' | 'recorded_at'>): LLMFixture {
+    const key = LLMFixtureStore.hashPrompt(fixture.kind, fixture.prompt);
+    const record: LLMFixture = {
+      key,
+      ...fixture,
+      recorded_at: new Date().toISOString()
+    };
+
+    if (!fs.existsSync(this.fixturesDir)) {
+      fs.mkdirSync(this.fixturesDir, { recursive: true });
+    }
+
+    fs.writeFileSync(this.getFixturePath(key), JSON.stringify(record, null, 2), 'utf-8');
+    return record;
+  }
+
+  getFixturesDir(): string {
+    return this.fixturesDir;
+  }
+
+  private getFixturePath(key: string): string {
+    return path.join(this.fixturesDir, `${key}.json`);
+  }
+}
@@ -1,38 +1,48 @@
 import { ChatOpenAI } from '@langchain/openai';
 import { ChatAnthropic } from '@langchain/anthropic';
-import { Ollama } from '@langchain/ollama';
+import { ChatOllama } from '@langchain/ollama';
 import { BaseLanguageModel } from '@langchain/core/language_models/base';
 import { HumanMessage, SystemMessage, AIMessage } from '@langchain/core/messages';
 import { PromptTemplate } from '@langchain/core/prompts';
 import { LLMChain } from 'langchain/chains';
-import { LLMConfig } from './types';
+import { LLMConfig, LLMFixture, LLMProvider, LiveLLMProvider } from './types';
+import { LLMFixtureStore } from './fixture-store';
 import * as dotenv from 'dotenv';
 
 dotenv.config();
 
 export class LangChainClient {
-  private model: BaseLanguageModel;
+  private model: BaseLanguageModel | null;
   private config: LLMConfig;
+  private fixtureStore: LLMFixtureStore | null;
 
   constructor(config?: Partial<LLMConfig>) {
     this.config = this.createConfig(config);
+    this.fixtureStore = this.initializeFixtureStore();
     this.model = this.initializeModel();
   }
 
   private createConfig(config?: Partial<LLMConfig>): LLMConfig {
-    const provider = config?.provider || (process.env.LLM_PROVIDER as 'openai' | 'anthropic' | 'ollama') || 'openai';
+    const provider = config?.provider || (process.env.LLM_PROVIDER as LLMProvider) || 'openai';
+    const recordProvider = config?.recordProvider || (process.env.LLM_RECORD_PROVIDER as LiveLLMProvider) || 'openai';
+    // When recording, model and credentials belong to the provider actually answering
+    const liveProvider = provider === 'record' ? recordProvider : provider;
     
     return {
       provider,
       maxRetries: config?.maxRetries || parseInt(process.env.MAX_RETRIES || '3'),
-      model: config?.model || this.getDefaultModel(provider),
-      apiKey: config?.apiKey || this.getApiKey(provider),
+      model: config?.model || this.getDefaultModel(liveProvider),
+      apiKey: config?.apiKey || this.getApiKey(liveProvider),
       baseUrl: config?.baseUrl || process.env.OLLAMA_BASE_URL,
+      fixturesDir: config?.fixturesDir || process.env.LLM_FIXTURES_DIR || 'fixtures/llm',
+      recordProvider,
     };
   }
 
   private getDefaultModel(provider: string): string {
     switch (provider) {
+      case 'replay':
+        return 'recorded-fixtures';
       case 'openai':
         return process.env.OPENAI_MODEL || 'gpt-4-turbo-preview';
       case 'anthropic':
@@ -57,8 +67,22 @@ export class LangChainClient {
     }
   }
 
-  private initializeModel(): BaseLanguageModel {
-    switch (this.config.provider) {
+  private initializeFixtureStore(): LLMFixtureStore | null {
+    if (this.config.provider !== 'replay' && this.config.provider !== 'record') {
+      return null;
+    }
+    return new LLMFixtureStore(this.config.fixturesDir!);
+  }
+
+  private initializeModel(): BaseLanguageModel | null {
+    const provider = this.config.provider === 'record'
+      ? this.config.recordProvider
+      : this.config.provider;
+
+    switch (provider) {
+      case 'replay':
+        return null; // Responses come from recorded fixtures only
+
       case 'openai':
         if (!this.config.apiKey) {
           throw new Error('OPENAI_API_KEY environment variable is required');
@@ -84,26 +108,35 @@ export class LangChainClient {
         });
 
       case 'ollama':
-        return new Ollama({
+        // @langchain/ollama brings its own @langchain/core, so its types do not line up with ours
+        return new ChatOllama({
           baseUrl: this.config.baseUrl || 'http://localhost:11434',
           model: this.config.model,
           temperature: 0.7,
-        });
+        }) as unknown as BaseLanguageModel;
 
       default:
-        throw new Error(`Unsupported LLM provider: ${this.config.provider}`);
+        throw new Error(`Unsupported LLM provider: ${provider}`);
     }
   }
 
   async generateResponse(systemPrompt: string, userPrompt: string): Promise<string> {
+    const prompt = { system: systemPrompt, user: userPrompt };
+    const replayed = this.replayFixture('message', prompt);
+    if (replayed !== null) {
+      return replayed;
+    }
+
     try {
       const messages = [
         new SystemMessage(systemPrompt),
         new HumanMessage(userPrompt)
       ];
 
-      const response = await this.model.invoke(messages);
-      return response.content as string;
+      const response = await this.model!.invoke(messages);
+      const content = response.content as string;
+      this.recordFixture('message', prompt, content);
+      return content;
     } catch (error) {
       console.error('LLM generation error:', error);
       throw new Error(`Failed to generate LLM response: ${error}`);
@@ -111,13 +144,24 @@ export class LangChainClient {
   }
 
   async generateWithTemplate(template: PromptTemplate, variables: Record<string, any>): Promise<string> {
+    const prompt = this.fixtureStore
+      ? { user: await template.format(variables) }
+      : null;
+    const replayed = prompt ? this.replayFixture('template', prompt) : null;
+    if (replayed !== null) {
+      return replayed;
+    }
+
     try {
       const chain = new LLMChain({
-        llm: this.model,
+        llm: this.model!,
         prompt: template,
       });
 
       const response = await chain.call(variables);
+      if (prompt) {
+        this.recordFixture('template', prompt, response.text);
+      }
       return response.text;
     } catch (error) {
       console.error('LLM chain error:', error);
@@ -126,7 +170,8 @@ export class LangChainClient {
   }
 
   async generateWithRetry(systemPrompt: string, userPrompt: string, maxRetries?: number): Promise<string> {
-    const retries = maxRetries || this.config.maxRetries || 3;
+    // A missing replay fixture will not appear on retry
+    const retries = this.config.provider === 'replay' ? 1 : maxRetries || this.config.maxRetries || 3;
     let lastError: Error;
 
     for (let attempt = 1; attempt <= retries; attempt++) {
@@ -146,6 +191,43 @@ export class LangChainClient {
     throw new Error(`LLM failed after ${retries} attempts. Last error: ${lastError!.message}`);
   }
 
+  /**
+   * In replay mode, return the recorded response or fail without touching the network
+   */
+  private replayFixture(kind: LLMFixture['kind'], prompt: LLMFixture['prompt']): string | null {
+    if (this.config.provider !== 'replay') {
+      return null;
+    }
+
+    const fixture = this.fixtureStore!.load(kind, prompt);
+    if (!fixture) {
+      const key = LLMFixtureStore.hashPrompt(kind, prompt);
+      throw new Error(
+        `No recorded LLM fixture for prompt ${key} in ${this.fixtureStore!.getFixturesDir()}. ` +
+        `Re-run with LLM_PROVIDER=record to capture it.`
+      );
+    }
+
+    return fixture.response;
+  }
+
+  /**
+   * In record mode, persist the live response for later replay
+   */
+  private recordFixture(kind: LLMFixture['kind'], prompt: LLMFixture['prompt'], response: string): void {
+    if (this.config.provider !== 'record') {
+      return;
+    }
+
+    this.fixtureStore!.save({
+      kind,
+      prompt,
+      response,
+      provider: this.config.recordProvider!,
+      model: this.config.model
+    });
+  }
+
   getModelInfo(): { provider: string; model: string } {
     return {
       provider: this.config.provider,
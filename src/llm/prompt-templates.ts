@@ -19,15 +19,24 @@ For each scenario, provide:
   * Include verification steps: "User sees credit report information displayed"
 - expected_outcome: What should happen
 - device: desktop or mobile
+- covers_criteria: Array of the acceptance criterion numbers this scenario verifies (empty array if none are listed)
 
 CRITICAL: Break down the user story into SPECIFIC, ACTIONABLE steps - do not create generic steps!
+When acceptance criteria are listed, every criterion must be exercised by at least one scenario.
+NEGATIVE and EDGE steps that enter data must name the input by generator, e.g. "User enters synthetic.malformedEmail in the email field" - never "invalid data" or "some value".
+
+Synthetic Inputs (seeded generators, reference as synthetic.<name>):
+{syntheticData}
 
 Return ONLY a valid JSON array of scenarios. No markdown, no explanations.
 
 User Story: "{userStory}"
 
+Acceptance Criteria:
+{acceptanceCriteria}
+
 Generate 4 comprehensive test scenarios:`,
-  inputVariables: ['userStory'],
+  inputVariables: ['userStory', 'acceptanceCriteria', 'syntheticData'],
 });
 
 export const AGENT_B_TEMPLATE = new PromptTemplate({
@@ -41,20 +50,27 @@ Your role is to:
 Test Scenario:
 {scenario}
 
-Available Selectors:
+Candidate Selectors (closest knowledge base matches for this scenario, keyed by "category.name"):
 {selectors}
 
-Available API Endpoints:
+Candidate API Endpoints (closest knowledge base matches for this scenario):
 {endpoints}
 
+Only the closest matches are listed, not the whole knowledge base. Pick from these candidates; if they do not cover the scenario's steps, say which are missing and lower confidence_score.
+
 Return ONLY a valid JSON object with validation results:
 {{
   "relevant_selectors": {{"selector_key": "selector_value"}},
   "relevant_endpoints": ["endpoint1", "endpoint2"],
   "validation_notes": ["Note 1", "Note 2"],
-  "confidence_score": 0.8
+  "confidence_score": 0.8,
+  "step_bindings": [
+    {{"step_index": 0, "action": "click", "target": "category.name", "test_data": null}}
+  ]
 }}
 
+step_bindings: one entry per scenario step (step_index starts at 0). action is one of navigate, click, fill, check, assert. target is the candidate selector key the step acts on (omit it when no candidate fits). test_data is the value typed in fill steps.
+
 Focus on:
 - UI elements mentioned in steps
 - Actions that need selectors (click, fill, verify)
@@ -64,113 +80,35 @@ Focus on:
   inputVariables: ['scenario', 'selectors', 'endpoints'],
 });
 
-export const AGENT_C_TEMPLATE = new PromptTemplate({
-  template: `You are Agent C, a specialized AI for generating Playwright TypeScript test code using Page Object Model (POM) pattern with VISUAL HIGHLIGHTING.
-
-Your role is to convert validated test scenarios into executable Playwright test files with:
-- FOLLOW THE EXACT STEPS from the scenario - do not create generic tests
-- Implement EACH ACTION specified in the user story step by step
-- Proper TypeScript syntax using Page Object Model
-- VISUAL HIGHLIGHTING for all interactions
-- Gherkin-style comments (Given/When/Then)
-- RAG-matched selectors from the knowledge base
-- Device-specific configurations
-- Proper assertions and error handling
-
-CRITICAL VISUAL REQUIREMENTS:
-1. ALWAYS use Page Object Model pattern - NEVER write raw page interactions
-2. ADD VISUAL HIGHLIGHTING to every interaction for engineer visibility
-3. Include slow motion and screenshots for better debugging
-
-AVAILABLE PAGE OBJECTS:
-1. HomePage: goto(), navigateToSignIn(), navigateToSignUp(), verifyPageLoaded(), isUserSignedIn()
-2. SignInPage: signIn(email, password), verifyPageLoaded(), verifySignInFailed(), hasValidationErrors(), getErrorMessage()
-3. DashboardPage: waitForDashboardLoad(), verifyPageLoaded(), isLoggedIn(), getCreditScore(), signOut()
-
-REQUIRED IMPORTS:
-- import {{ test, expect }} from '@playwright/test';
-- import {{ HomePage, SignInPage, DashboardPage }} from '@pages';
-- import {{ VisualTestHelper }} from '@utils/visual-helpers';
-
-VISUAL HIGHLIGHTING PATTERN:
-\`\`\`typescript
-test('Test name', async ({{ page }}) => {{
-  // Enable visual highlighting and slow motion
-  await page.addInitScript(() => {{
-    // Highlight elements on interaction
-    const originalClick = HTMLElement.prototype.click;
-    HTMLElement.prototype.click = function() {{
-      this.style.outline = '3px solid #ff6b35';
-      this.style.backgroundColor = 'rgba(255, 107, 53, 0.1)';
-      setTimeout(() => {{
-        this.style.outline = '';
-        this.style.backgroundColor = '';
-      }}, 2000);
-      return originalClick.apply(this, arguments);
-    }};
-  }});
-
-  // Initialize page objects
-  
-  const homePage = new HomePage(page);
-  const signInPage = new SignInPage(page);
-  const dashboardPage = new DashboardPage(page);
-
-  // IMPLEMENT THE EXACT STEPS FROM THE SCENARIO BELOW
-  // DO NOT use this generic example - follow the actual scenario steps
-  
-  // Example structure (REPLACE with actual scenario steps):
-  // Given: [First step from scenario]
-  // When: [Action steps from scenario]  
-  // Then: [Verification steps from scenario]
-}});
-\`\`\`
-
-VISUAL ENHANCEMENTS TO INCLUDE:
-1. Element highlighting script injection
-2. Console.log messages for each major step
-3. Screenshots at key interaction points
-4. Slow motion timing (already configured in playwright.config.ts)
-5. Step-by-step visual feedback
-
-Validated Scenario:
-{validatedScenario}
+export const AGENT_C_STEP_TEMPLATE = new PromptTemplate({
+  template: `You are Agent C. A Playwright spec was compiled from a test plan, except for the steps the plan could not express. Write the code for those steps only.
+
+Scenario: {scenario}
+
+Compiled spec (each step to write is a TODO under its "// Step N" or "// Verify expected outcome" comment):
+{compiledSpec}
+
+Steps to write:
+{pendingSteps}
 
 Available Selectors:
 {selectors}
 
-Relevant API Endpoints:
-{endpoints}
-
-Generate a complete Playwright TypeScript test file using POM pattern with VISUAL HIGHLIGHTING. Include:
-- Required imports (page objects and test credentials)
-- Visual highlighting initialization script
-- Test describe block with scenario metadata  
-- Individual test with device configuration
-- Step-by-step implementation using page object methods with console logs
-- Screenshots at major interaction points
-- Proper assertions using page object verification methods
-- Gherkin-style comments (Given/When/Then)
-
-NEVER use direct page.goto(), page.fill(), page.click() - ALWAYS use page object methods with visual feedback.
-
-CRITICAL SCENARIO IMPLEMENTATION RULES:
-- READ the scenario steps carefully and implement EACH ONE
-- If scenario says "clicks on Free Credit Report link" - you MUST include that click action
-- If scenario says "navigates to credit report page" - you MUST verify that navigation
-- If scenario says "views information" - you MUST verify the content is visible
-- DO NOT create generic tests - follow the exact user journey described
-
-CRITICAL TYPESCRIPT RESTRICTIONS:
-- NEVER use DOM APIs directly (document, window, HTMLElement, querySelector)
-- NEVER use direct DOM manipulation - use Playwright locators only
-- All browser interactions must go through Playwright's page object or page methods
-- Use only Playwright APIs: page.locator(), page.getByRole(), expect(), etc.
-- Keep test descriptions SHORT and simple (max 80 characters)
-- Avoid special characters or complex punctuation in test names
-
-Return ONLY the test file content as a string:`,
-  inputVariables: ['validatedScenario', 'selectors', 'endpoints'],
+Page Objects (use the variable names shown; any you use is constructed for you):
+{pageObjects}
+
+Test Data (fixtures from src/test-data):
+{testData}
+
+Rules:
+- Return ONLY a JSON array, one object per step you can automate: [{{"step_index": 2, "code": "await expect(page.getByRole('heading', {{ name: 'Dashboard' }})).toBeVisible();"}}]
+- step_index is the number from "Steps to write"; leave out steps you cannot automate
+- code is one or more TypeScript statements that run inside the test body above, where page, expect and the page object variables are in scope
+- Prefer page object members, then getByRole/getByLabel/getByText locators, then the Available Selectors
+- Assertions use expect(); input comes from testData, never placeholder strings
+- NEVER write imports, test() blocks, comments, page.route() handlers or DOM APIs (document, window)
+- No markdown, no explanations`,
+  inputVariables: ['scenario', 'compiledSpec', 'pendingSteps', 'selectors', 'pageObjects', 'testData'],
 });
 
 export const RAG_SELECTOR_TEMPLATE = new PromptTemplate({
@@ -210,3 +148,28 @@ If no relevant endpoints found, return an empty array.`,
   inputVariables: ['scenario', 'endpoints'],
 });
 
+
+export const AGENT_A_REPAIR_TEMPLATE = new PromptTemplate({
+  template: `You are Agent A. Your previous answer to the request below could not be fully used because some scenarios failed validation.
+
+Original request:
+{originalRequest}
+
+Your previous answer:
+{previousResponse}
+
+Validation errors:
+{validationErrors}
+
+Each scenario must be an object with:
+- title: non-empty string
+- type: one of positive, negative, edge, cross-device
+- description: non-empty string
+- steps: non-empty array of strings
+- expected_outcome: non-empty string
+- device: desktop, mobile or tablet (optional)
+- covers_criteria: array of acceptance criterion numbers (optional)
+
+Return ONLY a valid JSON array containing corrected versions of the scenarios that failed validation. Do not repeat scenarios that were already valid. No markdown, no explanations.`,
+  inputVariables: ['originalRequest', 'previousResponse', 'validationErrors'],
+});
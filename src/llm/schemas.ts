@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import { PlanStepCode, ScenarioValidation, StepBindingProposal, TestScenario } from '../types';
+
+/**
+ * Schemas for structured LLM output. Each one is typed against the
+ * interface in src/types.ts so the two cannot drift apart.
+ */
+
+const nonEmptyString = z.string().trim().min(1, 'must be a non-empty string');
+
+// LLMs write null for a field that does not apply
+const absent = <T>(schema: z.ZodType<T>) => z.preprocess(value => value ?? undefined, schema.optional());
+
+export const TestScenarioSchema: z.ZodType<TestScenario> = z
+  .object({
+    title: nonEmptyString,
+    type: z.enum(['positive', 'negative', 'edge', 'cross-device']),
+    description: nonEmptyString,
+    // LLMs occasionally return a single step as a plain string
+    steps: z.preprocess(
+      value => (typeof value === 'string' ? [value] : value),
+      z.array(nonEmptyString).min(1, 'must contain at least one step')
+    ),
+    expected_outcome: nonEmptyString,
+    device: z.enum(['desktop', 'mobile', 'tablet']).optional(),
+    // Criterion numbers as listed in the prompt, or the criterion text itself
+    covers_criteria: z.array(z.union([z.number(), z.string()]).transform(String)).optional()
+  })
+  .transform(scenario => ({
+    ...scenario,
+    device: scenario.device || (scenario.type === 'cross-device' ? 'mobile' as const : 'desktop' as const)
+  }));
+
+export const ScenarioValidationSchema: z.ZodType<ScenarioValidation> = z.object({
+  relevant_selectors: z.preprocess(value => value ?? {}, z.record(z.string(), z.string())),
+  relevant_endpoints: z.preprocess(value => value ?? [], z.array(z.string())),
+  validation_notes: z.preprocess(value => value ?? [], z.array(z.string())),
+  confidence_score: z.preprocess(value => value ?? 0.5, z.number()).transform(score => Math.min(1, Math.max(0, score))),
+  step_bindings: z.preprocess(value => value ?? [], z.array(z.unknown()))
+});
+
+export const StepBindingProposalSchema: z.ZodType<StepBindingProposal> = z.object({
+  step_index: z.number().int().min(0),
+  action: absent(z.enum(['navigate', 'click', 'fill', 'check', 'assert'])),
+  target: absent(nonEmptyString),
+  page_object_member: absent(nonEmptyString),
+  test_data: absent(z.string())
+});
+
+export const PlanStepCodeSchema: z.ZodType<PlanStepCode> = z.object({
+  step_index: z.number().int().min(0),
+  code: nonEmptyString
+});
@@ -0,0 +1,120 @@
+import { z } from 'zod';
+
+export interface StructuredArrayResult<T> {
+  items: T[];
+  errors: string[];
+}
+
+/**
+ * Pull the first complete JSON array or object out of an LLM response,
+ * ignoring markdown fences and any prose before or after it.
+ */
+export function extractJson(response: string): unknown {
+  const cleanResponse = response
+    .replace(/```json\s*/g, '')
+    .replace(/```\s*/g, '')
+    .trim();
+
+  try {
+    return JSON.parse(cleanResponse);
+  } catch {
+    // Fall through to bracket scanning
+  }
+
+  const start = cleanResponse.search(/[\[{]/);
+  if (start === -1) {
+    throw new Error('Response does not contain JSON');
+  }
+
+  const end = findMatchingBracket(cleanResponse, start);
+  if (end === -1) {
+    throw new Error('Response contains truncated JSON');
+  }
+
+  return JSON.parse(cleanResponse.substring(start, end + 1));
+}
+
+/**
+ * Validate every element of a JSON array independently, so one bad
+ * element does not discard the valid ones.
+ */
+export function parseStructuredArray<T>(response: string, schema: z.ZodType<T>): StructuredArrayResult<T> {
+  let data: unknown;
+  try {
+    data = extractJson(response);
+  } catch (error) {
+    return { items: [], errors: [`Invalid JSON: ${(error as Error).message}`] };
+  }
+
+  if (!Array.isArray(data)) {
+    return { items: [], errors: ['Response is not a JSON array'] };
+  }
+
+  const items: T[] = [];
+  const errors: string[] = [];
+
+  data.forEach((element, index) => {
+    const result = schema.safeParse(element);
+    if (result.success) {
+      items.push(result.data);
+    } else {
+      errors.push(`Item ${index}: ${formatIssues(result.error)}`);
+    }
+  });
+
+  return { items, errors };
+}
+
+/**
+ * Validate a JSON object response as a whole. Throws with the schema
+ * errors, so the caller can fall back as it does for a failed LLM call.
+ */
+export function parseStructuredObject<T>(response: string, schema: z.ZodType<T>): T {
+  const result = schema.safeParse(extractJson(response));
+  if (!result.success) {
+    throw new Error(`Invalid response: ${formatIssues(result.error)}`);
+  }
+  return result.data;
+}
+
+export function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => `${issue.path.length > 0 ? issue.path.map(String).join('.') : '(root)'} ${issue.message}`)
+    .join('; ');
+}
+
+function findMatchingBracket(text: string, start: number): number {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '[' || char === '{') {
+      stack.push(char === '[' ? ']' : '}');
+    } else if (char === ']' || char === '}') {
+      if (stack.pop() !== char) {
+        return -1;
+      }
+      if (stack.length === 0) {
+        return i;
+      }
+    }
+  }
+
+  return -1;
+}
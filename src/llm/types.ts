@@ -0,0 +1,28 @@
+export type LLMProvider = 'openai' | 'anthropic' | 'ollama' | 'replay' | 'record';
+
+export type LiveLLMProvider = Exclude<LLMProvider, 'replay' | 'record'>;
+
+export interface LLMConfig {
+  provider: LLMProvider;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+  maxRetries: number;
+  // Directory holding recorded prompt/response fixtures (replay/record only)
+  fixturesDir?: string;
+  // Real provider that answers prompts while recording
+  recordProvider?: LiveLLMProvider;
+}
+
+export interface LLMFixture {
+  key: string;
+  kind: 'message' | 'template';
+  prompt: {
+    system?: string;
+    user: string;
+  };
+  response: string;
+  provider: string;
+  model: string;
+  recorded_at: string;
+}
@@ -0,0 +1,350 @@
+import { quote, quotedText } from '../codegen/quoting';
+
+/**
+ * Parser for the YAML accessibility tree returned by @playwright/mcp's
+ * browser_snapshot tool, plus locator synthesis from natural-language steps.
+ */
+
+export interface SnapshotElement {
+  role: string;
+  name: string;
+  ref?: string;
+  // Inline text after the colon, e.g. `- paragraph [ref=e5]: Some text`
+  text?: string;
+  level?: number;
+  states: {
+    expanded?: boolean;
+    checked?: boolean | 'mixed';
+    pressed?: boolean | 'mixed';
+    selected?: boolean;
+    disabled?: boolean;
+    active?: boolean;
+  };
+  // `- /url: ...` and `- /placeholder: ...` property lines
+  props: Record<string, string>;
+  depth: number;
+  children: SnapshotElement[];
+  parent?: SnapshotElement;
+}
+
+export type StepIntent = 'click' | 'fill' | 'check' | 'assert' | 'navigate';
+
+export interface LocatorCandidate {
+  expression: string;
+  strategy: 'role' | 'label' | 'text';
+  score: number;
+  element: SnapshotElement;
+}
+
+export interface RankOptions {
+  intent?: StepIntent;
+  limit?: number;
+}
+
+const CLICKABLE_ROLES = ['button', 'link', 'menuitem', 'menuitemcheckbox', 'menuitemradio', 'tab', 'checkbox', 'radio', 'switch', 'option', 'treeitem'];
+const FILLABLE_ROLES = ['textbox', 'searchbox', 'combobox', 'spinbutton'];
+const CHECKABLE_ROLES = ['checkbox', 'radio', 'switch', 'menuitemcheckbox'];
+const TEXT_ROLES = ['text', 'paragraph', 'heading', 'cell', 'listitem', 'generic', 'alert', 'status', 'strong', 'emphasis'];
+
+// Words in a step that hint at the kind of element being targeted
+const ROLE_HINTS: Record<string, string[]> = {
+  button: ['button'],
+  btn: ['button'],
+  link: ['link'],
+  dropdown: ['button', 'combobox', 'menuitem'],
+  menu: ['button', 'menuitem', 'menu'],
+  tab: ['tab'],
+  checkbox: ['checkbox'],
+  radio: ['radio'],
+  toggle: ['switch', 'checkbox', 'button'],
+  field: FILLABLE_ROLES,
+  input: FILLABLE_ROLES,
+  box: FILLABLE_ROLES,
+  textbox: ['textbox'],
+  search: ['searchbox', 'textbox', 'button'],
+  heading: ['heading'],
+  title: ['heading'],
+  header: ['heading', 'banner'],
+  message: ['alert', 'status', 'text', 'paragraph'],
+  error: ['alert', 'status', 'text', 'paragraph'],
+  image: ['img'],
+  logo: ['img', 'link']
+};
+
+const INTENT_WORDS: Record<StepIntent, string[]> = {
+  click: ['click', 'clicks', 'tap', 'taps', 'press', 'presses', 'select', 'selects', 'open', 'opens', 'choose', 'chooses', 'submit', 'submits', 'expand', 'expands', 'hover', 'hovers'],
+  fill: ['enter', 'enters', 'type', 'types', 'fill', 'fills', 'input', 'inputs', 'provide', 'provides'],
+  check: ['check', 'checks', 'tick', 'ticks', 'uncheck', 'unchecks', 'toggle', 'toggles'],
+  assert: ['verify', 'verifies', 'see', 'sees', 'view', 'views', 'displayed', 'visible', 'shown', 'should', 'expect', 'confirm', 'confirms'],
+  navigate: ['navigate', 'navigates', 'visit', 'visits', 'go', 'goes', 'browse', 'browses', 'lands']
+};
+
+const STOP_WORDS = new Set([
+  'the', 'a', 'an', 'on', 'in', 'into', 'to', 'of', 'for', 'and', 'or', 'with', 'from', 'at', 'by', 'their', 'his', 'her',
+  'user', 'users', 'they', 'then', 'that', 'this', 'is', 'are', 'be', 'page', 'section', 'area', 'option', 'item', 'valid', 'invalid'
+]);
+
+export class AccessibilitySnapshot {
+  readonly roots: SnapshotElement[];
+  readonly url?: string;
+  readonly title?: string;
+
+  private constructor(roots: SnapshotElement[], url?: string, title?: string) {
+    this.roots = roots;
+    this.url = url;
+    this.title = title;
+  }
+
+  /**
+   * Parse a browser_snapshot response (the "### Page state" text or the bare YAML)
+   */
+  static parse(snapshotText: string): AccessibilitySnapshot {
+    const url = snapshotText.match(/- Page URL: (.+)/)?.[1].trim();
+    const title = snapshotText.match(/- Page Title: (.*)/)?.[1].trim();
+    const yamlBlock = snapshotText.match(/```yaml\s*\n([\s\S]*?)```/);
+    const yaml = yamlBlock ? yamlBlock[1] : snapshotText;
+
+    const roots: SnapshotElement[] = [];
+    const stack: SnapshotElement[] = [];
+
+    for (const rawLine of yaml.split('\n')) {
+      const lineMatch = rawLine.match(/^(\s*)- (.*)$/);
+      if (!lineMatch) continue;
+
+      const depth = lineMatch[1].length / 2;
+      // YAML single-quotes entries containing special characters: '- 'link "a: b" [ref=e5]':'
+      let entry = lineMatch[2].trim();
+      const quotedEntry = entry.match(/^'((?:[^']|'')*)'(:.*)?$/);
+      if (quotedEntry) {
+        entry = quotedEntry[1].replace(/''/g, "'") + (quotedEntry[2] || '');
+      }
+
+      while (stack.length > 0 && stack[stack.length - 1].depth >= depth) {
+        stack.pop();
+      }
+      const parent = stack[stack.length - 1];
+
+      // Property lines belong to the enclosing element
+      const property = entry.match(/^\/(\w+):\s*(.*)$/);
+      if (property) {
+        if (parent) parent.props[property[1]] = AccessibilitySnapshot.unquote(property[2]);
+        continue;
+      }
+
+      const element = AccessibilitySnapshot.parseEntry(entry, depth);
+      if (!element) continue;
+
+      element.parent = parent;
+      if (parent) {
+        parent.children.push(element);
+      } else {
+        roots.push(element);
+      }
+      stack.push(element);
+    }
+
+    return new AccessibilitySnapshot(roots, url, title);
+  }
+
+  /**
+   * All elements in document order
+   */
+  elements(): SnapshotElement[] {
+    const result: SnapshotElement[] = [];
+    const visit = (element: SnapshotElement) => {
+      result.push(element);
+      element.children.forEach(visit);
+    };
+    this.roots.forEach(visit);
+    return result;
+  }
+
+  findByRef(ref: string): SnapshotElement | undefined {
+    return this.elements().find(element => element.ref === ref);
+  }
+
+  /**
+   * Turn a natural-language step ("click the Credit dropdown") into
+   * getByRole/getByLabel/getByText locators, best match first
+   */
+  rankLocators(step: string, options: RankOptions = {}): LocatorCandidate[] {
+    const intent = options.intent || AccessibilitySnapshot.detectIntent(step);
+    const { targetWords, roleHints, quoted } = this.describeTarget(step);
+    if (targetWords.length === 0 && !quoted) return [];
+
+    const elements = this.elements();
+    const candidates: LocatorCandidate[] = [];
+
+    for (const element of elements) {
+      const label = element.name || element.text || '';
+      if (!label) continue;
+
+      const score = this.score(element, label, targetWords, roleHints, quoted, intent);
+      if (score <= 0) continue;
+
+      for (const candidate of this.expressionsFor(element, label, elements)) {
+        candidates.push({ ...candidate, score: Math.round((score + candidate.bonus) * 100) / 100, element });
+      }
+    }
+
+    const seen = new Set<string>();
+    return candidates
+      .sort((a, b) => b.score - a.score)
+      .filter(candidate => !seen.has(candidate.expression) && seen.add(candidate.expression))
+      .slice(0, options.limit ?? 5);
+  }
+
+  static detectIntent(step: string): StepIntent {
+    const words = step.toLowerCase().split(/[^a-z]+/);
+    const order: StepIntent[] = ['fill', 'check', 'click', 'navigate', 'assert'];
+
+    for (const intent of order) {
+      if (INTENT_WORDS[intent].some(word => words.includes(word))) {
+        return intent;
+      }
+    }
+    return 'assert';
+  }
+
+  private describeTarget(step: string): { targetWords: string[]; roleHints: string[]; quoted?: string } {
+    const quoted = quotedText(step, 2);
+    const intentWords = new Set(Object.values(INTENT_WORDS).flat());
+    const words = (quoted || step).toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+
+    const roleHints = step.toLowerCase().split(/[^a-z]+/).flatMap(word => ROLE_HINTS[word] || []);
+    const targetWords = words.filter(word =>
+      !STOP_WORDS.has(word) && !intentWords.has(word) && (quoted !== undefined || !ROLE_HINTS[word])
+    );
+
+    return { targetWords, roleHints: [...new Set(roleHints)], quoted };
+  }
+
+  private score(
+    element: SnapshotElement,
+    label: string,
+    targetWords: string[],
+    roleHints: string[],
+    quoted: string | undefined,
+    intent: StepIntent
+  ): number {
+    const labelLower = label.toLowerCase();
+    const labelWords = labelLower.split(/[^a-z0-9]+/).filter(Boolean);
+
+    let score = 0;
+    if (quoted && labelLower === quoted.toLowerCase()) {
+      score += 3;
+    } else if (quoted && labelLower.includes(quoted.toLowerCase())) {
+      score += 2;
+    }
+
+    const matched = targetWords.filter(word => labelWords.includes(word) || labelWords.some(l => l.startsWith(word) && word.length > 3));
+    if (matched.length === 0 && score === 0) return 0;
+
+    // Share of the step's target words found in the label, and of the label explained by the step
+    score += matched.length / Math.max(targetWords.length, 1);
+    score += 0.5 * (matched.length / Math.max(labelWords.length, 1));
+
+    if (roleHints.includes(element.role)) score += 0.75;
+    if (roleHints.includes('combobox') && element.states.expanded !== undefined) score += 0.5;
+
+    const intentRoles = intent === 'click' ? CLICKABLE_ROLES
+      : intent === 'fill' ? FILLABLE_ROLES
+        : intent === 'check' ? CHECKABLE_ROLES
+          : undefined;
+    if (intentRoles) {
+      score += intentRoles.includes(element.role) ? 1 : -1;
+    }
+    if (element.states.disabled) score -= 0.5;
+
+    return score;
+  }
+
+  private expressionsFor(
+    element: SnapshotElement,
+    label: string,
+    elements: SnapshotElement[]
+  ): Array<{ expression: string; strategy: LocatorCandidate['strategy']; bonus: number }> {
+    const quoted = quote(label);
+    const results: Array<{ expression: string; strategy: LocatorCandidate['strategy']; bonus: number }> = [];
+
+    const sameRole = elements.filter(e => e.role === element.role && e !== element);
+    const exactDuplicates = sameRole.filter(e => (e.name || e.text) === label).length;
+    const partialDuplicates = sameRole.filter(e => (e.name || '').toLowerCase().includes(label.toLowerCase())).length;
+    const suffix = exactDuplicates > 0 ? '.first()' : '';
+    // Locators that may match several elements rank lower
+    const ambiguity = exactDuplicates > 0 ? -0.25 : 0;
+
+    if (element.name && !TEXT_ROLES.includes(element.role)) {
+      const options = partialDuplicates > exactDuplicates ? `{ name: ${quoted}, exact: true }` : `{ name: ${quoted} }`;
+      results.push({ expression: `getByRole('${element.role}', ${options})${suffix}`, strategy: 'role', bonus: 0.2 + ambiguity });
+    }
+
+    if (element.name && [...FILLABLE_ROLES, ...CHECKABLE_ROLES].includes(element.role)) {
+      results.push({ expression: `getByLabel(${quoted})${suffix}`, strategy: 'label', bonus: 0.1 + ambiguity });
+    }
+
+    if (element.role === 'heading' && element.name) {
+      results.push({ expression: `getByRole('heading', { name: ${quoted} })${suffix}`, strategy: 'role', bonus: 0.2 + ambiguity });
+    }
+
+    if (TEXT_ROLES.includes(element.role) || CLICKABLE_ROLES.includes(element.role)) {
+      results.push({ expression: `getByText(${quoted}${exactDuplicates > 0 ? '' : ', { exact: true }'})${suffix}`, strategy: 'text', bonus: ambiguity });
+    }
+
+    return results;
+  }
+
+  private static parseEntry(entry: string, depth: number): SnapshotElement | undefined {
+    // role "name" [attr] [attr=value]: inline text
+    const match = entry.match(/^([a-z][\w-]*)(?:\s+"((?:[^"\\]|\\.)*)")?((?:\s*\[[^\]]*\])*)\s*(?::\s*(.*))?$/i);
+    if (!match) return undefined;
+
+    const [, role, name, attributes, inline] = match;
+    const element: SnapshotElement = {
+      role,
+      name: (name || '').replace(/\\"/g, '"'),
+      states: {},
+      props: {},
+      depth,
+      children: []
+    };
+
+    if (inline && inline.trim()) {
+      element.text = AccessibilitySnapshot.unquote(inline.trim());
+    }
+
+    for (const attribute of attributes.match(/\[[^\]]*\]/g) || []) {
+      const [key, value] = attribute.slice(1, -1).split('=');
+      switch (key) {
+        case 'ref':
+          element.ref = value;
+          break;
+        case 'level':
+          element.level = Number(value);
+          break;
+        case 'checked':
+        case 'pressed':
+          element.states[key] = value === 'mixed' ? 'mixed' : value !== 'false';
+          break;
+        case 'expanded':
+        case 'selected':
+        case 'disabled':
+        case 'active':
+          element.states[key] = value !== 'false';
+          break;
+      }
+    }
+
+    return element;
+  }
+
+  private static unquote(text: string): string {
+    if (text.length >= 2 && text.startsWith("'") && text.endsWith("'")) {
+      return text.slice(1, -1).replace(/''/g, "'");
+    }
+    if (text.length >= 2 && text.startsWith('"') && text.endsWith('"') && !text.slice(1, -1).includes('"')) {
+      return text.slice(1, -1);
+    }
+    return text;
+  }
+}
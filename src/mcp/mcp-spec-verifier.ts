@@ -0,0 +1,355 @@
+import { SpecVerification, StepVerification } from '../types';
+import { MicrosoftPlaywrightMCPClient } from './microsoft-playwright-mcp-client';
+import { AccessibilitySnapshot, SnapshotElement, StepIntent } from './accessibility-snapshot';
+
+interface LocatorDescriptor {
+  kind: 'css' | 'role' | 'text' | 'label' | 'placeholder' | 'testid';
+  value: string;
+  name?: string | RegExp;
+  // Source text of the locator call, e.g. getByRole('button', { name: 'Sign In' })
+  expression: string;
+}
+
+type StatementAction = 'goto' | 'click' | 'fill' | 'check' | 'hover' | 'assert' | 'page-object';
+
+interface ParsedStatement {
+  action: StatementAction;
+  locator?: LocatorDescriptor;
+  url?: string;
+  value?: string;
+  // Playwright call used with a CSS selector shortcut, e.g. page.fill('#email', 'x')
+  shortcut?: { method: string; args: string };
+  raw?: string;
+}
+
+const FILLABLE_ROLES = ['textbox', 'searchbox', 'combobox', 'spinbutton'];
+// Selector syntax that says nothing about which element a step means
+const SELECTOR_NOISE = new Set(['href', 'class', 'data', 'testid', 'type', 'name', 'aria', 'label', 'btn', 'div', 'span', 'first']);
+
+/**
+ * Drives the @playwright/mcp browser through the actions of a generated
+ * spec, checks each locator against the page's accessibility snapshot,
+ * swaps in locators that exist and reports the steps it could not verify.
+ */
+export class MCPSpecVerifier {
+  private client: MicrosoftPlaywrightMCPClient;
+
+  constructor(client: MicrosoftPlaywrightMCPClient) {
+    this.client = client;
+  }
+
+  async verify(specContent: string): Promise<{ content: string; verification: SpecVerification }> {
+    const lines = specContent.split('\n');
+    const steps: StepVerification[] = [];
+    let lastComment: string | undefined;
+    let commentUsed = false;
+
+    for (let i = 0; i < lines.length; i++) {
+      const trimmed = lines[i].trim();
+
+      // Every test starts from the homepage, like the generated specs do
+      if (/^test(\.only)?\(/.test(trimmed)) {
+        await this.client.navigate('/');
+        lastComment = undefined;
+        continue;
+      }
+
+      if (trimmed.startsWith('//')) {
+        // "// Step N: ..." comments name the step; TODO, MISSING BINDING, NO PAGE OBJECT and GENERATED BY LLM notes do not
+        const comment = trimmed.replace(/^\/\/\s*(Step \d+:\s*)?/, '');
+        if (!/^(TODO|MISSING BINDING|NO PAGE OBJECT|GENERATED BY LLM)\b/.test(comment)) {
+          lastComment = comment;
+          commentUsed = false;
+        }
+        continue;
+      }
+
+      const statement = this.parseStatement(trimmed);
+      if (!statement) continue;
+
+      // Only the first statement after a step comment is searched by that comment
+      const result = await this.verifyStatement(statement, commentUsed ? undefined : lastComment);
+      commentUsed = true;
+      const step: StepVerification = {
+        line: i + 1,
+        step: lastComment,
+        statement: trimmed,
+        ...result
+      };
+
+      if (result.status === 'replaced' && result.replacement) {
+        lines[i] = lines[i].replace(trimmed, result.replacement);
+      }
+
+      steps.push(step);
+    }
+
+    return {
+      content: lines.join('\n'),
+      verification: {
+        verified: steps.filter(s => s.status === 'verified').length,
+        replaced: steps.filter(s => s.status === 'replaced').length,
+        unverified: steps.filter(s => s.status === 'unverified').length,
+        steps
+      }
+    };
+  }
+
+  private async verifyStatement(
+    statement: ParsedStatement,
+    stepComment?: string
+  ): Promise<Pick<StepVerification, 'status' | 'replacement' | 'reason'>> {
+    if (statement.action === 'page-object') {
+      return { status: 'unverified', reason: 'Page object call is not driven through MCP' };
+    }
+
+    if (statement.action === 'goto') {
+      try {
+        await this.client.navigate(statement.url!);
+        return { status: 'verified' };
+      } catch (error) {
+        return { status: 'unverified', reason: `Navigation failed: ${this.errorMessage(error)}` };
+      }
+    }
+
+    const locator = statement.locator;
+    if (!locator) {
+      return { status: 'unverified', reason: 'Unsupported locator expression' };
+    }
+
+    const snapshot = AccessibilitySnapshot.parse(await this.client.snapshot());
+    const nodes = snapshot.elements();
+    const match = await this.resolve(locator, nodes);
+
+    // A selector the page could not evaluate (e.g. Playwright-only text= or >>) may still be right
+    if (match.unresolved) {
+      return { status: 'unverified', reason: match.unresolved };
+    }
+
+    if (match.found) {
+      const actionError = await this.perform(statement, match.node, locator);
+      return actionError
+        ? { status: 'unverified', reason: `Locator resolved but ${statement.action} failed: ${actionError}` }
+        : { status: 'verified' };
+    }
+
+    const candidate = this.findReplacement(statement, locator, stepComment, snapshot);
+    if (!candidate) {
+      return { status: 'unverified', reason: `No element on the page matches ${locator.expression}` };
+    }
+
+    const expression = candidate.expression;
+    const actionError = await this.perform(statement, candidate.element, locator);
+    if (actionError) {
+      return { status: 'unverified', reason: `Replacement ${expression} found but ${statement.action} failed: ${actionError}` };
+    }
+
+    return { status: 'replaced', replacement: this.rewrite(statement, expression), reason: `${locator.expression} not found on the page` };
+  }
+
+  /**
+   * Find the locator's element. unresolved says why the page could not
+   * evaluate the locator, which is not the same as it matching nothing.
+   */
+  private async resolve(locator: LocatorDescriptor, nodes: SnapshotElement[]): Promise<{ found: boolean; node?: SnapshotElement; unresolved?: string }> {
+    const matchesName = (text: string, expected?: string | RegExp) =>
+      expected === undefined ? true
+        : expected instanceof RegExp ? expected.test(text)
+          : text.toLowerCase().includes(expected.toLowerCase());
+
+    let node: SnapshotElement | undefined;
+    switch (locator.kind) {
+      case 'role':
+        node = nodes.find(n => n.role === locator.value && matchesName(n.name, locator.name));
+        break;
+      case 'text':
+        node = nodes.find(n => (n.name || n.text) && matchesName(n.name || n.text || '', locator.name ?? locator.value));
+        break;
+      case 'label':
+      case 'placeholder':
+        node = nodes.find(n => [...FILLABLE_ROLES, 'checkbox', 'radio'].includes(n.role) && matchesName(n.name, locator.name ?? locator.value));
+        break;
+      case 'testid':
+      case 'css': {
+        // Not part of the accessibility tree, so ask the page directly
+        const selector = locator.kind === 'testid' ? `[data-testid="${locator.value}"]` : locator.value;
+        let count: unknown;
+        try {
+          count = await this.client.evaluate(
+            `() => { try { return document.querySelectorAll(${JSON.stringify(selector)}).length; } catch (error) { return { invalid: String(error && error.message || error) }; } }`
+          );
+        } catch (error) {
+          return { found: false, unresolved: `Could not evaluate ${locator.expression}: ${this.errorMessage(error)}` };
+        }
+        if (typeof count !== 'number') {
+          const invalid = (count as { invalid?: string } | undefined)?.invalid;
+          return { found: false, unresolved: `${locator.expression} is not a CSS selector the page can evaluate${invalid ? ` (${invalid})` : ''}` };
+        }
+        return { found: count > 0 };
+      }
+    }
+
+    return { found: node !== undefined, node };
+  }
+
+  /**
+   * Run the action so later steps are checked against the right page state.
+   * Returns an error message when the action fails.
+   */
+  private async perform(statement: ParsedStatement, node: SnapshotElement | undefined, locator: LocatorDescriptor): Promise<string | undefined> {
+    if (statement.action === 'assert' || statement.action === 'hover') {
+      return undefined;
+    }
+
+    try {
+      if (node?.ref) {
+        if (statement.action === 'fill') {
+          await this.client.type(locator.expression, node.ref, statement.value || 'test');
+        } else {
+          await this.client.click(locator.expression, node.ref);
+        }
+        return undefined;
+      }
+
+      if (locator.kind !== 'css' && locator.kind !== 'testid') {
+        return 'element has no reference in the snapshot';
+      }
+
+      const selector = locator.kind === 'testid' ? `[data-testid="${locator.value}"]` : locator.value;
+      const script = statement.action === 'fill'
+        ? `() => { const el = document.querySelector(${JSON.stringify(selector)}); el.value = ${JSON.stringify(statement.value || 'test')}; el.dispatchEvent(new Event('input', { bubbles: true })); }`
+        : `() => { document.querySelector(${JSON.stringify(selector)}).click(); }`;
+      await this.client.evaluate(script);
+      return undefined;
+    } catch (error) {
+      return this.errorMessage(error);
+    }
+  }
+
+  private findReplacement(
+    statement: ParsedStatement,
+    locator: LocatorDescriptor,
+    stepComment: string | undefined,
+    snapshot: AccessibilitySnapshot
+  ) {
+    const intents: Partial<Record<StatementAction, StepIntent>> = { fill: 'fill', check: 'check', assert: 'assert' };
+    const selectorWords = [locator.value, typeof locator.name === 'string' ? locator.name : locator.name?.source || '']
+      .join(' ')
+      .split(/[^A-Za-z0-9]+/)
+      .filter(word => word.length > 2 && !SELECTOR_NOISE.has(word.toLowerCase()));
+
+    const [best] = snapshot.rankLocators(`${stepComment || ''} ${selectorWords.join(' ')}`, {
+      intent: intents[statement.action] || 'click',
+      limit: 1
+    });
+    return best;
+  }
+
+  private rewrite(statement: ParsedStatement, expression: string): string {
+    const original = statement.locator!.expression;
+
+    if (statement.shortcut) {
+      const { method, args } = statement.shortcut;
+      const value = method === 'fill' ? args.replace(/^\s*(['"`])(?:\\.|(?!\1).)*\1\s*,\s*/, '') : '';
+      return `await page.${expression}.${method}(${value});`;
+    }
+
+    return statement.action === 'assert'
+      ? `await expect(page.${expression}${this.afterExpression(statement, original)}`
+      : `await page.${expression}${this.afterExpression(statement, original)}`;
+  }
+
+  private afterExpression(statement: ParsedStatement, original: string): string {
+    // Everything after the original locator call, e.g. ".click();" or ").toBeVisible();"
+    const source = statement.action === 'assert' ? `expect(page.${original}` : `page.${original}`;
+    return statement.raw!.slice(statement.raw!.indexOf(source) + source.length);
+  }
+
+  private parseStatement(line: string): ParsedStatement | undefined {
+    if (!line.startsWith('await ')) return undefined;
+
+    const goto = line.match(/^await page\.goto\((['"`])(.+?)\1/);
+    if (goto) {
+      return { action: 'goto', url: goto[2] };
+    }
+
+    const shortcut = line.match(/^await page\.(click|fill|check|hover|dblclick)\((['"`])((?:\\.|(?!\2).)*)\2(.*)\);?$/);
+    if (shortcut) {
+      const [, method, quote, selector, rest] = shortcut;
+      return {
+        action: method === 'dblclick' ? 'click' : method as StatementAction,
+        locator: { kind: 'css', value: selector, expression: `locator(${quote}${selector}${quote})` },
+        value: this.literal(rest.replace(/^\s*,\s*/, '')),
+        shortcut: { method, args: `${quote}${selector}${quote}${rest}` },
+        raw: line
+      };
+    }
+
+    const assertion = line.match(/^await expect\(page\.(.+?)\)\.(not\.)?to\w+\(/);
+    if (assertion) {
+      const locator = this.parseLocator(assertion[1]);
+      return locator ? { action: 'assert', locator, raw: line } : undefined;
+    }
+
+    const action = line.match(/^await page\.(.+)\.(click|fill|check|hover|dblclick)\((.*)\);?$/);
+    if (action) {
+      const locator = this.parseLocator(action[1]);
+      return {
+        action: action[2] === 'dblclick' ? 'click' : action[2] as StatementAction,
+        locator,
+        value: this.literal(action[3]),
+        raw: line
+      };
+    }
+
+    const pageObject = line.match(/^(?:await |expect\(await )(?:expect\()?(\w+)\.\w+/);
+    if (pageObject && !['page', 'expect', 'visualHelper', 'test', 'apiMocks'].includes(pageObject[1])) {
+      return { action: 'page-object' };
+    }
+
+    return undefined;
+  }
+
+  private parseLocator(expression: string): LocatorDescriptor | undefined {
+    const match = expression.match(/^(locator|getByRole|getByText|getByLabel|getByPlaceholder|getByTestId)\((.*)\)(?:\.first\(\)|\.last\(\)|\.nth\(\d+\))?$/);
+    if (!match) return undefined;
+
+    const [, method, args] = match;
+    const first = this.literal(args) ?? this.regexLiteral(args);
+    if (first === undefined) return undefined;
+
+    const nameLiteral = args.match(/name:\s*(['"`])((?:\\.|(?!\1).)*)\1/);
+    const nameRegex = args.match(/name:\s*\/((?:\\.|[^/])+)\/(\w*)/);
+    const name = nameLiteral ? nameLiteral[2] : nameRegex ? new RegExp(nameRegex[1], nameRegex[2]) : undefined;
+
+    const kinds: Record<string, LocatorDescriptor['kind']> = {
+      locator: 'css',
+      getByRole: 'role',
+      getByText: 'text',
+      getByLabel: 'label',
+      getByPlaceholder: 'placeholder',
+      getByTestId: 'testid'
+    };
+
+    return {
+      kind: kinds[method],
+      value: typeof first === 'string' ? first : first.source,
+      name: typeof first === 'string' ? name : name ?? first,
+      expression
+    };
+  }
+
+  private literal(text: string): string | undefined {
+    const match = text.trim().match(/^(['"`])((?:\\.|(?!\1).)*)\1/);
+    return match ? match[2].replace(/\\(.)/g, '$1') : undefined;
+  }
+
+  private regexLiteral(text: string): RegExp | undefined {
+    const match = text.trim().match(/^\/((?:\\.|[^/])+)\/(\w*)/);
+    return match ? new RegExp(match[1], match[2]) : undefined;
+  }
+
+  private errorMessage(error: unknown): string {
+    return (error instanceof Error ? error.message : String(error)).split('\n')[0];
+  }
+}
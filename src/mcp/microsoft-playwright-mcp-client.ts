@@ -1,6 +1,11 @@
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
 import { PlaywrightMCPConfig, defaultMCPConfig } from './playwright-mcp-config';
+import { AccessibilitySnapshot, LocatorCandidate, RankOptions, SnapshotElement, StepIntent } from './accessibility-snapshot';
+import { SpecBlock, SpecEmitter } from '../codegen/spec-emitter';
+import { TestDataResolver } from '../codegen/test-data-resolver';
+import { TestPlanBuilder } from '../codegen/test-plan-builder';
+import { quote } from '../codegen/quoting';
 
 /**
  * Microsoft Playwright MCP Client Integration
@@ -31,7 +36,8 @@ export class MicrosoftPlaywrightMCPClient {
       const transport = new StdioClientTransport({
         command: 'npx',
         args: ['@playwright/mcp'],
-        env: process.env
+        // The transport takes only defined variables
+        env: Object.fromEntries(Object.entries(process.env).filter((entry): entry is [string, string] => entry[1] !== undefined))
       });
 
       // Create MCP client
@@ -85,21 +91,11 @@ export class MicrosoftPlaywrightMCPClient {
       console.log('Generating test with Microsoft Playwright MCP server...');
       
       // Start a browser session via MCP
-      await this.client!.callTool({
-        name: 'browser_navigate',
-        arguments: {
-          url: 'https://www.experian.com'
-        }
-      });
+      await this.navigate('/');
 
-      // Take a snapshot to understand the page structure
-      const snapshot = await this.client!.callTool({
-        name: 'browser_snapshot',
-        arguments: {}
-      });
-
-      // Generate test based on scenario and real page structure
-      const testCode = this.generateTestFromSnapshot(scenario, snapshot);
+      // Walk the scenario steps against the live accessibility tree
+      const stepBlocks = await this.generateScenarioStepsFromSnapshot(scenario);
+      const testCode = this.generateTestFromSnapshot(scenario, stepBlocks);
       
       // Validate the generated test
       const validatedCode = await this.validateTestWithMCP(testCode);
@@ -115,138 +111,130 @@ export class MicrosoftPlaywrightMCPClient {
   /**
    * Generate test from MCP snapshot data
    */
-  private generateTestFromSnapshot(scenario: any, snapshot: any): string {
-    const snapshotContent = snapshot.content?.[0]?.text || '';
+  private generateTestFromSnapshot(scenario: any, stepBlocks: SpecBlock[]): string {
+    const [first, ...rest] = stepBlocks;
+    const steps = first
+      ? [{ ...first, comments: ['When/Then: Scenario steps grounded in the page\'s accessibility tree', ...first.comments] }, ...rest]
+      : [];
+    return this.emitVisualTest(scenario, steps);
+  }
+
+  /**
+   * Spec with the visual helpers around the given step blocks, starting
+   * from the homepage
+   */
+  private emitVisualTest(scenario: any, steps: SpecBlock[]): string {
     const testName = scenario.title || 'Generated Test';
-    
-    // Extract elements from snapshot for more accurate selectors
-    const elements = this.extractElementsFromSnapshot(snapshotContent);
-    
-    return `import { test, expect } from '@playwright/test';
-import { HomePage, SignInPage, DashboardPage } from '@pages';
-import { VisualTestHelper } from '@utils/visual-helpers';
-
-test.describe('${testName}', () => {
-  test('${scenario.description || testName}', async ({ page }) => {
-    // Initialize visual helpers
-    const visualHelper = new VisualTestHelper(page);
-    await visualHelper.initializeVisualEnhancements();
-    
-    const homePage = new HomePage(page);
-
-    // Given: User navigates to homepage
-    await visualHelper.logStep('Navigating to Experian homepage', 'NAVIGATE');
-    await homePage.goto();
-    await visualHelper.takeStepScreenshot('homepage-loaded');
-
-    // When: User performs the main action
-    await visualHelper.logStep('Performing main test action', 'ACTION');
-    ${this.generateScenarioStepsFromSnapshot(scenario, elements)}
-
-    // Then: Verify expected outcome
-    await visualHelper.logStep('Verifying test results', 'SUCCESS');
-    await visualHelper.showResult(true, 'Test completed successfully');
-  });
-});`;
+
+    return new SpecEmitter(['HomePage']).emit({
+      title: testName,
+      tests: [{
+        title: scenario.description || testName,
+        blocks: [
+          {
+            comments: ['Initialize visual helpers'],
+            code: ['const visualHelper = new VisualTestHelper(page);', 'await visualHelper.initializeVisualEnhancements();']
+          },
+          { comments: [], code: ['const homePage = new HomePage(page);'] },
+          {
+            comments: ['Given: User navigates to homepage'],
+            code: [
+              "await visualHelper.logStep('Navigating to Experian homepage', 'NAVIGATE');",
+              'await homePage.goto();',
+              "await visualHelper.takeStepScreenshot('homepage-loaded');"
+            ]
+          },
+          ...steps,
+          { comments: [], code: ["await visualHelper.showResult(true, 'Test completed successfully');"] }
+        ]
+      }]
+    });
   }
 
   /**
-   * Extract interactive elements from MCP snapshot
+   * Parse a browser_snapshot response into its elements (roles, names,
+   * nesting, refs and states)
    */
-  private extractElementsFromSnapshot(snapshotContent: string): Array<{type: string, text: string, ref: string}> {
-    const elements: Array<{type: string, text: string, ref: string}> = [];
-    
-    // Parse snapshot content for interactive elements
-    const lines = snapshotContent.split('\n');
-    
-    for (const line of lines) {
-      // Look for buttons, links, inputs
-      if (line.includes('- button ') || line.includes('- link ') || line.includes('- textbox ')) {
-        const match = line.match(/- (\w+) "([^"]+)"/);
-        if (match) {
-          const [, type, text] = match;
-          elements.push({
-            type,
-            text,
-            ref: `${type}_${text.replace(/\s+/g, '_').toLowerCase()}`
-          });
-        }
-      }
-    }
-    
-    return elements;
+  extractElementsFromSnapshot(snapshotContent: string): SnapshotElement[] {
+    return AccessibilitySnapshot.parse(snapshotContent).elements();
   }
 
   /**
-   * Generate scenario-specific steps using real elements from snapshot
+   * Rank getByRole/getByLabel/getByText locators on the current page for a
+   * natural-language step, e.g. "click the Credit dropdown"
    */
-  private generateScenarioStepsFromSnapshot(scenario: any, elements: Array<{type: string, text: string, ref: string}>): string {
-    const title = scenario.title?.toLowerCase() || '';
-    
-    if (title.includes('credit score')) {
-      const creditElements = elements.filter(el => 
-        el.text.toLowerCase().includes('credit') || 
-        el.text.toLowerCase().includes('score')
-      );
-      
-      if (creditElements.length > 0) {
-        const element = creditElements[0];
-        return `
-    // Click on credit score related element found by MCP
-    await page.getByRole('${element.type}', { name: '${element.text}' }).click();
-    await visualHelper.takeStepScreenshot('credit-score-clicked');
-    
-    // Verify credit score section is visible
-    await expect(page.getByText('Credit Score')).toBeVisible();`;
+  async locateStep(step: string, options: RankOptions = {}): Promise<LocatorCandidate[]> {
+    return AccessibilitySnapshot.parse(await this.snapshot()).rankLocators(step, options);
+  }
+
+  /**
+   * Generate code for each scenario step from the best-ranked locator on the
+   * current page, performing the action so later steps see the next page state
+   */
+  private async generateScenarioStepsFromSnapshot(scenario: any): Promise<SpecBlock[]> {
+    const blocks: SpecBlock[] = [];
+    const testData = new TestDataResolver(scenario.type || 'positive');
+
+    for (const step of (scenario.steps || []) as string[]) {
+      const comments = [step];
+      const intent = AccessibilitySnapshot.detectIntent(step);
+
+      if (intent === 'navigate') {
+        const path = TestPlanBuilder.pathIn(step);
+        if (!path) {
+          blocks.push({ comments: [...comments, 'MISSING BINDING: No URL in this navigation step', 'TODO: Name the path in the step or add a page object for it'], code: [] });
+          continue;
+        }
+        blocks.push({ comments, code: [`await page.goto(${quote(path)});`] });
+        try {
+          await this.navigate(path);
+        } catch (error) {
+          console.warn(`MCP could not navigate to ${path}:`, error instanceof Error ? error.message : error);
+        }
+        continue;
       }
-    }
-    
-    if (title.includes('sign in') || title.includes('login')) {
-      const signInElements = elements.filter(el => 
-        el.text.toLowerCase().includes('sign in') || 
-        el.text.toLowerCase().includes('log in')
-      );
-      
-      if (signInElements.length > 0) {
-        const element = signInElements[0];
-        return `
-    // Click on sign in element found by MCP
-    await page.getByRole('${element.type}', { name: '${element.text}' }).click();
-    await visualHelper.takeStepScreenshot('signin-clicked');
-    
-    // Fill login form
-    await page.getByRole('textbox', { name: /email/i }).fill(testUser.username);
-    await page.getByRole('textbox', { name: /password/i }).fill(testUser.password);
-    await page.getByRole('button', { name: /sign in/i }).click();`;
+
+      const [best] = await this.locateStep(step, { intent, limit: 1 });
+      if (!best) {
+        blocks.push({ comments: [...comments, 'TODO: No element in the page snapshot matches this step'], code: [] });
+        continue;
       }
+
+      const locator = `page.${best.expression}`;
+      const data = intent === 'fill' ? testData.reference(best.element.name, step) : undefined;
+      switch (intent) {
+        case 'fill':
+          blocks.push({ comments, code: [`await ${locator}.fill(${data});`] });
+          break;
+        case 'check':
+          blocks.push({ comments, code: [`await ${locator}.check();`] });
+          break;
+        case 'click':
+          blocks.push({ comments, code: [`await ${locator}.click();`] });
+          break;
+        default:
+          blocks.push({ comments, code: [`await expect(${locator}).toBeVisible();`] });
+      }
+
+      await this.performOnElement(intent, best, data);
     }
-    
-    if (title.includes('credit freeze')) {
-      const freezeElements = elements.filter(el => 
-        el.text.toLowerCase().includes('freeze') || 
-        el.text.toLowerCase().includes('security')
-      );
-      
-      if (freezeElements.length > 0) {
-        const element = freezeElements[0];
-        return `
-    // Click on credit freeze element found by MCP
-    await page.getByRole('${element.type}', { name: '${element.text}' }).click();
-    await visualHelper.takeStepScreenshot('credit-freeze-clicked');
-    
-    // Verify credit freeze information is displayed
-    await expect(page.getByText(/freeze/i)).toBeVisible();`;
+
+    return blocks;
+  }
+
+  private async performOnElement(intent: StepIntent, candidate: LocatorCandidate, data?: string): Promise<void> {
+    const ref = candidate.element.ref;
+    if (!ref || intent === 'assert') return;
+
+    try {
+      if (intent === 'fill') {
+        await this.type(candidate.expression, ref, TestDataResolver.value(data!));
+      } else {
+        await this.click(candidate.expression, ref);
       }
+    } catch (error) {
+      console.warn(`MCP could not ${intent} ${candidate.expression}:`, error instanceof Error ? error.message : error);
     }
-    
-    // Generic fallback
-    return `
-    // Wait for page to be fully loaded
-    await page.waitForLoadState('networkidle');
-    await visualHelper.takeStepScreenshot('page-ready');
-    
-    // Verify page title contains expected content
-    await expect(page).toHaveTitle(/Experian/i);`;
   }
 
   /**
@@ -280,37 +268,80 @@ test.describe('${testName}', () => {
    */
   private async generateWithFallbackValidation(scenario: any): Promise<string> {
     console.log('Using fallback test generation...');
-    
-    const testName = scenario.title || 'Generated Test';
-    
-    return `import { test, expect } from '@playwright/test';
-import { HomePage, SignInPage, DashboardPage } from '@pages';
-import { VisualTestHelper } from '@utils/visual-helpers';
-
-test.describe('${testName}', () => {
-  test('${scenario.description || testName}', async ({ page }) => {
-    // Initialize visual helpers
-    const visualHelper = new VisualTestHelper(page);
-    await visualHelper.initializeVisualEnhancements();
-    
-    const homePage = new HomePage(page);
-
-    // Given: User navigates to homepage
-    await visualHelper.logStep('Navigating to Experian homepage', 'NAVIGATE');
-    await homePage.goto();
-    await visualHelper.takeStepScreenshot('homepage-loaded');
-
-    // When: User performs the main action
-    await visualHelper.logStep('Performing main test action', 'ACTION');
-    await page.waitForLoadState('networkidle');
-    await visualHelper.takeStepScreenshot('page-ready');
-
-    // Then: Verify expected outcome
-    await visualHelper.logStep('Verifying test results', 'SUCCESS');
-    await expect(page).toHaveTitle(/Experian/i);
-    await visualHelper.showResult(true, 'Test completed successfully');
-  });
-});`;
+
+    return this.emitVisualTest(scenario, [
+      {
+        comments: ['When: User performs the main action'],
+        code: [
+          "await visualHelper.logStep('Performing main test action', 'ACTION');",
+          "await page.waitForLoadState('networkidle');",
+          "await visualHelper.takeStepScreenshot('page-ready');"
+        ]
+      },
+      {
+        comments: ['Then: Verify expected outcome'],
+        code: [
+          "await visualHelper.logStep('Verifying test results', 'SUCCESS');",
+          'await expect(page).toHaveTitle(/Experian/i);'
+        ]
+      }
+    ]);
+  }
+
+  /**
+   * Whether browser tools can be called on the MCP server
+   */
+  isReady(): boolean {
+    return this.isConnected && this.client !== null;
+  }
+
+  /**
+   * Navigate the MCP browser; relative paths resolve against the configured base URL
+   */
+  async navigate(url: string): Promise<string> {
+    return this.callBrowserTool('browser_navigate', { url: new URL(url, this.config.baseUrl).toString() });
+  }
+
+  /**
+   * Accessibility snapshot of the current page (the YAML block plus page URL/title)
+   */
+  async snapshot(): Promise<string> {
+    return this.callBrowserTool('browser_snapshot', {});
+  }
+
+  async click(element: string, ref: string): Promise<string> {
+    return this.callBrowserTool('browser_click', { element, ref });
+  }
+
+  async type(element: string, ref: string, text: string): Promise<string> {
+    return this.callBrowserTool('browser_type', { element, ref, text });
+  }
+
+  /**
+   * Evaluate a function source in the page and return its JSON result
+   */
+  async evaluate(fn: string): Promise<unknown> {
+    const text = await this.callBrowserTool('browser_evaluate', { function: fn });
+    const result = text.match(/### Result\s*\n([\s\S]*?)(?:\n###|$)/);
+    if (!result || result[1].trim() === 'undefined') {
+      return undefined;
+    }
+    return JSON.parse(result[1].trim());
+  }
+
+  private async callBrowserTool(name: string, args: Record<string, unknown>): Promise<string> {
+    if (!this.isReady()) {
+      throw new Error('Playwright MCP server is not connected');
+    }
+
+    const response = await this.client!.callTool({ name, arguments: args });
+    const content = (response.content as Array<{ type: string; text?: string }> | undefined) || [];
+    const text = content.filter(part => part.type === 'text').map(part => part.text).join('\n');
+
+    if (response.isError) {
+      throw new Error(`${name} failed: ${text}`);
+    }
+    return text;
   }
 
   /**
@@ -7,6 +7,7 @@ export interface PlaywrightMCPConfig {
   enabled: boolean;
   endpoint?: string;
   apiKey?: string;
+  baseUrl: string;
   features: {
     syntaxValidation: boolean;
     selectorValidation: boolean;
@@ -19,6 +20,7 @@ export const defaultMCPConfig: PlaywrightMCPConfig = {
   enabled: process.env.PLAYWRIGHT_MCP_ENABLED !== 'false', // Default to true unless explicitly disabled
   endpoint: process.env.PLAYWRIGHT_MCP_ENDPOINT || 'stdio://@playwright/mcp',
   apiKey: process.env.PLAYWRIGHT_MCP_API_KEY || 'not_required',
+  baseUrl: process.env.BASE_URL || 'https://www.experian.com',
   features: {
     syntaxValidation: true,
     selectorValidation: true,
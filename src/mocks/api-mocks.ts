@@ -0,0 +1,110 @@
+import { Page, Route } from '@playwright/test';
+
+// How a mocked endpoint answers
+export type ApiMockMode = 'success' | 'server_error' | 'unauthorized' | 'timeout' | 'slow';
+
+export const MOCK_RESPONSES: Record<Exclude<ApiMockMode, 'timeout'>, { status: number; body: unknown }> = {
+  success: { status: 200, body: { success: true } },
+  server_error: { status: 500, body: { error: 'Internal Server Error' } },
+  unauthorized: { status: 401, body: { error: 'Unauthorized', message: 'Session expired, please sign in again' } },
+  // Slow responses succeed, only late
+  slow: { status: 200, body: { success: true } }
+};
+
+export const DEFAULT_SLOW_DELAY_MS = 3000;
+
+/**
+ * Split a knowledge base endpoint ("POST /api/v1/auth/login") into method
+ * and path. "*" matches any method and "/api/**" any path under /api.
+ */
+export function parseEndpoint(endpoint: string): { method: string; path: string } {
+  const match = endpoint.trim().match(/^([A-Z]+|\*)\s+(\/\S*)$/);
+  if (!match) {
+    throw new Error(`Not an endpoint (expected "METHOD /path"): ${endpoint}`);
+  }
+  return { method: match[1], path: match[2] };
+}
+
+/**
+ * Pattern for the whole URL path: {param} matches one segment and a
+ * trailing /** anything below
+ */
+export function pathPattern(endpointPath: string): RegExp {
+  const pattern = endpointPath
+    .split(/(\{[^}]+\}|\/\*\*)/)
+    .map(part => part === '/**' ? '(?:/.*)?' : /^\{[^}]+\}$/.test(part) ? '[^/]+' : part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('');
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Reusable page.route mocks for knowledge base endpoints, so specs can
+ * simulate server errors, expired sessions, timeouts and slow responses
+ */
+export class ApiMocks {
+  constructor(private page: Page) {}
+
+  async success(endpoint: string, body: unknown = MOCK_RESPONSES.success.body): Promise<void> {
+    await this.fulfill(endpoint, MOCK_RESPONSES.success.status, body);
+  }
+
+  async serverError(endpoint: string, body: unknown = MOCK_RESPONSES.server_error.body): Promise<void> {
+    await this.fulfill(endpoint, MOCK_RESPONSES.server_error.status, body);
+  }
+
+  async unauthorized(endpoint: string, body: unknown = MOCK_RESPONSES.unauthorized.body): Promise<void> {
+    await this.fulfill(endpoint, MOCK_RESPONSES.unauthorized.status, body);
+  }
+
+  /**
+   * The request fails the way a network timeout does
+   */
+  async timeout(endpoint: string): Promise<void> {
+    await this.intercept(endpoint, route => route.abort('timedout'));
+  }
+
+  /**
+   * The request reaches the server after a delay
+   */
+  async slow(endpoint: string, delayMs: number = DEFAULT_SLOW_DELAY_MS): Promise<void> {
+    await this.intercept(endpoint, async route => {
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+      await route.continue();
+    });
+  }
+
+  /**
+   * Answer matching requests from a HAR file (see tests/generated/mocks)
+   */
+  async replayHar(harFile: string, url: string | RegExp = '**/api/**'): Promise<void> {
+    await this.page.routeFromHAR(harFile, { url, notFound: 'fallback' });
+  }
+
+  /**
+   * Remove every mock set up through this instance's page
+   */
+  async reset(): Promise<void> {
+    await this.page.unrouteAll({ behavior: 'ignoreErrors' });
+  }
+
+  private async fulfill(endpoint: string, status: number, body: unknown): Promise<void> {
+    await this.intercept(endpoint, route => route.fulfill({
+      status,
+      contentType: 'application/json',
+      body: JSON.stringify(body)
+    }));
+  }
+
+  private async intercept(endpoint: string, handler: (route: Route) => Promise<void>): Promise<void> {
+    const { method, path } = parseEndpoint(endpoint);
+    const pattern = pathPattern(path);
+
+    await this.page.route(url => pattern.test(url.pathname), async route => {
+      if (method !== '*' && route.request().method() !== method) {
+        await route.fallback();
+        return;
+      }
+      await handler(route);
+    });
+  }
+}
@@ -0,0 +1,2 @@
+// Network mocks for generated specs: import { ApiMocks } from '@mocks'
+export * from './api-mocks';
@@ -35,7 +35,7 @@ export class DashboardPage extends BasePage {
   readonly accountMenuItem: Locator;
 
   constructor(page: Page) {
-    super(page, 'https://www.experian.com/dashboard');
+    super(page, '/dashboard');
     
     // Header elements
     this.userMenu = page.locator('.user-menu, .account-menu, [data-testid="user-menu"], .profile-dropdown');; // Enhanced: User account menu dropdown (confidence: 80%)
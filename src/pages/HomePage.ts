@@ -21,7 +21,7 @@ export class HomePage extends BasePage {
   readonly startFreeTrialButton: Locator;
 
   constructor(page: Page) {
-    super(page, 'https://www.experian.com');
+    super(page, '/');
     
     // Header navigation
     this.signInLink = page.locator('a[href*="login"], a[href*="signin"], text="Sign In", text="Log In"');; // Enhanced: Main sign-in navigation link (confidence: 90%)
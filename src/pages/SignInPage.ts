@@ -24,7 +24,7 @@ export class SignInPage extends BasePage {
   readonly submitButton: Locator;
 
   constructor(page: Page) {
-    super(page, 'https://www.experian.com/login');
+    super(page, '/login');
     
     // Form elements
     this.emailInput = page.locator('input[type="email"], input[name*="email"], input[placeholder*="email"]');; // Enhanced: Email input field (confidence: 95%)
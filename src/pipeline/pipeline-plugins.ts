@@ -0,0 +1,94 @@
+import * as path from 'path';
+import { LangChainClient } from '../llm/langchain-client';
+import { PlaywrightTest, TestScenario, UserStory, ValidatedScenario } from '../types';
+import { sessionTimeoutChecks } from './plugins/session-timeout-checks';
+
+export interface PluginContext {
+  story: UserStory;
+  outputDir: string;
+  // The pipeline's LLM client, for plugins that are agents themselves
+  llmClient: LangChainClient;
+}
+
+/**
+ * Transforms a stage's output; returning nothing keeps it as it is
+ */
+export type PluginTransform<T> = (items: T, context: PluginContext) => T | void | Promise<T | void>;
+
+/**
+ * Extra stage between the built-in agents. Each method runs after the
+ * named stage, on its output, before the next agent sees it.
+ */
+export interface PipelinePlugin {
+  name: string;
+  // After Agent A, before Agent B validates
+  afterScenarios?: PluginTransform<TestScenario[]>;
+  // After Agent B, before the confidence gate and Agent C
+  afterValidate?: PluginTransform<ValidatedScenario[]>;
+  // After Agent C, before the specs are written and executed
+  afterGenerate?: PluginTransform<PlaywrightTest[]>;
+}
+
+interface PluginItems {
+  afterScenarios: TestScenario[];
+  afterValidate: ValidatedScenario[];
+  afterGenerate: PlaywrightTest[];
+}
+
+// Plugins that ship with the generator, enabled by name in PIPELINE_PLUGINS
+const BUILT_IN_PLUGINS: Record<string, PipelinePlugin> = {
+  [sessionTimeoutChecks.name]: sessionTimeoutChecks
+};
+
+/**
+ * The plugins of a project, run in the order they are listed
+ */
+export class PipelinePlugins {
+  constructor(private plugins: PipelinePlugin[] = []) {}
+
+  /**
+   * Plugins named in PIPELINE_PLUGINS: comma-separated built-in names or
+   * module paths (relative to the working directory) whose default export
+   * is a plugin or a function returning one
+   */
+  static load(list: string | undefined = process.env.PIPELINE_PLUGINS): PipelinePlugins {
+    const specs = (list || '').split(',').map(spec => spec.trim()).filter(Boolean);
+    return new PipelinePlugins(specs.map(spec => PipelinePlugins.resolve(spec)));
+  }
+
+  names(): string[] {
+    return this.plugins.map(plugin => plugin.name);
+  }
+
+  async run<K extends keyof PluginItems>(point: K, items: PluginItems[K], context: PluginContext): Promise<PluginItems[K]> {
+    let current = items;
+
+    for (const plugin of this.plugins) {
+      const transform = plugin[point] as PluginTransform<PluginItems[K]> | undefined;
+      if (!transform) continue;
+
+      try {
+        current = (await transform.call(plugin, current, context)) || current;
+      } catch (error) {
+        throw new Error(`Pipeline plugin ${plugin.name} failed in ${point}: ${error instanceof Error ? error.message : error}`);
+      }
+      console.log(`Plugin ${plugin.name} (${point}): ${current.length} item(s)`);
+    }
+    return current;
+  }
+
+  private static resolve(spec: string): PipelinePlugin {
+    if (BUILT_IN_PLUGINS[spec]) {
+      return BUILT_IN_PLUGINS[spec];
+    }
+
+    const loaded = require(path.resolve(process.cwd(), spec));
+    const exported = loaded.default ?? loaded;
+    const plugin: PipelinePlugin = typeof exported === 'function' ? exported() : exported;
+
+    if (!plugin || typeof plugin.name !== 'string') {
+      throw new Error(`Pipeline plugin ${spec} does not export a plugin with a name (built-in plugins: ${Object.keys(BUILT_IN_PLUGINS).join(', ')})`);
+    }
+    return plugin;
+  }
+}
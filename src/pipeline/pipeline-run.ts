@@ -0,0 +1,161 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PlaywrightTest, TestScenario, UserStory, ValidatedScenario } from '../types';
+import { ConfidenceGateReport } from '../validation/confidence-gate';
+import { ExecutionReport } from '../execution/execute-and-repair';
+import { EngineerReviewReport } from '../agents/analysis-agent-g';
+
+// In pipeline order: Agent A, Agent B, Agent C, execute-and-repair, Agent G
+export const PIPELINE_STAGES = ['scenarios', 'validate', 'generate', 'repair', 'analyze'] as const;
+
+export type PipelineStage = typeof PIPELINE_STAGES[number];
+
+/**
+ * What each stage leaves in the run directory
+ */
+export interface StageArtifacts {
+  scenarios: TestScenario[];
+  validate: ValidatedScenario[];
+  // Agent C's code as generated, after the confidence gate
+  generate: { confidence_gate: ConfidenceGateReport; tests: PlaywrightTest[] };
+  // The same tests after execute-and-repair (unchanged when it is off)
+  repair: { execution: ExecutionReport | null; tests: PlaywrightTest[] };
+  analyze: EngineerReviewReport | null;
+}
+
+const ARTIFACT_FILES: Record<PipelineStage, string> = {
+  scenarios: 'scenarios.json',
+  validate: 'validated-scenarios.json',
+  generate: 'tests.raw.json',
+  repair: 'tests.fixed.json',
+  analyze: 'analysis.json'
+};
+
+interface RunManifest {
+  story?: UserStory;
+  stages: Partial<Record<PipelineStage, { completed_at: string; file: string }>>;
+}
+
+/**
+ * Run directory holding each stage's output, so a run can stop after any
+ * stage and resume from any later one (PIPELINE_FROM_STAGE/PIPELINE_TO_STAGE,
+ * or --from-stage/--to-stage). Artifacts are plain JSON and can be edited
+ * by hand before resuming.
+ */
+export class PipelineRun {
+  readonly runDir: string;
+  readonly from: PipelineStage;
+  readonly to: PipelineStage;
+  // false keeps outputs in memory only: save() and saveStory() write nothing
+  private persist: boolean;
+
+  constructor(outputDir: string, options: { from?: string; to?: string; persist?: boolean } = {}) {
+    this.runDir = path.join(outputDir, 'run');
+    this.persist = options.persist ?? true;
+    this.from = PipelineRun.parseStage(options.from ?? process.env.PIPELINE_FROM_STAGE, PIPELINE_STAGES[0]);
+    this.to = PipelineRun.parseStage(options.to ?? process.env.PIPELINE_TO_STAGE, PIPELINE_STAGES[PIPELINE_STAGES.length - 1]);
+
+    if (PipelineRun.order(this.from) > PipelineRun.order(this.to)) {
+      throw new Error(`--from-stage ${this.from} comes after --to-stage ${this.to}`);
+    }
+  }
+
+  /**
+   * Whether this run executes the stage, rather than reading its artifact
+   */
+  runs(stage: PipelineStage): boolean {
+    return PipelineRun.order(stage) >= PipelineRun.order(this.from) && PipelineRun.order(stage) <= PipelineRun.order(this.to);
+  }
+
+  /**
+   * Whether the run stops before reaching the stage
+   */
+  stopsBefore(stage: PipelineStage): boolean {
+    return PipelineRun.order(stage) > PipelineRun.order(this.to);
+  }
+
+  /**
+   * Stage to pass to --from-stage to continue after this run
+   */
+  nextStage(): PipelineStage | undefined {
+    return PIPELINE_STAGES[PipelineRun.order(this.to) + 1];
+  }
+
+  artifactPath(stage: PipelineStage): string {
+    return path.join(this.runDir, ARTIFACT_FILES[stage]);
+  }
+
+  /**
+   * Write a stage's output. Artifacts of later stages were built from the
+   * old output, so they are removed.
+   */
+  save<S extends PipelineStage>(stage: S, artifact: StageArtifacts[S]): void {
+    if (!this.persist) {
+      return;
+    }
+    fs.mkdirSync(this.runDir, { recursive: true });
+    fs.writeFileSync(this.artifactPath(stage), JSON.stringify(artifact, null, 2));
+
+    const manifest = this.readManifest();
+    for (const later of PIPELINE_STAGES.slice(PipelineRun.order(stage) + 1)) {
+      fs.rmSync(this.artifactPath(later), { force: true });
+      delete manifest.stages[later];
+    }
+    manifest.stages[stage] = { completed_at: new Date().toISOString(), file: ARTIFACT_FILES[stage] };
+    this.writeManifest(manifest);
+    console.log(`Pipeline: saved ${stage} output to ${path.relative(process.cwd(), this.artifactPath(stage))}`);
+  }
+
+  /**
+   * Read the output a previous run left for a stage this run skips
+   */
+  load<S extends PipelineStage>(stage: S): StageArtifacts[S] {
+    const file = this.artifactPath(stage);
+    if (!fs.existsSync(file)) {
+      throw new Error(`Cannot start from ${this.from}: ${path.relative(process.cwd(), file)} is missing, run the ${stage} stage first`);
+    }
+    console.log(`Pipeline: loaded ${stage} output from ${path.relative(process.cwd(), file)}`);
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as StageArtifacts[S];
+  }
+
+  /**
+   * Record the story a run generates from, so a resumed run can reuse it
+   */
+  saveStory(story: UserStory): void {
+    if (!this.persist) {
+      return;
+    }
+    fs.mkdirSync(this.runDir, { recursive: true });
+    this.writeManifest({ ...this.readManifest(), story });
+  }
+
+  loadStory(): UserStory | undefined {
+    return this.readManifest().story;
+  }
+
+  private readManifest(): RunManifest {
+    const file = path.join(this.runDir, 'run.json');
+    if (!fs.existsSync(file)) {
+      return { stages: {} };
+    }
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as RunManifest;
+  }
+
+  private writeManifest(manifest: RunManifest): void {
+    fs.writeFileSync(path.join(this.runDir, 'run.json'), JSON.stringify(manifest, null, 2));
+  }
+
+  private static parseStage(value: string | undefined, fallback: PipelineStage): PipelineStage {
+    if (!value) {
+      return fallback;
+    }
+    if (!PIPELINE_STAGES.includes(value as PipelineStage)) {
+      throw new Error(`Unknown pipeline stage: ${value} (use ${PIPELINE_STAGES.join(', ')})`);
+    }
+    return value as PipelineStage;
+  }
+
+  private static order(stage: PipelineStage): number {
+    return PIPELINE_STAGES.indexOf(stage);
+  }
+}
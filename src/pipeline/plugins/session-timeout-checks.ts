@@ -0,0 +1,48 @@
+import { TestScenario } from '../../types';
+import type { PipelinePlugin } from '../pipeline-plugins';
+
+// Scenarios that need a signed-in user
+const AUTHENTICATED = /\b(sign(s|ed)? in|log(s|ged)? in|login|dashboard|my account|credit report|profile)\b/i;
+const SUFFIX = ' (session timeout)';
+// The step that signs the user in; the session expires right after it
+const SIGN_IN_STEP = /\b(clicks?|submits?|press(es)?|taps?)\b.*\b(sign in|log in|login)\b|\b(signs|logs) in\b/i;
+// Compiled into the 401 mocks at this point of the test (see NetworkMockPlanner)
+const SESSION_EXPIRES = 'The session expires';
+
+/**
+ * Adds an edge scenario per authenticated scenario in which the session
+ * expires mid-flow: a "The session expires" step after the user signs in
+ * (or after the first step when the scenario never signs in) makes Agent C
+ * mock a 401 on the scenario's endpoints from that step on.
+ */
+export const sessionTimeoutChecks: PipelinePlugin = {
+  name: 'session-timeout-checks',
+
+  afterScenarios(scenarios: TestScenario[]): TestScenario[] {
+    const titles = new Set(scenarios.map(scenario => scenario.title));
+    const checks = scenarios
+      .filter(scenario => scenario.type !== 'edge' && !scenario.title.endsWith(SUFFIX))
+      .filter(scenario => AUTHENTICATED.test([scenario.title, scenario.description, ...scenario.steps].join('\n')))
+      .filter(scenario => !titles.has(`${scenario.title}${SUFFIX}`))
+      .map((scenario): TestScenario => ({
+        title: `${scenario.title}${SUFFIX}`,
+        type: 'edge',
+        description: `${scenario.description} The session expires before the flow finishes.`,
+        steps: expireSession(scenario.steps),
+        expected_outcome: 'User is sent back to the sign in page with a message that the session expired',
+        device: scenario.device,
+        covers_criteria: scenario.covers_criteria
+      }));
+
+    if (checks.length > 0) {
+      console.log(`Session timeout checks: added ${checks.length} scenario(s)`);
+    }
+    return [...scenarios, ...checks];
+  }
+};
+
+function expireSession(steps: string[]): string[] {
+  const signIn = steps.map(step => SIGN_IN_STEP.test(step)).lastIndexOf(true);
+  const at = signIn !== -1 ? signIn + 1 : 1;
+  return [...steps.slice(0, at), SESSION_EXPIRES, ...steps.slice(at), 'Wait for the page to load after the session expires'];
+}
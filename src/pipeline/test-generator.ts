@@ -0,0 +1,660 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { LangChainAgentA } from '../agents/langchain-agent-a';
+import { LangChainAgentB } from '../agents/langchain-agent-b';
+import { LangChainAgentC } from '../agents/langchain-agent-c';
+import { MCPEnhancedAgentC } from '../agents/mcp-enhanced-agent-c';
+import { LangChainClient } from '../llm/langchain-client';
+import { AnalysisAgentG, EngineerReviewReport } from '../agents/analysis-agent-g';
+import { TraceabilityMatrix, TraceabilityMatrixBuilder } from '../traceability/traceability-matrix';
+import { ExecuteAndRepairLoop, ExecutionReport } from '../execution/execute-and-repair';
+import { ConfidenceGate, ConfidenceGateReport } from '../validation/confidence-gate';
+import { NetworkMockPlanner } from '../codegen/network-mock-planner';
+import { PipelineRun, PipelineStage, PIPELINE_STAGES } from './pipeline-run';
+import { PipelinePlugin, PipelinePlugins, PluginContext } from './pipeline-plugins';
+import { NetworkMockPlan, PlanStep, PlaywrightTest, StepBinding, StepVerification, TestScenario, UserStory, ValidatedScenario } from '../types';
+
+/**
+ * Called as the pipeline passes each point. A hook may return a replacement
+ * for what it was given; returning nothing keeps the original. Hooks also see
+ * outputs loaded from the run directory when a run resumes.
+ */
+export interface TestGeneratorHooks {
+  // Agent A's scenarios, before Agent B validates them
+  onScenarios?(scenarios: TestScenario[], story: UserStory): TestScenario[] | void | Promise<TestScenario[] | void>;
+  // Agent B's validated scenarios, before the confidence gate and Agent C
+  onValidated?(scenarios: ValidatedScenario[], story: UserStory): ValidatedScenario[] | void | Promise<ValidatedScenario[] | void>;
+  // Each spec Agent C generated, before it is written
+  onTestGenerated?(test: PlaywrightTest, scenario: ValidatedScenario | undefined): PlaywrightTest | void | Promise<PlaywrightTest | void>;
+  // The generation report, before generation-report.json is written
+  onReport?(report: GenerationReport, story: UserStory): GenerationReport | void | Promise<GenerationReport | void>;
+}
+
+export interface TestGeneratorOptions {
+  // Shared by every agent; defaults to a client configured from LLM_PROVIDER
+  llmClient?: LangChainClient;
+  // Where specs and reports are written (default tests/generated)
+  outputDir?: string;
+  // MCP-enhanced Agent C (default); false uses the plain LangChain Agent C
+  useMCP?: boolean;
+  // Run part of the pipeline (default PIPELINE_FROM_STAGE/PIPELINE_TO_STAGE)
+  fromStage?: PipelineStage;
+  toStage?: PipelineStage;
+  // Extra stages between the agents (default: PIPELINE_PLUGINS)
+  plugins?: PipelinePlugin[];
+  hooks?: TestGeneratorHooks;
+  // false returns the results without writing specs, HAR fixtures, the run
+  // directory or any report; execute-and-repair is skipped as it runs spec files
+  writeFiles?: boolean;
+}
+
+/**
+ * Contents of generation-report.json
+ */
+export interface GenerationReport {
+  story_id?: string;
+  story_source?: string;
+  user_story: string;
+  acceptance_criteria: string[];
+  generated_at: string;
+  llm_provider: string;
+  llm_model: string;
+  plugins: string[];
+  scenarios_count: number;
+  files_generated: string[];
+  traceability: {
+    matrix_path: string;
+    total_criteria: number;
+    covered_criteria: number;
+    uncovered_criteria: string[];
+  };
+  pipeline_summary: Record<'agent_a' | 'agent_b' | 'agent_c' | 'agent_g', string>;
+  langchain_features: Record<string, string>;
+  validation_pipeline: Record<string, string>;
+  engineer_review: {
+    report_path: string;
+    total_issues: number;
+    average_quality_score: number;
+    tests_needing_attention: number;
+    ready_for_execution: number;
+    priority_actions: number;
+    recommendations: string[];
+  } | null;
+  mcp_verification: Array<{
+    spec_file: string;
+    verified_steps: number;
+    replaced_locators: number;
+    unverified_steps: Array<Pick<StepVerification, 'line' | 'step' | 'status' | 'reason'>>;
+  }>;
+  page_object_warnings: Array<{ spec_file: string; warnings: string[] }>;
+  network_mocks: Array<{ spec_file: string; har_file: string | null; mocks: NetworkMockPlan[] }>;
+  test_plans: Array<{
+    spec_file: string;
+    steps: PlanStep['kind'][];
+    llm_steps: Array<{ step: string; written: boolean }>;
+  }>;
+  confidence_gating: ConfidenceGateReport;
+  execution: ExecutionReport | null;
+  scenarios_summary: Array<{
+    title: string;
+    type: ValidatedScenario['type'];
+    device?: ValidatedScenario['device'];
+    covers_criteria: string[];
+    selectors_found: number;
+    endpoints_found: number;
+    confidence_score: number;
+    step_bindings: Array<{
+      step: number;
+      action: StepBinding['action'];
+      target: string | null;
+      test_data?: string;
+      missing_reason?: string;
+    }>;
+    missing_bindings: number;
+    validation_notes: string[];
+  }>;
+}
+
+export interface StoryGenerationResult {
+  story_id?: string;
+  user_story: string;
+  source?: string;
+  output_dir: string;
+  scenarios_count: number;
+  files_generated: string[];
+  quality_score?: number;
+  criteria_covered?: string;
+  specs_passing?: string;
+  // Last stage run when --to-stage ends the pipeline early
+  stopped_after?: string;
+  error?: string;
+  // The pipeline's results as objects (left out of batch-summary.json)
+  scenarios?: ValidatedScenario[];
+  tests?: PlaywrightTest[];
+  report?: GenerationReport;
+}
+
+/**
+ * The whole pipeline: Agent A expands a story, Agent B validates the
+ * scenarios, Agent C writes specs, execute-and-repair fixes them and Agent G
+ * reviews them. Used by scripts/generate-tests.ts and importable as a library.
+ */
+export class TestGenerator {
+  private agentA: LangChainAgentA;
+  private agentB: LangChainAgentB;
+  private agentC: LangChainAgentC | MCPEnhancedAgentC;
+  private agentG: AnalysisAgentG;
+  private llmClient: LangChainClient;
+  private traceability: TraceabilityMatrixBuilder;
+  private outputDir: string;
+  private hooks: TestGeneratorHooks;
+  private plugins: PipelinePlugins;
+  private stages: { from?: PipelineStage; to?: PipelineStage };
+  private writeFiles: boolean;
+
+  constructor(options: TestGeneratorOptions = {}) {
+    // Initialize shared LLM client
+    this.llmClient = options.llmClient || new LangChainClient();
+    
+    // Initialize agents with shared client
+    this.agentA = new LangChainAgentA(this.llmClient);
+    this.agentB = new LangChainAgentB(this.llmClient);
+    
+    // Use MCP-enhanced Agent C for better Playwright syntax
+    const useMCP = options.useMCP ?? (process.env.USE_MCP_AGENT === 'true' || true); // Default to true for better syntax
+    this.agentC = useMCP 
+      ? new MCPEnhancedAgentC(this.llmClient)
+      : new LangChainAgentC(this.llmClient);
+    
+    // Initialize analysis agent for final report generation
+    this.agentG = new AnalysisAgentG(this.llmClient);
+    
+    this.traceability = new TraceabilityMatrixBuilder();
+    this.outputDir = options.outputDir || path.join(__dirname, '../../tests/generated');
+    this.hooks = options.hooks || {};
+    this.plugins = options.plugins ? new PipelinePlugins(options.plugins) : PipelinePlugins.load();
+    this.stages = { from: options.fromStage, to: options.toStage };
+    this.writeFiles = options.writeFiles ?? true;
+  }
+
+  async generateTests(userStory: UserStory, outputDir: string = this.outputDir): Promise<StoryGenerationResult> {
+    const modelInfo = this.llmClient.getModelInfo();
+    console.log(`Starting LangChain AI-powered test generation pipeline...`);
+    console.log(`Using: ${modelInfo.provider} (${modelInfo.model})\n`);
+    
+    // Ensure output directory exists
+    if (this.writeFiles && !fs.existsSync(outputDir)) {
+      fs.mkdirSync(outputDir, { recursive: true });
+    }
+
+    // Each stage's output goes to <outputDir>/run; skipped stages read it back
+    const run = new PipelineRun(outputDir, { ...this.stages, persist: this.writeFiles });
+    let stage: PipelineStage = run.from;
+    if (run.from !== PIPELINE_STAGES[0] || run.to !== PIPELINE_STAGES[PIPELINE_STAGES.length - 1]) {
+      console.log(`Pipeline: running stages ${run.from} to ${run.to} (run directory ${path.relative(process.cwd(), run.runDir)})\n`);
+    }
+    run.saveStory(userStory);
+    if (this.plugins.names().length > 0) {
+      console.log(`Pipeline plugins: ${this.plugins.names().join(', ')}\n`);
+    }
+    const pluginContext: PluginContext = { story: userStory, outputDir, llmClient: this.llmClient };
+
+    try {
+      // Agent A: Expand user story into scenarios using LangChain
+      stage = 'scenarios';
+      let scenarios: TestScenario[];
+      if (run.runs(stage)) {
+        console.log('Agent A: Expanding user story with LLM intelligence...');
+        scenarios = await this.agentA.expandUserStory(userStory);
+        console.log(`Generated ${scenarios.length} intelligent test scenarios\n`);
+        scenarios = await this.plugins.run('afterScenarios', scenarios, pluginContext);
+        scenarios = (await this.hooks.onScenarios?.(scenarios, userStory)) || scenarios;
+        run.save(stage, scenarios);
+      } else {
+        scenarios = run.load(stage);
+        scenarios = (await this.hooks.onScenarios?.(scenarios, userStory)) || scenarios;
+      }
+      if (run.stopsBefore('validate')) {
+        return this.stoppedResult(userStory, outputDir, run, scenarios.length, []);
+      }
+
+      // Agent B: Validate scenarios against knowledge base using LangChain
+      stage = 'validate';
+      let validatedScenarios: ValidatedScenario[];
+      if (run.runs(stage)) {
+        console.log('Agent B: AI-powered scenario validation with RAG...');
+        validatedScenarios = await this.agentB.validateScenarios(scenarios);
+        validatedScenarios = await this.plugins.run('afterValidate', validatedScenarios, pluginContext);
+        validatedScenarios = (await this.hooks.onValidated?.(validatedScenarios, userStory)) || validatedScenarios;
+        console.log('Scenarios validated with intelligent selector/API matching');
+        validatedScenarios.forEach(scenario => scenario.step_bindings
+          .filter(binding => binding.missing_reason)
+          .forEach(binding => console.log(`   MISSING BINDING "${scenario.title}" step ${binding.step_index + 1}: ${binding.step}`)));
+        console.log('');
+        run.save(stage, validatedScenarios);
+      } else {
+        validatedScenarios = run.load(stage);
+        validatedScenarios = (await this.hooks.onValidated?.(validatedScenarios, userStory)) || validatedScenarios;
+      }
+      if (run.stopsBefore('generate')) {
+        return this.stoppedResult(userStory, outputDir, run, validatedScenarios.length, []);
+      }
+
+      // Agent C: Generate Playwright tests using LangChain
+      stage = 'generate';
+      let confidenceReport: ConfidenceGateReport;
+      let playwrightTests: PlaywrightTest[];
+      if (run.runs(stage)) {
+        // Skip, flag or route to manual review any scenario below the confidence threshold
+        const confidenceGate = new ConfidenceGate();
+        const gated = confidenceGate.apply(validatedScenarios, this.writeFiles ? outputDir : undefined);
+        confidenceReport = gated.report;
+        console.log(`Confidence gate: ${gated.scenarios.length}/${validatedScenarios.length} scenarios sent to Agent C (threshold ${confidenceReport.threshold}, action ${confidenceReport.action})\n`);
+
+        console.log('Agent C: AI-generated Playwright TypeScript tests...');
+        playwrightTests = confidenceGate.flagTests(
+          gated.scenarios.length > 0 ? await this.agentC.generatePlaywrightTests(gated.scenarios) : [],
+          confidenceReport
+        );
+        playwrightTests = await this.plugins.run('afterGenerate', playwrightTests, pluginContext);
+        playwrightTests = await this.applyTestHook(playwrightTests, validatedScenarios);
+        run.save(stage, { confidence_gate: confidenceReport, tests: playwrightTests });
+      } else {
+        ({ confidence_gate: confidenceReport, tests: playwrightTests } = run.load(stage));
+        playwrightTests = await this.applyTestHook(playwrightTests, validatedScenarios);
+      }
+
+      // Write test files (again when resuming, in case the saved code was edited)
+      const writtenFiles = this.writeFiles && (run.runs(stage) || run.from === 'repair')
+        ? this.writeSpecs(playwrightTests, outputDir)
+        : playwrightTests.map(test => test.filename);
+      if (run.stopsBefore('repair')) {
+        return this.stoppedResult(userStory, outputDir, run, validatedScenarios.length, writtenFiles);
+      }
+
+      // Run each spec and feed failures back to Agent C until it passes or iterations run out
+      stage = 'repair';
+      let executionReport: ExecutionReport | undefined;
+      if (run.runs(stage)) {
+        if (process.env.USE_ITERATIVE_IMPROVEMENT === 'true' && !this.writeFiles) {
+          console.log('Execute-and-repair: skipped, it needs the spec files on disk (writeFiles is false)\n');
+        } else if (process.env.USE_ITERATIVE_IMPROVEMENT === 'true') {
+          console.log('\nExecute-and-repair: running generated specs with Playwright...');
+          const repairAgent = this.agentC instanceof MCPEnhancedAgentC ? this.agentC : new MCPEnhancedAgentC(this.llmClient);
+          const execution = await new ExecuteAndRepairLoop(repairAgent).run(
+            playwrightTests,
+            validatedScenarios,
+            outputDir,
+            test => this.traceability.annotateSpec(test)
+          );
+          playwrightTests = execution.tests;
+          executionReport = execution.report;
+          executionReport.specs
+            .filter(spec => spec.status !== 'passed')
+            .forEach(spec => console.log(`   STILL FAILING ${spec.spec_file}: ${spec.failure_reason}`));
+          console.log('');
+        }
+        run.save(stage, { execution: executionReport || null, tests: playwrightTests });
+      } else {
+        const repaired = run.load(stage);
+        playwrightTests = repaired.tests;
+        executionReport = repaired.execution || undefined;
+        if (this.writeFiles && run.from === 'analyze') {
+          this.writeSpecs(playwrightTests, outputDir);
+        }
+      }
+      if (run.stopsBefore('analyze')) {
+        return this.stoppedResult(userStory, outputDir, run, validatedScenarios.length, writtenFiles);
+      }
+
+      // Agent G: Comprehensive test analysis and engineer report
+      stage = 'analyze';
+      console.log('Agent G: Analyzing tests and generating engineer review report...');
+      const engineerReport = await this.agentG.analyzeTestsAndGenerateReport(playwrightTests, validatedScenarios, this.writeFiles);
+      run.save(stage, engineerReport || null);
+
+      // Link acceptance criteria to the scenarios and specs that cover them
+      const matrix = this.traceability.build(userStory, validatedScenarios, playwrightTests);
+      if (this.writeFiles) {
+        this.traceability.save(matrix, outputDir);
+      }
+      console.log(`Traceability: ${matrix.coverage.covered_criteria}/${matrix.coverage.total_criteria} acceptance criteria covered`);
+      matrix.uncovered_criteria.forEach(criterion => console.log(`   NOT COVERED: ${criterion}`));
+
+      // Generate summary report with analysis results
+      let report = this.buildSummaryReport(userStory, validatedScenarios, playwrightTests, modelInfo, outputDir, matrix, confidenceReport, engineerReport, executionReport);
+      report = (await this.hooks.onReport?.(report, userStory)) || report;
+      if (this.writeFiles) {
+        fs.writeFileSync(path.join(outputDir, 'generation-report.json'), JSON.stringify(report, null, 2));
+        console.log(`Summary report: generation-report.json`);
+      }
+
+      console.log(`\nLangChain test generation complete! Generated ${playwrightTests.length} AI-powered test files.`);
+      if (this.writeFiles) {
+        console.log(`Files saved to: ${outputDir}`);
+      }
+      
+      if (engineerReport) {
+        console.log(`\nEngineer Review Report:`);
+        if (this.writeFiles) {
+          console.log(`   Report: ${engineerReport.reportPath}`);
+        }
+        console.log(`   Quality Score: ${engineerReport.summary.averageQualityScore}/100`);
+        console.log(`   Ready to Run: ${engineerReport.summary.readyForExecution}/${engineerReport.summary.totalTests} tests`);
+        console.log(`   Need Attention: ${engineerReport.summary.testsNeedingAttention} tests`);
+        console.log(`   Priority Actions: ${engineerReport.prioritizedActions.length}`);
+        
+        if (engineerReport.summary.totalIssues > 0) {
+          console.log(`\nIMPORTANT: Review the engineer report before running tests!`);
+        }
+      }
+      
+      if (this.writeFiles) {
+        console.log(`\nRun tests with: npm run test`);
+        console.log(`View generation report: ${path.relative(process.cwd(), path.join(outputDir, 'generation-report.json'))}`);
+      }
+
+      return {
+        story_id: userStory.id,
+        user_story: userStory.description,
+        source: userStory.source,
+        output_dir: path.relative(process.cwd(), outputDir),
+        scenarios_count: validatedScenarios.length,
+        files_generated: writtenFiles,
+        quality_score: engineerReport?.summary.averageQualityScore,
+        criteria_covered: `${matrix.coverage.covered_criteria}/${matrix.coverage.total_criteria}`,
+        specs_passing: executionReport ? `${executionReport.passed}/${executionReport.specs.length}` : undefined,
+        scenarios: validatedScenarios,
+        tests: playwrightTests,
+        report
+      };
+      
+    } catch (error) {
+      console.error(`LangChain test generation failed at the ${stage} stage:`, error);
+      if (PIPELINE_STAGES.indexOf(stage) > 0) {
+        console.log(`Earlier stages are saved in ${path.relative(process.cwd(), run.runDir)}; resume with --from-stage ${stage}`);
+      }
+      throw error;
+    } finally {
+      // Cleanup resources if needed
+      console.log('Cleanup complete');
+    }
+  }
+
+  /**
+   * Run onTestGenerated over each spec, matched to its scenario by title
+   */
+  private async applyTestHook(tests: PlaywrightTest[], scenarios: ValidatedScenario[]): Promise<PlaywrightTest[]> {
+    if (!this.hooks.onTestGenerated) {
+      return tests;
+    }
+
+    const hooked: PlaywrightTest[] = [];
+    for (const test of tests) {
+      const scenario = scenarios.find(s => s.title === test.scenario_title);
+      hooked.push((await this.hooks.onTestGenerated(test, scenario)) || test);
+    }
+    return hooked;
+  }
+
+  /**
+   * Write the spec files, with the EXECUTION FAILED banner on specs that
+   * still fail, and the HAR fixtures with the responses each spec mocks
+   * (ApiMocks.replayHar / page.routeFromHAR)
+   */
+  private writeSpecs(playwrightTests: PlaywrightTest[], outputDir: string): string[] {
+    const writtenFiles: string[] = [];
+    for (const test of playwrightTests) {
+      const filePath = path.join(outputDir, test.filename);
+      fs.writeFileSync(filePath, ExecuteAndRepairLoop.markFailing(this.traceability.annotateSpec(test), test.execution_status), 'utf-8');
+      writtenFiles.push(test.filename);
+      console.log(`Created: ${test.filename}`);
+    }
+
+    for (const test of playwrightTests.filter(t => t.network_mocks && t.network_mocks.length > 0)) {
+      const harFile = this.writeHarFixture(test, outputDir);
+      console.log(`Network mocks: ${test.filename} simulates ${test.network_mocks![0].mode} on ${test.network_mocks!.length} endpoint(s)${harFile ? `, HAR fixture ${harFile}` : ''}`);
+    }
+    return writtenFiles;
+  }
+
+  /**
+   * Result of a run that ended at --to-stage, before the reports are written
+   */
+  private stoppedResult(userStory: UserStory, outputDir: string, run: PipelineRun, scenariosCount: number, files: string[]): StoryGenerationResult {
+    const next = run.nextStage();
+    console.log(`\nPipeline stopped after the ${run.to} stage. Outputs: ${path.relative(process.cwd(), run.runDir)}`);
+    if (next) {
+      console.log(`Edit them if needed, then continue with --from-stage ${next}`);
+    }
+
+    return {
+      story_id: userStory.id,
+      user_story: userStory.description,
+      source: userStory.source,
+      output_dir: path.relative(process.cwd(), outputDir),
+      scenarios_count: scenariosCount,
+      files_generated: files,
+      stopped_after: run.to
+    };
+  }
+
+  /**
+   * Story the last run in the output directory generated from
+   */
+  savedStory(): UserStory | undefined {
+    return new PipelineRun(this.outputDir).loadStory();
+  }
+
+  /**
+   * Run the pipeline once per story, each into its own output folder,
+   * then write a combined summary next to them
+   */
+  async generateBatch(stories: UserStory[]): Promise<StoryGenerationResult[]> {
+    const results: StoryGenerationResult[] = [];
+    const usedFolders = new Set<string>();
+
+    for (const [index, story] of stories.entries()) {
+      const folder = this.uniqueFolderName(story.id || `story-${index + 1}`, usedFolders);
+      const storyOutputDir = path.join(this.outputDir, folder);
+      console.log(`\n=== Story ${index + 1}/${stories.length}: ${story.id || story.description} ===\n`);
+
+      try {
+        results.push(await this.generateTests(story, storyOutputDir));
+      } catch (error) {
+        // One failing story should not abort the rest of the batch
+        results.push({
+          story_id: story.id,
+          user_story: story.description,
+          source: story.source,
+          output_dir: path.relative(process.cwd(), storyOutputDir),
+          scenarios_count: 0,
+          files_generated: [],
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    this.generateBatchSummary(results);
+    return results;
+  }
+
+  private uniqueFolderName(id: string, usedFolders: Set<string>): string {
+    const base = id
+      .toLowerCase()
+      .replace(/[^a-z0-9\s_-]/g, '')
+      .replace(/[\s_]+/g, '-')
+      .replace(/-+/g, '-')
+      .replace(/^-|-$/g, '') || 'story';
+
+    let folder = base;
+    for (let suffix = 2; usedFolders.has(folder); suffix++) {
+      folder = `${base}-${suffix}`;
+    }
+    usedFolders.add(folder);
+    return folder;
+  }
+
+  private generateBatchSummary(results: StoryGenerationResult[]): void {
+    const summary = {
+      generated_at: new Date().toISOString(),
+      llm_provider: this.llmClient.getModelInfo().provider,
+      llm_model: this.llmClient.getModelInfo().model,
+      stories_total: results.length,
+      stories_succeeded: results.filter(r => !r.error).length,
+      stories_failed: results.filter(r => r.error).length,
+      files_generated: results.reduce((sum, r) => sum + r.files_generated.length, 0),
+      stories: results.map(({ scenarios, tests, report, ...summary }) => summary)
+    };
+
+    if (!fs.existsSync(this.outputDir)) {
+      fs.mkdirSync(this.outputDir, { recursive: true });
+    }
+
+    const summaryPath = path.join(this.outputDir, 'batch-summary.json');
+    fs.writeFileSync(summaryPath, JSON.stringify(summary, null, 2));
+
+    console.log(`\nBatch complete: ${summary.stories_succeeded}/${summary.stories_total} stories, ${summary.files_generated} test files`);
+    results.filter(r => r.error).forEach(r => {
+      console.log(`   FAILED ${r.story_id || r.user_story}: ${r.error}`);
+    });
+    console.log(`Batch summary: ${path.relative(process.cwd(), summaryPath)}`);
+  }
+
+  /**
+   * Write mocks/<spec>.har with the responses a spec mocks; timeouts have
+   * no response, so a spec that only times out gets no HAR file
+   */
+  private writeHarFixture(test: PlaywrightTest, outputDir: string): string | undefined {
+    const baseUrl = process.env.FIXTURE_SITE === 'true'
+      ? `http://localhost:${process.env.FIXTURE_SITE_PORT || 4173}`
+      : process.env.BASE_URL || 'https://www.experian.com';
+    const har = NetworkMockPlanner.load().toHar(test.network_mocks!, baseUrl) as { log: { entries: unknown[] } };
+    if (har.log.entries.length === 0) {
+      return undefined;
+    }
+
+    const harFile = this.harFileFor(test);
+    fs.mkdirSync(path.join(outputDir, path.dirname(harFile)), { recursive: true });
+    fs.writeFileSync(path.join(outputDir, harFile), JSON.stringify(har, null, 2));
+    return harFile;
+  }
+
+  private harFileFor(test: PlaywrightTest): string {
+    return path.join('mocks', test.filename.replace(/\.spec\.ts$/, '.har'));
+  }
+
+  private buildSummaryReport(
+    userStory: UserStory, 
+    scenarios: ValidatedScenario[], 
+    tests: PlaywrightTest[],
+    modelInfo: { provider: string; model: string },
+    outputDir: string,
+    matrix: TraceabilityMatrix,
+    confidenceReport: ConfidenceGateReport,
+    engineerReport?: EngineerReviewReport,
+    executionReport?: ExecutionReport
+  ): GenerationReport {
+    return {
+      story_id: userStory.id,
+      story_source: userStory.source,
+      user_story: userStory.description,
+      acceptance_criteria: userStory.acceptance_criteria || [],
+      generated_at: new Date().toISOString(),
+      llm_provider: modelInfo.provider,
+      llm_model: modelInfo.model,
+      plugins: this.plugins.names(),
+      scenarios_count: scenarios.length,
+      files_generated: tests.map(t => t.filename),
+      traceability: {
+        matrix_path: 'traceability-matrix.json',
+        total_criteria: matrix.coverage.total_criteria,
+        covered_criteria: matrix.coverage.covered_criteria,
+        uncovered_criteria: matrix.uncovered_criteria
+      },
+      pipeline_summary: {
+        agent_a: `Used ${modelInfo.provider} LLM to intelligently expand user story into diverse scenarios`,
+        agent_b: `AI-powered validation against RAG knowledge base with smart selector/API matching`,
+        agent_c: `Microsoft MCP-enhanced Playwright TypeScript tests with real-time validation`,
+        agent_g: `Comprehensive test analysis and engineer review report generation`
+      },
+      langchain_features: {
+        prompt_templates: "Structured prompt templates for consistent AI responses",
+        retry_logic: "Automatic retry with exponential backoff for reliability", 
+        fallback_system: "Rule-based fallback when LLM calls fail",
+        multi_provider: "Support for OpenAI, Anthropic, and Ollama",
+        record_replay: "Record LLM responses to fixtures and replay them offline"
+      },
+      validation_pipeline: {
+        syntax_validation: "TypeScript AST parsing and Playwright API validation",
+        pre_flight_checks: "Comprehensive validation before file writing",
+        iterative_improvement: executionReport
+          ? `Executed specs and repaired failures with Agent C: ${executionReport.passed}/${executionReport.specs.length} passing`
+          : "Disabled (set USE_ITERATIVE_IMPROVEMENT=true to execute and repair specs)",
+        microsoft_mcp: "Real-time Playwright API validation via Microsoft MCP server",
+        pass_rate: engineerReport ? `${engineerReport.summary.readyForExecution}/${engineerReport.summary.totalTests} tests ready` : "N/A"
+      },
+      engineer_review: engineerReport ? {
+        report_path: engineerReport.reportPath,
+        total_issues: engineerReport.summary.totalIssues,
+        average_quality_score: engineerReport.summary.averageQualityScore,
+        tests_needing_attention: engineerReport.summary.testsNeedingAttention,
+        ready_for_execution: engineerReport.summary.readyForExecution,
+        priority_actions: engineerReport.prioritizedActions.length,
+        recommendations: engineerReport.recommendations
+      } : null,
+      mcp_verification: tests
+        .filter(t => t.mcp_verification)
+        .map(t => ({
+          spec_file: t.filename,
+          verified_steps: t.mcp_verification!.verified,
+          replaced_locators: t.mcp_verification!.replaced,
+          unverified_steps: t.mcp_verification!.steps
+            .filter(step => step.status !== 'verified')
+            .map(step => ({ line: step.line, step: step.step, status: step.status, reason: step.reason }))
+        })),
+      page_object_warnings: tests
+        .filter(t => t.page_object_warnings && t.page_object_warnings.length > 0)
+        .map(t => ({ spec_file: t.filename, warnings: t.page_object_warnings! })),
+      network_mocks: tests
+        .filter(t => t.network_mocks && t.network_mocks.length > 0)
+        .map(t => ({
+          spec_file: t.filename,
+          har_file: fs.existsSync(path.join(outputDir, this.harFileFor(t))) ? this.harFileFor(t) : null,
+          mocks: t.network_mocks!
+        })),
+      test_plans: tests
+        .filter(t => t.test_plan)
+        .map(t => {
+          const steps = [...t.test_plan!.steps, t.test_plan!.outcome];
+          return {
+            spec_file: t.filename,
+            steps: steps.map(step => step.kind),
+            llm_steps: steps
+              .filter(step => step.kind === 'llm')
+              .map(step => ({ step: step.step, written: step.kind === 'llm' && !!step.code }))
+          };
+        }),
+      confidence_gating: confidenceReport,
+      execution: executionReport || null,
+      scenarios_summary: scenarios.map(s => ({
+        title: s.title,
+        type: s.type,
+        device: s.device,
+        covers_criteria: s.covers_criteria || [],
+        selectors_found: Object.keys(s.selectors || {}).length,
+        endpoints_found: (s.api_endpoints || []).length,
+        confidence_score: s.confidence_score,
+        step_bindings: (s.step_bindings || []).map((b: StepBinding) => ({
+          step: b.step_index + 1,
+          action: b.action,
+          target: b.page_object_member || b.target || null,
+          test_data: b.test_data,
+          missing_reason: b.missing_reason
+        })),
+        missing_bindings: (s.step_bindings || []).filter((b: StepBinding) => b.missing_reason).length,
+        validation_notes: s.validation_notes || []
+      }))
+    };
+  }
+}
@@ -0,0 +1,117 @@
+import { OpenAIEmbeddings } from '@langchain/openai';
+
+/**
+ * Turns text into vectors for semantic retrieval. Same shape as LangChain's
+ * Embeddings, so any LangChain embeddings class can be passed in directly.
+ */
+export interface Embedder {
+  embedDocuments(texts: string[]): Promise<number[][]>;
+  embedQuery(text: string): Promise<number[]>;
+}
+
+export type EmbedderName = 'tfidf' | 'openai';
+
+const STOP_WORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by',
+  'user', 'should', 'can', 'will', 'is', 'are', 'be', 'their', 'they', 'then', 'when', 'given',
+  'page', 'href', 'aria', 'label', 'data', 'testid', 'type', 'name', 'class', 'has', 'text', 'btn', 'reset'
+]);
+
+// Phrases that name the same action; normalized before tokenizing so
+// "login", "log in" and "sign_in_button" share a term
+const SYNONYMS: Array<[RegExp, string]> = [
+  [/\b(logs? ?in|signs? ?in|sign-in|signin|signs? ?on)\b/g, 'signin'],
+  [/\b(logs? ?out|signs? ?out|sign-out|signout)\b/g, 'signout'],
+  [/\b(signs? ?up|signup|registers?|registration|enroll|create account)\b/g, 'signup'],
+  [/\b(drop ?down|menu|toggle)\b/g, 'dropdown'],
+  [/\b(e-?mail|username)\b/g, 'email'],
+  [/\b(passcode|pwd)\b/g, 'password'],
+  [/\b(fico)\b/g, 'fico score']
+];
+
+/**
+ * Lowercase words with camelCase/snake_case/CSS split apart, synonyms
+ * normalized and stop words removed
+ */
+export function tokenize(text: string): string[] {
+  let normalized = text
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ');
+
+  for (const [pattern, replacement] of SYNONYMS) {
+    normalized = normalized.replace(pattern, replacement);
+  }
+
+  return normalized
+    .split(/\s+/)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word) && !/^\d+$/.test(word))
+    .map(word => (word.length > 4 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+}
+
+/**
+ * Offline TF-IDF embedder. The vocabulary and document frequencies come from
+ * the documents passed to embedDocuments; query terms outside it are ignored.
+ */
+export class TfidfEmbedder implements Embedder {
+  private vocabulary = new Map<string, number>();
+  private idf: number[] = [];
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    const documents = texts.map(text => tokenize(text));
+    const documentFrequency = new Map<string, number>();
+
+    this.vocabulary.clear();
+    for (const tokens of documents) {
+      for (const token of new Set(tokens)) {
+        if (!this.vocabulary.has(token)) {
+          this.vocabulary.set(token, this.vocabulary.size);
+        }
+        documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1);
+      }
+    }
+
+    this.idf = new Array(this.vocabulary.size).fill(0);
+    for (const [token, index] of this.vocabulary) {
+      this.idf[index] = Math.log((documents.length + 1) / (documentFrequency.get(token)! + 1)) + 1;
+    }
+
+    return documents.map(tokens => this.vectorize(tokens));
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    return this.vectorize(tokenize(text));
+  }
+
+  private vectorize(tokens: string[]): number[] {
+    const vector = new Array(this.vocabulary.size).fill(0);
+    for (const token of tokens) {
+      const index = this.vocabulary.get(token);
+      if (index !== undefined) {
+        vector[index] += 1;
+      }
+    }
+
+    for (let i = 0; i < vector.length; i++) {
+      vector[i] = vector[i] > 0 ? (1 + Math.log(vector[i])) * this.idf[i] : 0;
+    }
+    return vector;
+  }
+}
+
+/**
+ * Build the embedder named by RAG_EMBEDDER (tfidf by default, works offline)
+ */
+export function createEmbedder(name: EmbedderName = (process.env.RAG_EMBEDDER as EmbedderName) || 'tfidf'): Embedder {
+  switch (name) {
+    case 'tfidf':
+      return new TfidfEmbedder();
+    case 'openai':
+      return new OpenAIEmbeddings({
+        openAIApiKey: process.env.OPENAI_API_KEY,
+        modelName: process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small'
+      });
+    default:
+      throw new Error(`Unsupported embedder: ${name}`);
+  }
+}
@@ -0,0 +1,398 @@
+import { Page } from '@playwright/test';
+
+export interface CrawlOptions {
+  baseUrl: string;
+  startUrls: string[];
+  // Upper bound on menus/dropdowns opened per page
+  maxMenusPerPage?: number;
+}
+
+export interface DiscoveredElement {
+  region: string;
+  key: string;
+  selector: string;
+  tag: string;
+  role: string;
+  name: string;
+  page: string;
+  matches: number;
+}
+
+export interface KBEntryDiff {
+  path: string;
+  selector: string;
+  matched_elements: number;
+  crawled_keys: string[];
+}
+
+export interface CrawlDiff {
+  // Knowledge base entries that still resolve to a discovered element
+  matched: KBEntryDiff[];
+  // Knowledge base entries that resolve to nothing on any crawled page state
+  stale: KBEntryDiff[];
+  // Knowledge base entries matching many unrelated elements
+  broad: KBEntryDiff[];
+  // Discovered elements no existing selector points at
+  added: Array<{ path: string; selector: string; page: string }>;
+}
+
+export interface CrawlResult {
+  base_url: string;
+  pages: string[];
+  elements: DiscoveredElement[];
+  selectors: Record<string, Record<string, string>>;
+}
+
+interface RawElement {
+  crawlId: string;
+  region: string;
+  name: string;
+  suffix: string;
+  selector: string;
+  tag: string;
+  role: string;
+  matches: number;
+}
+
+const CRAWL_ATTRIBUTE = 'data-kb-crawl-id';
+const BROAD_MATCH_THRESHOLD = 3;
+
+/**
+ * Walks start pages of a running site, opens menus and dropdowns and
+ * records every visible interactive element in the kb/selectors format,
+ * grouped by the page region it lives in.
+ */
+export class KnowledgeBaseCrawler {
+  private options: Required<CrawlOptions>;
+  private elements = new Map<string, DiscoveredElement & { crawlIds: Set<string> }>();
+  private existingHits = new Map<string, Set<string>>();
+
+  constructor(options: CrawlOptions) {
+    this.options = { maxMenusPerPage: 20, ...options };
+  }
+
+  /**
+   * Crawl every start URL; existing selectors are resolved on each page
+   * state so they can be diffed against what was discovered
+   */
+  async crawl(page: Page, existing: Record<string, Record<string, string>> = {}): Promise<CrawlResult> {
+    const pages: string[] = [];
+
+    // tsx/esbuild wrap nested functions in __name(), which does not exist in the page
+    await page.addInitScript('globalThis.__name = globalThis.__name || (fn => fn);');
+
+    for (const startUrl of this.options.startUrls) {
+      const url = new URL(startUrl, this.options.baseUrl).toString();
+      const pageName = this.pageName(startUrl);
+      console.log(`Crawling ${url}...`);
+
+      try {
+        await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 45000 });
+        await page.waitForTimeout(500);
+      } catch (error) {
+        console.warn(`   Could not load ${url}:`, error instanceof Error ? error.message : error);
+        continue;
+      }
+
+      pages.push(url);
+      await this.collect(page, pageName);
+      await this.resolveExisting(page, pageName, existing);
+      await this.exploreMenus(page, pageName, existing);
+    }
+
+    return {
+      base_url: this.options.baseUrl,
+      pages,
+      elements: [...this.elements.values()].map(({ crawlIds, ...element }) => element),
+      selectors: this.toSelectorGroups()
+    };
+  }
+
+  /**
+   * Compare existing kb entries with the crawl; call after crawl()
+   */
+  diff(existing: Record<string, Record<string, string>>): CrawlDiff {
+    const diff: CrawlDiff = { matched: [], stale: [], broad: [], added: [] };
+    const claimed = new Set<string>();
+
+    for (const [group, entries] of Object.entries(existing)) {
+      for (const [name, selector] of Object.entries(entries)) {
+        const entryPath = `${group}.${name}`;
+        const hits = this.existingHits.get(entryPath) || new Set<string>();
+        const crawledKeys = [...this.elements.entries()]
+          .filter(([, element]) => [...element.crawlIds].some(id => hits.has(id)))
+          .map(([key]) => key);
+        crawledKeys.forEach(key => claimed.add(key));
+
+        const entry: KBEntryDiff = { path: entryPath, selector, matched_elements: hits.size, crawled_keys: crawledKeys };
+        if (hits.size === 0) {
+          diff.stale.push(entry);
+        } else if (hits.size > BROAD_MATCH_THRESHOLD) {
+          diff.broad.push(entry);
+        } else {
+          diff.matched.push(entry);
+        }
+      }
+    }
+
+    for (const [key, element] of this.elements.entries()) {
+      if (!claimed.has(key)) {
+        diff.added.push({ path: key, selector: element.selector, page: element.page });
+      }
+    }
+
+    return diff;
+  }
+
+  private async exploreMenus(page: Page, pageName: string, existing: Record<string, Record<string, string>>): Promise<void> {
+    const toggles = page.locator('[aria-expanded], [aria-haspopup="true"], [aria-haspopup="menu"], .dropdown-toggle');
+    const count = Math.min(await toggles.count(), this.options.maxMenusPerPage);
+
+    for (let i = 0; i < count; i++) {
+      const toggle = toggles.nth(i);
+      try {
+        if (!(await toggle.isVisible())) continue;
+
+        const label = (await toggle.getAttribute('aria-label')) || (await toggle.innerText()).trim();
+        await toggle.click({ timeout: 5000 });
+        await page.waitForTimeout(300);
+
+        await this.collect(page, pageName, `${this.snakeCase(label) || `menu_${i + 1}`}_menu`);
+        await this.resolveExisting(page, pageName, existing);
+
+        // Close the menu again so the next toggle starts from a clean page
+        if ((await toggle.getAttribute('aria-expanded')) === 'true') {
+          await toggle.click({ timeout: 5000 });
+        }
+        await page.keyboard.press('Escape');
+      } catch (error) {
+        console.warn(`   Skipped menu ${i + 1} on ${pageName}:`, error instanceof Error ? error.message.split('\n')[0] : error);
+      }
+    }
+  }
+
+  private async collect(page: Page, pageName: string, menuRegion?: string): Promise<void> {
+    const raw: RawElement[] = await page.evaluate(collectInteractiveElements, { pageName, menuRegion, attribute: CRAWL_ATTRIBUTE });
+
+    for (const element of raw) {
+      // Crawl ids restart on every page load, so qualify them with the page
+      element.crawlId = `${pageName}:${element.crawlId}`;
+
+      // Header/navigation elements repeat on every page: keep the first by region + selector
+      const existing = [...this.elements.values()].find(e => e.region === element.region && e.selector === element.selector);
+      if (existing) {
+        existing.crawlIds.add(element.crawlId);
+        continue;
+      }
+
+      const key = this.uniqueKey(element.region, `${this.snakeCase(element.name) || element.tag}${element.suffix}`);
+      this.elements.set(key, {
+        region: element.region,
+        key: key.split('.')[1],
+        selector: element.selector,
+        tag: element.tag,
+        role: element.role,
+        name: element.name,
+        page: pageName,
+        matches: element.matches,
+        crawlIds: new Set([element.crawlId])
+      });
+    }
+  }
+
+  private async resolveExisting(page: Page, pageName: string, existing: Record<string, Record<string, string>>): Promise<void> {
+    for (const [group, entries] of Object.entries(existing)) {
+      for (const [name, selector] of Object.entries(entries)) {
+        const entryPath = `${group}.${name}`;
+        const hits = this.existingHits.get(entryPath) || new Set<string>();
+
+        // Try the whole selector list first, then each alternative on its own
+        for (const candidate of [selector, ...selector.split(',').map(s => s.trim())]) {
+          try {
+            const ids = await page.locator(candidate).evaluateAll(
+              (nodes, attribute) => nodes.map(node => node.getAttribute(attribute)).filter(Boolean) as string[],
+              CRAWL_ATTRIBUTE
+            );
+            ids.forEach(id => hits.add(`${pageName}:${id}`));
+            break;
+          } catch {
+            // Invalid in this engine (e.g. jQuery :contains), try the next alternative
+          }
+        }
+
+        this.existingHits.set(entryPath, hits);
+      }
+    }
+  }
+
+  private toSelectorGroups(): Record<string, Record<string, string>> {
+    const groups: Record<string, Record<string, string>> = {};
+    for (const element of this.elements.values()) {
+      groups[element.region] = groups[element.region] || {};
+      groups[element.region][element.key] = element.selector;
+    }
+    return groups;
+  }
+
+  private uniqueKey(region: string, key: string): string {
+    let candidate = `${region}.${key}`;
+    for (let suffix = 2; this.elements.has(candidate); suffix++) {
+      candidate = `${region}.${key}_${suffix}`;
+    }
+    return candidate;
+  }
+
+  private pageName(url: string): string {
+    const pathname = new URL(url, this.options.baseUrl).pathname.replace(/\/+$/, '');
+    return this.snakeCase(pathname) || 'home';
+  }
+
+  private snakeCase(text: string): string {
+    return text
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, ' ')
+      .trim()
+      .split(/\s+/)
+      .slice(0, 5)
+      .join('_');
+  }
+}
+
+/**
+ * Runs inside the browser: tags each visible interactive element with a
+ * crawl id and describes its region, name and most stable selector
+ */
+function collectInteractiveElements(args: { pageName: string; menuRegion?: string; attribute: string }): RawElement[] {
+  const { pageName, menuRegion, attribute } = args;
+  const win = window as unknown as { __kbCrawlSeq?: number };
+  const snake = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim().split(/\s+/).slice(0, 4).join('_');
+  const quote = (text: string) => text.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+  const count = (selector: string) => {
+    try {
+      return document.querySelectorAll(selector).length;
+    } catch {
+      return 0;
+    }
+  };
+
+  const isVisible = (element: Element) => {
+    const style = window.getComputedStyle(element);
+    return element.getClientRects().length > 0 && style.visibility !== 'hidden' && style.display !== 'none';
+  };
+
+  const accessibleName = (element: HTMLElement) => {
+    const labelledBy = element.getAttribute('aria-labelledby');
+    const labelFor = element.id ? document.querySelector(`label[for="${CSS.escape(element.id)}"]`) : null;
+    return (
+      element.getAttribute('aria-label') ||
+      (labelledBy && document.getElementById(labelledBy)?.textContent) ||
+      labelFor?.textContent ||
+      element.closest('label')?.textContent ||
+      element.getAttribute('placeholder') ||
+      (element as HTMLInputElement).value && ['submit', 'button'].includes((element as HTMLInputElement).type) && (element as HTMLInputElement).value ||
+      element.innerText ||
+      element.getAttribute('alt') ||
+      element.querySelector('img')?.getAttribute('alt') ||
+      element.getAttribute('title') ||
+      element.getAttribute('name') ||
+      ''
+    ).replace(/\s+/g, ' ').trim();
+  };
+
+  const regionOf = (element: Element): string => {
+    const menu = element.closest('[role="menu"], .dropdown-menu, .submenu, .mega-menu, [id^="menu-"]');
+    if (menu) {
+      const toggle = menu.id ? document.querySelector(`[aria-controls="${CSS.escape(menu.id)}"]`) : null;
+      const label = toggle ? (toggle.getAttribute('aria-label') || (toggle as HTMLElement).innerText) : '';
+      if (label) return `${snake(label)}_menu`;
+      if (menuRegion) return menuRegion;
+    }
+
+    const landmark = element.closest('header, [role="banner"], nav, [role="navigation"], footer, [role="contentinfo"], aside, form, section, main');
+    if (!landmark) return `${pageName}_page`;
+
+    const tag = landmark.tagName.toLowerCase();
+    const role = landmark.getAttribute('role');
+    const label = landmark.getAttribute('aria-label') || landmark.getAttribute('data-testid') || landmark.id || '';
+
+    if (tag === 'header' || role === 'banner') return 'header';
+    if (tag === 'footer' || role === 'contentinfo') return 'footer';
+    if (tag === 'nav' || role === 'navigation') {
+      // Site-wide navigation sits in the header; anything else belongs to the page
+      return landmark.closest('header, [role="banner"]') ? `${snake(label) || 'main'}_navigation` : `${pageName}_${snake(label) || 'navigation'}`;
+    }
+    if (tag === 'aside') return `${pageName}_sidebar`;
+    if (tag === 'form') return `${pageName}_${snake(label) || 'form'}`;
+    if (tag === 'section') return `${pageName}_${snake(label || (landmark.className as string)) || 'section'}`;
+    return `${pageName}_main`;
+  };
+
+  const stableSelector = (element: HTMLElement): string => {
+    const tag = element.tagName.toLowerCase();
+    const testId = element.getAttribute('data-testid');
+    if (testId) return `[data-testid='${quote(testId)}']`;
+
+    if (element.id && !/\d{3,}|^[0-9]/.test(element.id)) return `#${CSS.escape(element.id)}`;
+
+    const ariaLabel = element.getAttribute('aria-label');
+    if (ariaLabel) return `${tag}[aria-label='${quote(ariaLabel)}']`;
+
+    const href = element.getAttribute('href');
+    if (tag === 'a' && href && !href.startsWith('javascript:')) return `a[href='${quote(href)}']`;
+
+    const name = element.getAttribute('name');
+    if (name && ['input', 'select', 'textarea'].includes(tag)) return `${tag}[name='${quote(name)}']`;
+
+    const type = element.getAttribute('type');
+    if (tag === 'input' && type && count(`input[type='${type}']`) === 1) return `input[type='${type}']`;
+
+    const classes = [...element.classList].filter(c => !/^(active|open|show|is-|js-)/.test(c)).slice(0, 2);
+    if (classes.length > 0) {
+      const classSelector = `${tag}.${classes.map(c => CSS.escape(c)).join('.')}`;
+      if (count(classSelector) === 1) return classSelector;
+    }
+
+    const text = element.innerText.replace(/\s+/g, ' ').trim();
+    return text ? `${tag}:has-text("${text.replace(/"/g, '\\"')}")` : tag;
+  };
+
+  const suffixOf = (element: HTMLElement): string => {
+    const tag = element.tagName.toLowerCase();
+    const type = element.getAttribute('type');
+    if (element.hasAttribute('aria-expanded') || element.getAttribute('aria-haspopup')) return '_dropdown';
+    if (tag === 'a' || element.getAttribute('role') === 'link') return '_link';
+    if (tag === 'select') return '_select';
+    if (tag === 'input' && (type === 'checkbox' || type === 'radio')) return `_${type}`;
+    if (tag === 'input' && (type === 'submit' || type === 'button')) return '_button';
+    if (tag === 'input' || tag === 'textarea') return '_input';
+    return '_button';
+  };
+
+  const candidates = document.querySelectorAll<HTMLElement>(
+    'a[href], button, input:not([type="hidden"]), select, textarea, [role="button"], [role="link"], [role="menuitem"], [role="tab"], [role="checkbox"]'
+  );
+  const results: RawElement[] = [];
+
+  candidates.forEach(element => {
+    if (!isVisible(element)) return;
+
+    if (!element.hasAttribute(attribute)) {
+      win.__kbCrawlSeq = (win.__kbCrawlSeq || 0) + 1;
+      element.setAttribute(attribute, String(win.__kbCrawlSeq));
+    }
+
+    const selector = stableSelector(element);
+    results.push({
+      crawlId: element.getAttribute(attribute)!,
+      region: regionOf(element),
+      name: accessibleName(element),
+      suffix: suffixOf(element),
+      selector,
+      tag: element.tagName.toLowerCase(),
+      role: element.getAttribute('role') || element.tagName.toLowerCase(),
+      matches: selector.includes(':has-text(') ? 1 : count(selector)
+    });
+  });
+
+  return results;
+}
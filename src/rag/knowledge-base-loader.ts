@@ -0,0 +1,241 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { KnowledgeBase } from '../types';
+
+const SUPPORTED_EXTENSIONS = ['.json', '.yaml', '.yml'];
+const SHARED_NAMESPACE = 'shared';
+
+type KnowledgeBaseSection = 'selectors' | 'endpoints';
+
+const SECTION_DIRS: Record<KnowledgeBaseSection, string> = {
+  selectors: 'selectors',
+  endpoints: 'apis'
+};
+
+export interface KnowledgeBaseOptions {
+  // Root directory holding selectors/ and apis/ (defaults to KB_DIR, then ./kb)
+  kbDir?: string;
+  // Site namespace loaded on top of the shared files (defaults to KB_SITE)
+  site?: string;
+}
+
+export interface KnowledgeBaseIssue {
+  type: 'duplicate_key' | 'conflicting_selector';
+  section: KnowledgeBaseSection;
+  namespace: string;
+  key: string;
+  // First entry is the one that was kept
+  files: string[];
+  values: string[];
+}
+
+export interface LoadedKnowledgeBase extends KnowledgeBase {
+  kb_dir: string;
+  site?: string;
+  files: string[];
+  // Shared keys replaced by the selected site's files
+  overrides: string[];
+  issues: KnowledgeBaseIssue[];
+}
+
+/**
+ * Resolve the knowledge base directory from an explicit path, KB_DIR or the
+ * repository's kb/ folder
+ */
+export function resolveKnowledgeBaseDir(kbDir?: string): string {
+  const dir = kbDir || process.env.KB_DIR;
+  return dir ? path.resolve(dir) : path.join(__dirname, '../../kb');
+}
+
+/**
+ * Loads every JSON/YAML file under kb/selectors and kb/apis.
+ * Files directly in those folders are shared by all sites; files in a
+ * subfolder (kb/selectors/<site>/...) belong to that site's namespace and
+ * override shared keys when the site is selected.
+ */
+export class KnowledgeBaseLoader {
+  private kbDir: string;
+  private site?: string;
+
+  constructor(options: KnowledgeBaseOptions = {}) {
+    this.kbDir = resolveKnowledgeBaseDir(options.kbDir);
+    this.site = options.site || process.env.KB_SITE || undefined;
+  }
+
+  load(): LoadedKnowledgeBase {
+    if (!fs.existsSync(this.kbDir)) {
+      throw new Error(`Knowledge base directory not found: ${this.kbDir}`);
+    }
+
+    const sites = this.listSites();
+    if (this.site && !sites.includes(this.site)) {
+      throw new Error(`Unknown knowledge base site "${this.site}" in ${this.kbDir} (available: ${sites.join(', ') || 'none'})`);
+    }
+
+    const loaded: LoadedKnowledgeBase = {
+      kb_dir: this.kbDir,
+      site: this.site,
+      selectors: {},
+      endpoints: {},
+      files: [],
+      overrides: [],
+      issues: []
+    };
+
+    for (const section of Object.keys(SECTION_DIRS) as KnowledgeBaseSection[]) {
+      const sectionDir = path.join(this.kbDir, SECTION_DIRS[section]);
+      const entries = this.loadNamespace(section, SHARED_NAMESPACE, this.findFiles(sectionDir, false), loaded);
+
+      if (this.site) {
+        const siteEntries = this.loadNamespace(section, this.site, this.findFiles(path.join(sectionDir, this.site), true), loaded);
+        for (const [category, values] of Object.entries(siteEntries)) {
+          entries[category] = entries[category] || {};
+          for (const [name, value] of Object.entries(values)) {
+            if (entries[category][name] !== undefined && entries[category][name] !== value) {
+              loaded.overrides.push(`${section}:${category}.${name}`);
+            }
+            entries[category][name] = value;
+          }
+        }
+      }
+
+      loaded[section] = entries;
+    }
+
+    this.logSummary(loaded, sites);
+    return loaded;
+  }
+
+  /**
+   * Site namespaces are the subfolders of kb/selectors and kb/apis
+   */
+  listSites(): string[] {
+    const sites = new Set<string>();
+    for (const dir of Object.values(SECTION_DIRS)) {
+      const sectionDir = path.join(this.kbDir, dir);
+      if (!fs.existsSync(sectionDir)) continue;
+      fs.readdirSync(sectionDir, { withFileTypes: true })
+        .filter(entry => entry.isDirectory())
+        .forEach(entry => sites.add(entry.name));
+    }
+    return [...sites].sort();
+  }
+
+  private loadNamespace(
+    section: KnowledgeBaseSection,
+    namespace: string,
+    files: string[],
+    loaded: LoadedKnowledgeBase
+  ): Record<string, Record<string, string>> {
+    const entries: Record<string, Record<string, string>> = {};
+    const sources = new Map<string, string>();
+
+    for (const file of files) {
+      const source = path.relative(process.cwd(), file);
+      loaded.files.push(source);
+
+      for (const [category, values] of Object.entries(this.parseFile(file))) {
+        entries[category] = entries[category] || {};
+
+        for (const [name, value] of Object.entries(values)) {
+          const key = `${category}.${name}`;
+          const existing = entries[category][name];
+
+          if (existing === undefined) {
+            entries[category][name] = value;
+            sources.set(key, source);
+            continue;
+          }
+
+          // First file (alphabetical) wins; later definitions are reported
+          const issue = loaded.issues.find(i => i.section === section && i.namespace === namespace && i.key === key);
+          if (issue) {
+            issue.files.push(source);
+            issue.values.push(value);
+            if (value !== existing) issue.type = 'conflicting_selector';
+          } else {
+            loaded.issues.push({
+              type: value === existing ? 'duplicate_key' : 'conflicting_selector',
+              section,
+              namespace,
+              key,
+              files: [sources.get(key)!, source],
+              values: [existing, value]
+            });
+          }
+        }
+      }
+    }
+
+    return entries;
+  }
+
+  private parseFile(file: string): Record<string, Record<string, string>> {
+    const content = fs.readFileSync(file, 'utf-8');
+    let data: unknown;
+
+    try {
+      data = path.extname(file).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content);
+    } catch (error) {
+      throw new Error(`Invalid knowledge base file ${file}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (data === null || data === undefined) {
+      return {};
+    }
+    if (typeof data !== 'object' || Array.isArray(data)) {
+      throw new Error(`Invalid knowledge base file ${file}: expected { category: { name: value } }`);
+    }
+
+    const entries: Record<string, Record<string, string>> = {};
+    for (const [category, values] of Object.entries(data as Record<string, unknown>)) {
+      if (typeof values !== 'object' || values === null || Array.isArray(values)) {
+        throw new Error(`Invalid knowledge base file ${file}: "${category}" must map names to values`);
+      }
+      entries[category] = {};
+      for (const [name, value] of Object.entries(values as Record<string, unknown>)) {
+        if (typeof value !== 'string') {
+          throw new Error(`Invalid knowledge base file ${file}: "${category}.${name}" must be a string`);
+        }
+        entries[category][name] = value;
+      }
+    }
+    return entries;
+  }
+
+  private findFiles(dir: string, recursive: boolean): string[] {
+    if (!fs.existsSync(dir)) {
+      return [];
+    }
+
+    return fs.readdirSync(dir, { withFileTypes: true })
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .flatMap(entry => {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          return recursive ? this.findFiles(fullPath, true) : [];
+        }
+        return SUPPORTED_EXTENSIONS.includes(path.extname(entry.name).toLowerCase()) ? [fullPath] : [];
+      });
+  }
+
+  private logSummary(loaded: LoadedKnowledgeBase, sites: string[]): void {
+    const count = (section: Record<string, Record<string, string>>) =>
+      Object.values(section).reduce((total, values) => total + Object.keys(values).length, 0);
+
+    console.log(`Knowledge base: ${count(loaded.selectors)} selectors, ${count(loaded.endpoints)} endpoints from ${loaded.files.length} files${loaded.site ? ` (site: ${loaded.site})` : ''}`);
+    if (!loaded.site && sites.length > 0) {
+      console.log(`   Site namespaces available: ${sites.join(', ')} (set KB_SITE or --site to load one)`);
+    }
+    if (loaded.overrides.length > 0) {
+      console.log(`   ${loaded.overrides.length} shared entries overridden by site ${loaded.site}`);
+    }
+
+    for (const issue of loaded.issues) {
+      const label = issue.type === 'conflicting_selector' ? 'Conflicting' : 'Duplicate';
+      const values = issue.type === 'conflicting_selector' ? ` (${issue.values.map(v => `"${v}"`).join(' vs ')})` : '';
+      console.warn(`   ${label} ${issue.section} key ${issue.namespace}:${issue.key} in ${issue.files.join(', ')}${values}; using ${issue.files[0]}`);
+    }
+  }
+}
@@ -1,60 +1,91 @@
-import * as fs from 'fs';
-import * as path from 'path';
 import { KnowledgeBase } from '../types';
+import { KnowledgeBaseLoader, KnowledgeBaseOptions, LoadedKnowledgeBase } from './knowledge-base-loader';
+import { Embedder, createEmbedder } from './embedders';
+import { RetrievalResult, VectorIndex } from './vector-index';
+
+export interface RetrieverOptions extends KnowledgeBaseOptions {
+  embedder?: Embedder;
+  // Results returned per query (defaults to RAG_TOP_K, then 8)
+  topK?: number;
+  // Cosine similarity below which results are dropped (defaults to RAG_MIN_SCORE, then 0.1)
+  minScore?: number;
+}
 
 export class RAGRetriever {
-  private kb: KnowledgeBase;
+  private kb!: LoadedKnowledgeBase;
+  private embedder: Embedder;
+  private topK: number;
+  private minScore: number;
+  private index: Promise<VectorIndex> | null = null;
 
-  constructor() {
-    this.loadKnowledgeBase();
+  constructor(options: RetrieverOptions = {}) {
+    this.loadKnowledgeBase(options);
+    this.embedder = options.embedder || createEmbedder();
+    this.topK = options.topK || parseInt(process.env.RAG_TOP_K || '8');
+    this.minScore = options.minScore ?? parseFloat(process.env.RAG_MIN_SCORE || '0.1');
   }
 
-  private loadKnowledgeBase(): void {
-    const selectorsPath = path.join(__dirname, '../../kb/selectors/common.json');
-    const endpointsPath = path.join(__dirname, '../../kb/apis/endpoints.json');
-    
-    this.kb = {
-      selectors: JSON.parse(fs.readFileSync(selectorsPath, 'utf-8')),
-      endpoints: JSON.parse(fs.readFileSync(endpointsPath, 'utf-8'))
-    };
+  private loadKnowledgeBase(options: KnowledgeBaseOptions): void {
+    this.kb = new KnowledgeBaseLoader(options).load();
   }
 
-  findRelevantSelectors(keywords: string[]): Record<string, string> {
-    const relevant: Record<string, string> = {};
-    
-    for (const keyword of keywords) {
-      for (const [category, selectors] of Object.entries(this.kb.selectors)) {
-        for (const [name, selector] of Object.entries(selectors)) {
-          if (name.includes(keyword.toLowerCase()) || 
-              category.includes(keyword.toLowerCase()) ||
-              keyword.toLowerCase().includes(name) ||
-              keyword.toLowerCase().includes(category)) {
-            relevant[`${category}.${name}`] = selector;
-          }
-        }
-      }
-    }
-    
-    return relevant;
+  /**
+   * Top-k selectors for a query (or keyword list) with their similarity scores
+   */
+  async retrieveSelectors(query: string | string[], k = this.topK, minScore = this.minScore): Promise<RetrievalResult[]> {
+    return (await this.getIndex()).search(this.toQuery(query), 'selectors', k, minScore);
   }
 
-  findRelevantEndpoints(keywords: string[]): string[] {
-    const relevant: string[] = [];
-    
-    for (const keyword of keywords) {
-      for (const [category, endpoints] of Object.entries(this.kb.endpoints)) {
-        for (const [name, endpoint] of Object.entries(endpoints)) {
-          if (name.includes(keyword.toLowerCase()) || 
-              category.includes(keyword.toLowerCase()) ||
-              keyword.toLowerCase().includes(name) ||
-              keyword.toLowerCase().includes(category)) {
-            relevant.push(`${category}.${name}: ${endpoint}`);
-          }
-        }
-      }
-    }
-    
-    return relevant;
+  /**
+   * Top-k API endpoints for a query (or keyword list) with their similarity scores
+   */
+  async retrieveEndpoints(query: string | string[], k = this.topK, minScore = this.minScore): Promise<RetrievalResult[]> {
+    return (await this.getIndex()).search(this.toQuery(query), 'endpoints', k, minScore);
+  }
+
+  /**
+   * Selector stored under a "category.name" key, if any
+   */
+  lookupSelector(key: string): string | undefined {
+    const [category, ...name] = key.split('.');
+    return this.kb.selectors[category]?.[name.join('.')];
+  }
+
+  async findRelevantSelectors(keywords: string | string[]): Promise<Record<string, string>> {
+    const results = await this.retrieveSelectors(keywords);
+    return Object.fromEntries(results.map(result => [result.key, result.value]));
+  }
+
+  async findRelevantEndpoints(keywords: string | string[]): Promise<string[]> {
+    const results = await this.retrieveEndpoints(keywords);
+    return results.map(result => `${result.key}: ${result.value}`);
+  }
+
+  private getIndex(): Promise<VectorIndex> {
+    this.index = this.index || this.buildIndex();
+    return this.index;
+  }
+
+  private async buildIndex(): Promise<VectorIndex> {
+    const documents = (['selectors', 'endpoints'] as const).flatMap(section =>
+      Object.entries(this.kb[section]).flatMap(([category, entries]) =>
+        Object.entries(entries).map(([name, value]) => ({
+          section,
+          key: `${category}.${name}`,
+          value,
+          // The entry name says the most about what it is, so it counts twice
+          text: `${category} ${name} ${name} ${value}`
+        }))
+      )
+    );
+
+    const index = new VectorIndex(this.embedder);
+    await index.build(documents);
+    return index;
+  }
+
+  private toQuery(query: string | string[]): string {
+    return Array.isArray(query) ? query.join(' ') : query;
   }
 
   extractKeywords(text: string): string[] {
@@ -67,6 +98,14 @@ export class RAGRetriever {
   }
 
   getKnowledgeBase(): KnowledgeBase {
-    return this.kb;
+    return { selectors: this.kb.selectors, endpoints: this.kb.endpoints };
+  }
+
+  /**
+   * Files loaded plus any duplicate keys or conflicting selectors found in them
+   */
+  getLoadReport(): Omit<LoadedKnowledgeBase, 'selectors' | 'endpoints'> {
+    const { selectors, endpoints, ...report } = this.kb;
+    return report;
   }
 }
@@ -0,0 +1,60 @@
+import { Embedder } from './embedders';
+
+export interface IndexedDocument {
+  section: 'selectors' | 'endpoints';
+  // Dotted knowledge base path, e.g. "experian_header.sign_in_button"
+  key: string;
+  value: string;
+  text: string;
+}
+
+export interface RetrievalResult {
+  key: string;
+  value: string;
+  score: number;
+}
+
+/**
+ * In-memory vector index searched by cosine similarity. Built once over the
+ * whole knowledge base so fitted embedders (TF-IDF) share one vocabulary.
+ */
+export class VectorIndex {
+  private documents: IndexedDocument[] = [];
+  private vectors: number[][] = [];
+
+  constructor(private embedder: Embedder) {}
+
+  async build(documents: IndexedDocument[]): Promise<void> {
+    this.documents = documents;
+    this.vectors = documents.length > 0 ? await this.embedder.embedDocuments(documents.map(doc => doc.text)) : [];
+  }
+
+  async search(query: string, section: IndexedDocument['section'], k: number, minScore = 0): Promise<RetrievalResult[]> {
+    if (this.documents.length === 0 || !query.trim()) {
+      return [];
+    }
+
+    const queryVector = await this.embedder.embedQuery(query);
+
+    return this.documents
+      .map((doc, i) => ({ doc, score: cosineSimilarity(queryVector, this.vectors[i]) }))
+      .filter(({ doc }) => doc.section === section)
+      .map(({ doc, score }) => ({ key: doc.key, value: doc.value, score }))
+      .filter(result => result.score > 0 && result.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k)
+      .map(result => ({ ...result, score: Math.round(result.score * 1000) / 1000 }));
+  }
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
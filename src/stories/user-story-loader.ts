@@ -0,0 +1,367 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { UserStory } from '../types';
+import { formatIssues } from '../llm/structured-output';
+
+const SUPPORTED_EXTENSIONS = ['.feature', '.md', '.markdown', '.csv', '.jsonl'];
+
+// "Acceptance Criteria" as a heading or a line of its own, optionally bold
+const CRITERIA_LABEL = /^(\*\*|__)?acceptance criteria(\*\*|__)?:?(\*\*|__)?$/i;
+
+const jsonlCriteria = z.union([z.array(z.union([z.string(), z.number()])), z.string()]).optional();
+
+// One line of a .jsonl story file; trackers name the description differently
+const JsonlStorySchema = z.object({
+  id: z.union([z.string(), z.number()]).optional(),
+  description: z.string().optional(),
+  user_story: z.string().optional(),
+  story: z.string().optional(),
+  acceptance_criteria: jsonlCriteria,
+  acceptanceCriteria: jsonlCriteria
+});
+
+/**
+ * Loads user stories from tracker exports and spec files.
+ * Supports Gherkin (.feature), Markdown, CSV and JSONL, either as a
+ * single file or a directory scanned recursively.
+ */
+export class UserStoryLoader {
+  /**
+   * Load every story found at a file or directory path
+   */
+  load(inputPath: string): UserStory[] {
+    const resolved = path.resolve(inputPath);
+
+    if (!fs.existsSync(resolved)) {
+      throw new Error(`User story path not found: ${inputPath}`);
+    }
+
+    const files = fs.statSync(resolved).isDirectory()
+      ? this.findStoryFiles(resolved)
+      : [resolved];
+
+    const stories = files.flatMap(file => this.loadFile(file));
+
+    if (stories.length === 0) {
+      throw new Error(`No user stories found in ${inputPath}`);
+    }
+
+    return stories;
+  }
+
+  /**
+   * Load the stories contained in a single file
+   */
+  loadFile(filePath: string): UserStory[] {
+    const content = fs.readFileSync(filePath, 'utf-8');
+    const source = path.relative(process.cwd(), filePath);
+
+    let stories: UserStory[];
+    switch (path.extname(filePath).toLowerCase()) {
+      case '.feature':
+        stories = this.parseGherkin(content);
+        break;
+      case '.md':
+      case '.markdown':
+        stories = this.parseMarkdown(content);
+        break;
+      case '.csv':
+        stories = this.parseCsv(content);
+        break;
+      case '.jsonl':
+        stories = this.parseJsonl(content, source);
+        break;
+      default:
+        throw new Error(`Unsupported user story format: ${filePath}`);
+    }
+
+    return stories.map((story, index) => ({
+      ...story,
+      id: story.id || `${path.basename(filePath, path.extname(filePath))}-${index + 1}`,
+      source
+    }));
+  }
+
+  private findStoryFiles(dir: string): string[] {
+    return fs.readdirSync(dir, { withFileTypes: true })
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .flatMap(entry => {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          return this.findStoryFiles(fullPath);
+        }
+        return SUPPORTED_EXTENSIONS.includes(path.extname(entry.name).toLowerCase()) ? [fullPath] : [];
+      });
+  }
+
+  /**
+   * One story per Feature; each Scenario (with its steps) becomes a criterion.
+   * Background steps set up every scenario, so they are in neither.
+   */
+  private parseGherkin(content: string): UserStory[] {
+    const stories: UserStory[] = [];
+    let current: { title: string; narrative: string[]; criteria: string[] } | null = null;
+    let scenario: { name: string; steps: string[] } | null = null;
+    let inBackground = false;
+
+    const flushScenario = () => {
+      if (current && scenario) {
+        const steps = scenario.steps.length > 0 ? `: ${scenario.steps.join(', ')}` : '';
+        current.criteria.push(`${scenario.name}${steps}`);
+      }
+      scenario = null;
+    };
+
+    const flushFeature = () => {
+      flushScenario();
+      if (current) {
+        stories.push({
+          id: this.slugify(current.title) || undefined,
+          description: [current.title, ...current.narrative].join('. '),
+          acceptance_criteria: current.criteria
+        });
+      }
+      current = null;
+    };
+
+    for (const rawLine of content.split('\n')) {
+      const line = rawLine.trim();
+      if (!line || line.startsWith('#') || line.startsWith('@') || line.startsWith('|')) {
+        continue;
+      }
+
+      const feature = line.match(/^Feature:\s*(.+)$/i);
+      const scenarioHeader = line.match(/^Scenario(?: Outline| Template)?:\s*(.+)$/i);
+      const step = line.match(/^(Given|When|Then|And|But|\*)\s+(.+)$/i);
+
+      if (feature) {
+        flushFeature();
+        current = { title: feature[1], narrative: [], criteria: [] };
+        inBackground = false;
+      } else if (scenarioHeader) {
+        flushScenario();
+        scenario = { name: scenarioHeader[1], steps: [] };
+        inBackground = false;
+      } else if (/^Background:/i.test(line)) {
+        flushScenario();
+        inBackground = true;
+      } else if (step && scenario) {
+        scenario.steps.push(line);
+      } else if (/^(Rule|Examples|Scenarios):/i.test(line)) {
+        flushScenario();
+        inBackground = false;
+      } else if (current && !scenario && !inBackground) {
+        current.narrative.push(line);
+      }
+    }
+    flushFeature();
+
+    return stories;
+  }
+
+  /**
+   * One story per heading; list items under an "Acceptance Criteria"
+   * heading or label become criteria, other text becomes the description
+   */
+  private parseMarkdown(content: string): UserStory[] {
+    const stories: UserStory[] = [];
+    let current: { title: string; text: string[]; criteria: string[] } | null = null;
+    let inCriteria = false;
+    const storyLevel = this.markdownStoryLevel(content);
+
+    const flush = () => {
+      if (current && (current.text.length > 0 || current.criteria.length > 0)) {
+        stories.push({
+          id: this.slugify(current.title) || undefined,
+          description: current.text.length > 0 ? current.text.join(' ') : current.title,
+          acceptance_criteria: current.criteria
+        });
+      }
+      current = null;
+    };
+
+    for (const rawLine of content.split('\n')) {
+      const line = rawLine.trim();
+      const heading = line.match(/^(#{1,6})\s+(.+)$/);
+
+      if (heading) {
+        const level = heading[1].length;
+        const title = heading[2].trim();
+
+        if (current && CRITERIA_LABEL.test(title)) {
+          inCriteria = true;
+        } else if (level === storyLevel) {
+          flush();
+          current = { title, text: [], criteria: [] };
+          inCriteria = false;
+        } else if (level < storyLevel) {
+          // Document or section title above the stories
+          flush();
+        } else {
+          inCriteria = false;
+        }
+        continue;
+      }
+
+      if (!current || !line) {
+        continue;
+      }
+
+      if (CRITERIA_LABEL.test(line)) {
+        inCriteria = true;
+        continue;
+      }
+
+      const listItem = line.match(/^(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?(.+)$/);
+      if (inCriteria && listItem) {
+        current.criteria.push(listItem[1].trim());
+      } else if (!inCriteria) {
+        current.text.push(listItem ? listItem[1].trim() : line);
+      }
+    }
+    flush();
+
+    return stories;
+  }
+
+  /**
+   * Heading level that starts a story: the highest level used more than
+   * once, so a lone "# Sprint 12" above "## Story" sections is the title
+   * of the document. A file with one story uses its top heading.
+   */
+  private markdownStoryLevel(content: string): number {
+    const levels = content.split('\n')
+      .map(line => line.trim().match(/^(#{1,6})\s+(.+)$/))
+      .filter((heading): heading is RegExpMatchArray => !!heading && !CRITERIA_LABEL.test(heading[2].trim()))
+      .map(heading => heading[1].length);
+    const repeated = levels.filter((level, index) => levels.indexOf(level) !== index);
+    return Math.min(...(repeated.length > 0 ? repeated : levels));
+  }
+
+  /**
+   * Tracker CSV export: a description-like column is required,
+   * criteria are split on newlines or semicolons
+   */
+  private parseCsv(content: string): UserStory[] {
+    const rows = this.parseCsvRows(content);
+    if (rows.length < 2) {
+      return [];
+    }
+
+    const headers = rows[0].map(header => header.trim().toLowerCase());
+    // Candidates are in priority order: "description" wins over "summary"
+    const findColumn = (candidates: string[]) => {
+      const name = candidates.find(candidate => headers.includes(candidate));
+      return name !== undefined ? headers.indexOf(name) : -1;
+    };
+
+    const descriptionCol = findColumn(['description', 'user story', 'story', 'summary', 'title']);
+    const criteriaCol = findColumn(['acceptance criteria', 'acceptance_criteria', 'criteria']);
+    const idCol = findColumn(['id', 'key', 'issue key', 'issue id']);
+
+    if (descriptionCol === -1) {
+      throw new Error(`CSV has no description column (found: ${headers.join(', ')})`);
+    }
+
+    return rows.slice(1)
+      .filter(row => (row[descriptionCol] || '').trim())
+      .map(row => ({
+        id: idCol !== -1 && row[idCol] ? row[idCol].trim() : undefined,
+        description: row[descriptionCol].trim(),
+        acceptance_criteria: criteriaCol !== -1 && row[criteriaCol]
+          ? row[criteriaCol].split(/\r?\n|;/)
+              .map(criterion => criterion.replace(/^\s*(?:[-*+]|\d+[.)])\s+/, '').trim())
+              .filter(Boolean)
+          : []
+      }));
+  }
+
+  private parseCsvRows(content: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+
+      if (inQuotes) {
+        if (char === '"' && content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[i + 1] === '\n') {
+          i++;
+        }
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (field || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    return rows.filter(r => r.some(value => value.trim()));
+  }
+
+  /**
+   * One JSON object per line with description and optional acceptance_criteria
+   */
+  private parseJsonl(content: string, source: string): UserStory[] {
+    return content.split('\n')
+      .map((line, index) => ({ line: line.trim(), index }))
+      .filter(({ line }) => line)
+      .map(({ line, index }) => {
+        let json: unknown;
+        try {
+          json = JSON.parse(line);
+        } catch (error) {
+          throw new Error(`${source}:${index + 1}: invalid JSON: ${error}`);
+        }
+
+        const parsed = JsonlStorySchema.safeParse(json);
+        if (!parsed.success) {
+          throw new Error(`${source}:${index + 1}: ${formatIssues(parsed.error)}`);
+        }
+        const record = parsed.data;
+
+        const description = record.description || record.user_story || record.story;
+        if (!description || !description.trim()) {
+          throw new Error(`${source}:${index + 1}: missing description`);
+        }
+
+        const criteria = record.acceptance_criteria ?? record.acceptanceCriteria ?? [];
+        return {
+          id: record.id ? String(record.id) : undefined,
+          description: description.trim(),
+          acceptance_criteria: (Array.isArray(criteria) ? criteria : [criteria]).map(String)
+        };
+      });
+  }
+
+  private slugify(text: string): string {
+    return text
+      .toLowerCase()
+      .replace(/[^a-z0-9\s-]/g, '')
+      .trim()
+      .replace(/\s+/g, '-')
+      .replace(/-+/g, '-');
+  }
+}
@@ -0,0 +1,91 @@
+import { TestSecrets, UserCredentials } from './secrets';
+import { SyntheticData } from './synthetic';
+
+export interface UserFixtures {
+  valid: UserCredentials;
+  locked: UserCredentials;
+  // Well-formed credentials for an account that does not exist
+  unregistered: UserCredentials;
+}
+
+export interface ValidInputFixtures {
+  text: string;
+  name: string;
+  phone: string;
+  zipCode: string;
+  searchTerm: string;
+}
+
+export interface InvalidInputFixtures {
+  email: string;
+  emailWithoutDomain: string;
+  password: string;
+  phone: string;
+  zipCode: string;
+  empty: string;
+  whitespace: string;
+}
+
+export interface BoundaryInputFixtures {
+  longEmail: string;
+  longPassword: string;
+  longText: string;
+  singleCharacter: string;
+  unicode: string;
+  specialCharacters: string;
+  htmlInjection: string;
+  sqlInjection: string;
+}
+
+export interface TestDataFixtures {
+  users: UserFixtures;
+  valid: ValidInputFixtures;
+  invalid: InvalidInputFixtures;
+  boundary: BoundaryInputFixtures;
+  // Seeded generators referenced as synthetic.<name> in scenario steps
+  synthetic: SyntheticData;
+}
+
+/**
+ * Data for generated tests, grouped by the scenario type that uses it:
+ * users and valid for positive flows, invalid for negative ones and
+ * boundary for edge cases. Account credentials are read from secrets
+ * when a test first uses them.
+ */
+export function createTestData(secrets: TestSecrets = new TestSecrets(), synthetic: SyntheticData = new SyntheticData()): TestDataFixtures {
+  return {
+    users: {
+      get valid() { return secrets.getUser('valid_user'); },
+      get locked() { return secrets.getUser('locked_user'); },
+      unregistered: { email: 'no.such.user@example.com', password: 'Password123!' }
+    },
+    valid: {
+      text: 'Playwright test',
+      name: 'Jane Tester',
+      phone: '5555550100',
+      zipCode: '92626',
+      searchTerm: 'credit report'
+    },
+    invalid: {
+      email: 'not-an-email',
+      emailWithoutDomain: 'jane.tester@',
+      password: 'WrongPassword!1',
+      phone: '123',
+      zipCode: 'ABCDE',
+      empty: '',
+      whitespace: '   '
+    },
+    boundary: {
+      // 64-character local part, the longest RFC 5321 allows
+      longEmail: `${'a'.repeat(64)}@example.com`,
+      longPassword: 'P@ssw0rd'.repeat(16),
+      longText: 'x'.repeat(256),
+      singleCharacter: 'a',
+      unicode: 'Zoë Ñandú 测试 🙂',
+      specialCharacters: '!@#$%^&*()_+-=[]{}|;:\'",.<>/?`~',
+      htmlInjection: '<script>alert("xss")</script>',
+      sqlInjection: "' OR '1'='1' --"
+    },
+    synthetic
+  };
+}
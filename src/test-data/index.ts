@@ -0,0 +1,8 @@
+// Test data for generated specs: import { testData } from '@test-data'
+export * from './secrets';
+export * from './fixtures';
+export * from './synthetic';
+
+import { createTestData } from './fixtures';
+
+export const testData = createTestData();
@@ -0,0 +1,81 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+export interface UserCredentials {
+  email: string;
+  password: string;
+}
+
+export type SecretUser = 'valid_user' | 'locked_user';
+
+// test-credentials.json: { "<environment>": { "valid_user": { "email": "...", "password": "..." } } }
+type CredentialsFile = Record<string, Partial<Record<SecretUser, Partial<UserCredentials>>>>;
+
+// Environment variables override the credentials file
+const ENV_OVERRIDES: Record<SecretUser, Record<keyof UserCredentials, string>> = {
+  valid_user: { email: 'TEST_USER_EMAIL', password: 'TEST_USER_PASSWORD' },
+  locked_user: { email: 'TEST_LOCKED_USER_EMAIL', password: 'TEST_LOCKED_USER_PASSWORD' }
+};
+
+// Accounts built into scripts/serve-fixture-site.ts
+const FIXTURE_USERS: Record<SecretUser, UserCredentials> = {
+  valid_user: {
+    email: process.env.FIXTURE_USER_EMAIL || 'test.user@example.com',
+    password: process.env.FIXTURE_USER_PASSWORD || 'Password123!'
+  },
+  locked_user: { email: 'locked.user@example.com', password: 'Password123!' }
+};
+
+export const DEFAULT_CREDENTIALS_FILE = path.join(__dirname, '../../test-credentials.json');
+
+/**
+ * Test account secrets for one environment (TEST_ENV, or "fixture" when
+ * FIXTURE_SITE=true and "live" otherwise). Values come from environment
+ * variables, then the environment's section of test-credentials.json, then
+ * the fixture site's built-in accounts when testing the fixture site.
+ */
+export class TestSecrets {
+  readonly environment: string;
+  private file: CredentialsFile;
+
+  constructor(environment?: string, credentialsFile?: string) {
+    this.environment = environment || process.env.TEST_ENV || (process.env.FIXTURE_SITE === 'true' ? 'fixture' : 'live');
+    this.file = TestSecrets.readFile(credentialsFile || process.env.TEST_CREDENTIALS_FILE || DEFAULT_CREDENTIALS_FILE);
+  }
+
+  /**
+   * Credentials for an account; throws when the environment has none, so
+   * only tests that actually sign in need secrets configured
+   */
+  getUser(user: SecretUser): UserCredentials {
+    const fromFile = this.file[this.environment]?.[user] || {};
+    const fallback = this.environment === 'fixture' ? FIXTURE_USERS[user] : undefined;
+
+    const credentials = {
+      email: process.env[ENV_OVERRIDES[user].email] || fromFile.email || fallback?.email,
+      password: process.env[ENV_OVERRIDES[user].password] || fromFile.password || fallback?.password
+    };
+
+    if (!credentials.email || !credentials.password) {
+      throw new Error(
+        `No ${user} credentials for test environment "${this.environment}": set ${ENV_OVERRIDES[user].email}/${ENV_OVERRIDES[user].password} ` +
+        `or add "${this.environment}.${user}" to test-credentials.json`
+      );
+    }
+    return credentials as UserCredentials;
+  }
+
+  private static readFile(filePath: string): CredentialsFile {
+    if (!fs.existsSync(filePath)) {
+      return {};
+    }
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Could not parse ${filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
@@ -0,0 +1,216 @@
+export type SyntheticGeneratorName =
+  | 'malformedEmail'
+  | 'malformedSsn'
+  | 'invalidDateOfBirth'
+  | 'overlongString'
+  | 'unicodeText'
+  | 'injectionPayload'
+  | 'whitespaceVariant';
+
+interface SyntheticGenerator {
+  description: string;
+  generate: (random: SeededRandom, variant: number) => string;
+}
+
+export const DEFAULT_SYNTHETIC_SEED = 'playwright-ai-test-data';
+
+const LOWERCASE = 'abcdefghijklmnopqrstuvwxyz';
+const ALPHANUMERIC = `${LOWERCASE}ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789`;
+
+// Lengths past common maxlength attributes and database column sizes
+const OVERLONG_LENGTHS = [256, 1024, 5000];
+
+const UNICODE_PARTS: string[][] = [
+  ['Zoë', 'José', 'Łukasz', 'Ñandú', 'Søren', 'Ağça'],
+  ['测试用户', 'テスト', '김민준'],
+  ['مرحبا', 'שלום'],
+  ['🙂', '👩‍💻', '🇺🇸', '✔️'],
+  // Combining accent and zero-width joiner: look like plain text, differ in code points
+  ['e\u0301', 'a\u200db']
+];
+
+const INJECTION_PAYLOADS: Array<(n: number) => string> = [
+  () => "' OR '1'='1' --",
+  n => `'; DROP TABLE users${n}; --`,
+  () => '1 UNION SELECT null, version() --',
+  n => `<script>alert(${n})</script>`,
+  n => `"><img src=x onerror=alert(${n})>`,
+  n => `javascript:alert(${n})`,
+  () => '{{7*7}}',
+  () => '$' + '{7*7}',
+  () => '; cat /etc/passwd',
+  () => '| whoami',
+  () => '../../../../etc/passwd',
+  n => `test\r\nSet-Cookie: injected=${n}`
+];
+
+/**
+ * Small deterministic PRNG (mulberry32) seeded from a string
+ */
+class SeededRandom {
+  private state: number;
+
+  constructor(seed: string) {
+    // FNV-1a hash of the seed
+    let hash = 2166136261;
+    for (let i = 0; i < seed.length; i++) {
+      hash = Math.imul(hash ^ seed.charCodeAt(i), 16777619);
+    }
+    this.state = hash >>> 0;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  pick<T>(items: T[]): T {
+    return items[this.int(0, items.length - 1)];
+  }
+
+  string(length: number, alphabet = LOWERCASE): string {
+    return Array.from({ length }, () => alphabet[this.int(0, alphabet.length - 1)]).join('');
+  }
+
+  digits(length: number): string {
+    return this.string(length, '0123456789');
+  }
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+const GENERATORS: Record<SyntheticGeneratorName, SyntheticGenerator> = {
+  malformedEmail: {
+    description: 'Email address with one defect: no @, double @, no local part, no domain or TLD, leading or doubled dots, a space',
+    generate: random => {
+      const local = random.string(random.int(5, 9));
+      const domain = `${random.string(random.int(5, 8))}.com`;
+      return random.pick([
+        `${local}${domain}`,
+        `${local}@@${domain}`,
+        `@${domain}`,
+        `${local}@`,
+        `${local}@${domain.replace('.com', '')}`,
+        `.${local}@${domain}`,
+        `${local}..${random.string(3)}@${domain}`,
+        `${local} ${random.string(4)}@${domain}`
+      ]);
+    }
+  },
+  malformedSsn: {
+    description: 'SSN-shaped value that is not a valid SSN: wrong digit count or grouping, area 000/666/9xx, group 00, serial 0000, a letter',
+    generate: random => {
+      // A valid area number, so each value has exactly one defect
+      const area = pad(random.int(1, 665), 3);
+      const group = pad(random.int(1, 99));
+      const serial = pad(random.int(1, 9999), 4);
+      return random.pick([
+        `${area}-${group}-${serial.slice(0, 3)}`,
+        `000-${group}-${serial}`,
+        `666-${group}-${serial}`,
+        `9${random.digits(2)}-${group}-${serial}`,
+        `${area}-00-${serial}`,
+        `${area}-${group}-0000`,
+        `${area}-${group}-${serial.slice(0, 3)}X`,
+        `${area.slice(0, 2)}-${area.slice(2)}${group}-${serial}`
+      ]);
+    }
+  },
+  invalidDateOfBirth: {
+    description: 'Date of birth that cannot be accepted (MM/DD/YYYY): impossible day or month, far future, before 1900, two-digit year, all zeros',
+    generate: random => {
+      const month = pad(random.int(1, 12));
+      const day = pad(random.int(1, 28));
+      const year = random.int(1950, 2000);
+      return random.pick([
+        `02/30/${year}`,
+        `13/${day}/${year}`,
+        `${month}/32/${year}`,
+        `${month}/${day}/${random.int(2100, 2199)}`,
+        `${month}/${day}/${random.int(1800, 1899)}`,
+        `${month}/${day}/${String(year).slice(2)}`,
+        '00/00/0000'
+      ]);
+    }
+  },
+  overlongString: {
+    description: `Alphanumeric string far past typical field limits (${OVERLONG_LENGTHS.join(', ')} characters by variant)`,
+    generate: (random, variant) => random.string(OVERLONG_LENGTHS[variant % OVERLONG_LENGTHS.length], ALPHANUMERIC)
+  },
+  unicodeText: {
+    description: 'Mix of accented Latin, CJK, right-to-left script, emoji and combining or zero-width characters',
+    generate: random => {
+      const pools = [...UNICODE_PARTS];
+      const parts: string[] = [];
+      for (let i = 0; i < 3; i++) {
+        const [pool] = pools.splice(random.int(0, pools.length - 1), 1);
+        parts.push(random.pick(pool));
+      }
+      return parts.join(' ');
+    }
+  },
+  injectionPayload: {
+    description: 'SQL, HTML/script, template, command, path traversal or CRLF header injection payload',
+    generate: random => random.pick(INJECTION_PAYLOADS)(random.int(1, 999))
+  },
+  whitespaceVariant: {
+    description: 'Whitespace-only value or a word padded with spaces, tabs, newlines, non-breaking or zero-width spaces',
+    generate: random => {
+      const word = random.string(random.int(4, 8));
+      return random.pick([
+        ' '.repeat(random.int(1, 5)),
+        ' \t\n ',
+        `  ${word}`,
+        `${word}  `,
+        `\t${word}\n`,
+        `${word}\u00a0`,
+        `\u200b${word}`
+      ]);
+    }
+  }
+};
+
+export const SYNTHETIC_GENERATOR_NAMES = Object.keys(GENERATORS) as SyntheticGeneratorName[];
+
+/**
+ * Seeded generators for negative and edge inputs. A value depends only on
+ * the seed, the generator and the variant, so the same spec types the same
+ * input on every run and a failure can be reproduced from TEST_DATA_SEED.
+ */
+export class SyntheticData {
+  readonly seed: string;
+
+  constructor(seed?: string) {
+    this.seed = seed || process.env.TEST_DATA_SEED || DEFAULT_SYNTHETIC_SEED;
+  }
+
+  static isGenerator(name: string): name is SyntheticGeneratorName {
+    return Object.prototype.hasOwnProperty.call(GENERATORS, name);
+  }
+
+  generate(name: SyntheticGeneratorName, variant = 0): string {
+    return GENERATORS[name].generate(new SeededRandom(`${this.seed}:${name}:${variant}`), variant);
+  }
+
+  malformedEmail(variant = 0): string { return this.generate('malformedEmail', variant); }
+  malformedSsn(variant = 0): string { return this.generate('malformedSsn', variant); }
+  invalidDateOfBirth(variant = 0): string { return this.generate('invalidDateOfBirth', variant); }
+  overlongString(variant = 0): string { return this.generate('overlongString', variant); }
+  unicodeText(variant = 0): string { return this.generate('unicodeText', variant); }
+  injectionPayload(variant = 0): string { return this.generate('injectionPayload', variant); }
+  whitespaceVariant(variant = 0): string { return this.generate('whitespaceVariant', variant); }
+}
+
+/**
+ * Prompt lines: one per generator, as steps reference them ("synthetic.<name>")
+ */
+export function describeSyntheticGenerators(): string {
+  return SYNTHETIC_GENERATOR_NAMES.map(name => `- synthetic.${name}: ${GENERATORS[name].description}`).join('\n');
+}
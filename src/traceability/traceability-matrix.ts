@@ -0,0 +1,138 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PlaywrightTest, TestScenario, UserStory } from '../types';
+
+export interface CriterionTrace {
+  index: number;
+  criterion: string;
+  covered: boolean;
+  scenarios: Array<{ title: string; type: TestScenario['type'] }>;
+  spec_files: string[];
+  tests: Array<{ spec_file: string; name: string }>;
+}
+
+export interface TraceabilityMatrix {
+  story_id?: string;
+  user_story: string;
+  generated_at: string;
+  coverage: {
+    total_criteria: number;
+    covered_criteria: number;
+    percentage: number;
+  };
+  criteria: CriterionTrace[];
+  uncovered_criteria: string[];
+  // Specs that do not claim any criterion, e.g. extra negative/edge coverage
+  untraced_spec_files: string[];
+}
+
+/**
+ * Links each acceptance criterion to the scenarios, spec files and
+ * test names that cover it, so QA can prove coverage before sign-off.
+ */
+export class TraceabilityMatrixBuilder {
+  /**
+   * Build the criterion → scenarios → spec files → test names matrix
+   */
+  build(userStory: UserStory, scenarios: TestScenario[], tests: PlaywrightTest[]): TraceabilityMatrix {
+    const criteria = userStory.acceptance_criteria || [];
+
+    const traces: CriterionTrace[] = criteria.map((criterion, i) => {
+      const coveringScenarios = scenarios.filter(s => (s.covers_criteria || []).includes(criterion));
+      const coveringTests = tests.filter(t => (t.covers_criteria || []).includes(criterion));
+
+      return {
+        index: i + 1,
+        criterion,
+        covered: coveringTests.length > 0,
+        scenarios: coveringScenarios.map(s => ({ title: s.title, type: s.type })),
+        spec_files: coveringTests.map(t => t.filename),
+        tests: coveringTests.flatMap(t =>
+          this.extractTestNames(t.content).map(name => ({ spec_file: t.filename, name }))
+        )
+      };
+    });
+
+    const coveredCount = traces.filter(t => t.covered).length;
+
+    return {
+      story_id: userStory.id,
+      user_story: userStory.description,
+      generated_at: new Date().toISOString(),
+      coverage: {
+        total_criteria: criteria.length,
+        covered_criteria: coveredCount,
+        percentage: criteria.length > 0 ? Math.round((coveredCount / criteria.length) * 100) : 100
+      },
+      criteria: traces,
+      uncovered_criteria: traces.filter(t => !t.covered).map(t => t.criterion),
+      untraced_spec_files: tests
+        .filter(t => (t.covers_criteria || []).length === 0)
+        .map(t => t.filename)
+    };
+  }
+
+  /**
+   * Prepend a header comment listing the criteria a spec covers
+   */
+  annotateSpec(test: PlaywrightTest): string {
+    const criteria = test.covers_criteria || [];
+    if (criteria.length === 0 || test.content.startsWith('// Covers acceptance criteria:')) {
+      return test.content;
+    }
+
+    const header = [
+      '// Covers acceptance criteria:',
+      ...criteria.map(criterion => `//   - ${criterion.replace(/\r?\n/g, ' ')}`)
+    ].join('\n');
+
+    return `${header}\n${test.content}`;
+  }
+
+  /**
+   * Write traceability-matrix.json and a Markdown table for reviewers
+   */
+  save(matrix: TraceabilityMatrix, outputDir: string): string {
+    const jsonPath = path.join(outputDir, 'traceability-matrix.json');
+    fs.writeFileSync(jsonPath, JSON.stringify(matrix, null, 2));
+    fs.writeFileSync(path.join(outputDir, 'traceability-matrix.md'), this.toMarkdown(matrix));
+    return jsonPath;
+  }
+
+  private extractTestNames(content: string): string[] {
+    const names: string[] = [];
+    const pattern = /\btest(?:\.only|\.skip|\.fixme|\.fail)?\(\s*(['"`])((?:\\.|(?!\1)[^\\])*)\1/g;
+
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(content)) !== null) {
+      names.push(match[2].replace(/\\(.)/g, '$1'));
+    }
+
+    return names;
+  }
+
+  private toMarkdown(matrix: TraceabilityMatrix): string {
+    const escape = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+    const rows = matrix.criteria.map(trace =>
+      `| ${trace.index} | ${escape(trace.criterion)} | ${trace.covered ? 'Yes' : '**No**'} | ` +
+      `${trace.scenarios.map(s => escape(s.title)).join('<br>') || '-'} | ` +
+      `${trace.spec_files.map(f => `\`${f}\``).join('<br>') || '-'} | ` +
+      `${trace.tests.map(t => escape(t.name)).join('<br>') || '-'} |`
+    );
+
+    return `# Acceptance Criteria Traceability
+
+**Story**: ${matrix.story_id ? `${matrix.story_id} - ` : ''}${matrix.user_story}
+**Generated**: ${matrix.generated_at}
+**Coverage**: ${matrix.coverage.covered_criteria}/${matrix.coverage.total_criteria} criteria (${matrix.coverage.percentage}%)
+
+| # | Criterion | Covered | Scenarios | Spec Files | Tests |
+|---|-----------|---------|-----------|------------|-------|
+${rows.join('\n') || '| - | No acceptance criteria provided | - | - | - | - |'}
+${matrix.uncovered_criteria.length > 0 ? `
+## Uncovered Criteria
+
+${matrix.uncovered_criteria.map(c => `- ${c}`).join('\n')}
+` : ''}`;
+  }
+}
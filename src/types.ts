@@ -1,6 +1,8 @@
 export interface UserStory {
+  id?: string;
   description: string;
   acceptance_criteria?: string[];
+  source?: string;
 }
 
 export interface TestScenario {
@@ -10,21 +12,188 @@ export interface TestScenario {
   steps: string[];
   expected_outcome: string;
   device?: 'desktop' | 'mobile' | 'tablet';
+  covers_criteria?: string[];
 }
 
+export type StepActionKind = 'navigate' | 'click' | 'fill' | 'check' | 'assert';
+
+export interface StepBinding {
+  // 0-based index into the scenario's steps
+  step_index: number;
+  step: string;
+  action: StepActionKind;
+  // Knowledge base key ("category.name") of the element the step acts on
+  target?: string;
+  selector?: string;
+  // Page object member to call instead of a raw selector, e.g. "SignInPage.signIn"
+  page_object_member?: string;
+  // Literal value from the story for fill steps
+  test_data?: string;
+  // Fixture used when the story gives no value, e.g. "testData.invalid.email" (see src/test-data)
+  test_data_ref?: string;
+  // Why a step that needs an element has none bound
+  missing_reason?: string;
+}
+
+// Agent B's LLM answer for one scenario
+export interface ScenarioValidation {
+  relevant_selectors: Record<string, string>;
+  relevant_endpoints: string[];
+  validation_notes: string[];
+  confidence_score: number;
+  // Checked one by one by StepBinder, so one bad proposal does not discard the rest
+  step_bindings: unknown[];
+}
+
+// Binding Agent B's LLM proposes for a step, before StepBinder checks it
+export type StepBindingProposal = Pick<StepBinding, 'step_index'>
+  & Partial<Pick<StepBinding, 'action' | 'target' | 'page_object_member' | 'test_data'>>;
+
 export interface ValidatedScenario extends TestScenario {
   selectors: Record<string, string>;
   api_endpoints: string[];
   validation_notes: string[];
+  // 0-1: Agent B's own score, or an estimate from step/endpoint coverage on the fallback path
+  confidence_score: number;
+  step_bindings: StepBinding[];
+}
+
+export interface NetworkMockPlan {
+  // "METHOD /path" as in kb/apis, e.g. "POST /api/v1/auth/login"
+  endpoint: string;
+  // Knowledge base key ("category.name") of the endpoint, if it has one
+  endpoint_key?: string;
+  mode: 'success' | 'server_error' | 'unauthorized' | 'timeout' | 'slow';
+  // Scenario wording that asked for the mock
+  reason: string;
+  // Index of the scenario step that switches the mock on (e.g. "The session expires"); before the first step when absent
+  at_step?: number;
+}
+
+// What a plan step acts on: a page object member, a knowledge base element or visible text
+export interface PlanTarget {
+  page_object_member?: string;
+  kb_key?: string;
+  selector?: string;
+  text?: string;
+}
+
+// Value a step types: a literal from the story or a testData expression
+export interface PlanData {
+  literal?: string;
+  ref?: string;
+}
+
+interface PlanStepBase {
+  // 0-based index into the scenario's steps; the outcome check comes after the last step
+  step_index: number;
+  step: string;
+}
+
+/**
+ * One step of a test plan. Every kind except "llm" compiles to code
+ * without the LLM; "unbound" steps are left as a MISSING BINDING note.
+ */
+export type PlanStep = PlanStepBase & (
+  | { kind: 'navigate'; url?: string; target?: PlanTarget }
+  | { kind: 'click'; target: PlanTarget }
+  | { kind: 'fill'; target: PlanTarget; data: PlanData }
+  | { kind: 'select'; target: PlanTarget; data: PlanData }
+  | { kind: 'check'; target: PlanTarget }
+  | { kind: 'assertVisible'; target: PlanTarget }
+  | { kind: 'assertText'; target: PlanTarget; text: string }
+  | { kind: 'assertUrl'; url: string }
+  | { kind: 'waitForLoad' }
+  | { kind: 'unbound'; action: StepActionKind; reason: string }
+  // Code written by the LLM, because the plan cannot express the step
+  | { kind: 'llm'; action: StepActionKind; reason: string; code?: string }
+  // Network mocks switched on partway through, e.g. when the session expires after sign in
+  | { kind: 'mockRoute'; mocks: MockRouteStep[] }
+);
+
+export interface MockRouteStep {
+  kind: 'mockRoute';
+  endpoint: string;
+  endpoint_key?: string;
+  mode: NetworkMockPlan['mode'];
+  reason: string;
+}
+
+export interface TestPlan {
+  title: string;
+  type: TestScenario['type'];
+  device?: TestScenario['device'];
+  description: string;
+  expected_outcome: string;
+  // Network mocks set up before the first step
+  setup: MockRouteStep[];
+  steps: PlanStep[];
+  // Check for the expected outcome, after the last step
+  outcome: PlanStep;
+}
+
+// LLM answer for one "llm" plan step
+export interface PlanStepCode {
+  step_index: number;
+  code: string;
 }
 
 export interface PlaywrightTest {
   filename: string;
   content: string;
+  scenario_title?: string;
+  covers_criteria?: string[];
+  mcp_verification?: SpecVerification;
+  // Steps generated without a page-object member
+  page_object_warnings?: string[];
+  // page.route mocks the spec sets up before its first step
+  network_mocks?: NetworkMockPlan[];
+  // Plan the spec was compiled from
+  test_plan?: TestPlan;
+  // Last execute-and-repair result; a spec that still fails is written with a banner
+  execution_status?: ExecutionStatus;
+}
+
+export interface StepVerification {
+  line: number;
+  step?: string;
+  statement: string;
+  status: 'verified' | 'replaced' | 'unverified';
+  replacement?: string;
+  reason?: string;
+}
+
+export interface SpecVerification {
+  verified: number;
+  replaced: number;
+  unverified: number;
+  steps: StepVerification[];
+}
+
+export interface SpecFailure {
+  test_name: string;
+  error_message: string;
+  failing_line?: number;
+  code_snippet?: string;
+  dom_snapshot?: string;
+  trace_path?: string;
+}
+
+export interface SpecRunResult {
+  spec_file: string;
+  status: 'passed' | 'failed' | 'error';
+  duration_ms: number;
+  failures: SpecFailure[];
+}
+
+export interface ExecutionStatus {
+  status: SpecRunResult['status'];
+  runs: number;
+  repairs: number;
+  failure_reason?: string;
 }
 
 export interface KnowledgeBase {
   selectors: Record<string, Record<string, string>>;
   endpoints: Record<string, Record<string, string>>;
 }
-
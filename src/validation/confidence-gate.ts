@@ -0,0 +1,127 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PlaywrightTest, ValidatedScenario } from '../types';
+
+export type LowConfidenceAction = 'skip' | 'flag' | 'review';
+
+export interface ConfidenceDecision {
+  scenario_title: string;
+  confidence_score: number;
+  decision: 'generated' | 'flagged' | 'skipped' | 'manual_review';
+}
+
+export interface ConfidenceGateReport {
+  threshold: number;
+  action: LowConfidenceAction;
+  generated: number;
+  flagged: number;
+  skipped: number;
+  manual_review: number;
+  manual_review_path?: string;
+  decisions: ConfidenceDecision[];
+}
+
+const ACTIONS: LowConfidenceAction[] = ['skip', 'flag', 'review'];
+
+/**
+ * Decides what happens to scenarios Agent B is not confident about:
+ * skip them, generate them with a warning header, or hand them to a
+ * person through manual-review.json instead of generating a spec.
+ */
+export class ConfidenceGate {
+  private threshold: number;
+  private action: LowConfidenceAction;
+
+  constructor(options: { threshold?: number; action?: LowConfidenceAction } = {}) {
+    this.threshold = options.threshold ?? parseFloat(process.env.CONFIDENCE_THRESHOLD || '0.5');
+    this.action = options.action || (process.env.LOW_CONFIDENCE_ACTION as LowConfidenceAction) || 'flag';
+
+    if (!ACTIONS.includes(this.action)) {
+      throw new Error(`Unsupported LOW_CONFIDENCE_ACTION: ${this.action} (use ${ACTIONS.join(', ')})`);
+    }
+  }
+
+  /**
+   * Split scenarios into those to generate and record a decision for each.
+   * Scenarios for manual review go to manual-review.json when outputDir is given.
+   */
+  apply(scenarios: ValidatedScenario[], outputDir?: string): { scenarios: ValidatedScenario[]; report: ConfidenceGateReport } {
+    const decisions: ConfidenceDecision[] = [];
+    const toGenerate: ValidatedScenario[] = [];
+    const toReview: ValidatedScenario[] = [];
+
+    for (const scenario of scenarios) {
+      const low = scenario.confidence_score < this.threshold;
+      let decision: ConfidenceDecision['decision'] = 'generated';
+
+      if (low && this.action === 'skip') {
+        decision = 'skipped';
+      } else if (low && this.action === 'review') {
+        decision = 'manual_review';
+        toReview.push(scenario);
+      } else {
+        decision = low ? 'flagged' : 'generated';
+        toGenerate.push(scenario);
+      }
+
+      if (low) {
+        console.log(`   LOW CONFIDENCE ${scenario.confidence_score} < ${this.threshold}: "${scenario.title}" -> ${decision}`);
+      }
+      decisions.push({ scenario_title: scenario.title, confidence_score: scenario.confidence_score, decision });
+    }
+
+    const report: ConfidenceGateReport = {
+      threshold: this.threshold,
+      action: this.action,
+      generated: decisions.filter(d => d.decision === 'generated').length,
+      flagged: decisions.filter(d => d.decision === 'flagged').length,
+      skipped: decisions.filter(d => d.decision === 'skipped').length,
+      manual_review: toReview.length,
+      decisions
+    };
+
+    if (toReview.length > 0 && outputDir) {
+      report.manual_review_path = this.writeManualReview(toReview, outputDir);
+    }
+
+    return { scenarios: toGenerate, report };
+  }
+
+  /**
+   * Prepend a warning to specs generated from low-confidence scenarios
+   */
+  flagTests(tests: PlaywrightTest[], report: ConfidenceGateReport): PlaywrightTest[] {
+    const flagged = new Map(
+      report.decisions.filter(d => d.decision === 'flagged').map(d => [d.scenario_title, d.confidence_score])
+    );
+
+    return tests.map(test => {
+      const score = test.scenario_title !== undefined ? flagged.get(test.scenario_title) : undefined;
+      if (score === undefined) {
+        return test;
+      }
+      return {
+        ...test,
+        content: `// LOW CONFIDENCE (${score} < ${report.threshold}) - selectors may not match this scenario, review before relying on this spec\n${test.content}`
+      };
+    });
+  }
+
+  private writeManualReview(scenarios: ValidatedScenario[], outputDir: string): string {
+    const reviewPath = path.join(outputDir, 'manual-review.json');
+    fs.writeFileSync(reviewPath, JSON.stringify({
+      generated_at: new Date().toISOString(),
+      threshold: this.threshold,
+      scenarios: scenarios.map(scenario => ({
+        title: scenario.title,
+        description: scenario.description,
+        steps: scenario.steps,
+        confidence_score: scenario.confidence_score,
+        selectors: scenario.selectors,
+        api_endpoints: scenario.api_endpoints,
+        validation_notes: scenario.validation_notes
+      }))
+    }, null, 2));
+    return 'manual-review.json';
+  }
+}
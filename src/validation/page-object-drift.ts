@@ -0,0 +1,303 @@
+import * as path from 'path';
+import { Page, Locator } from '@playwright/test';
+import { PageObjectCatalog, PageObjectClass, PageObjectMember, significantTokens } from '../codegen/page-object-catalog';
+
+export interface PageObjectLocatorRef {
+  page_object: string;
+  field: string;
+  expression?: string;
+}
+
+export interface UnresolvedLocator extends PageObjectLocatorRef {
+  url: string;
+  error?: string;
+}
+
+export interface DivergentSelector extends PageObjectLocatorRef {
+  kb_path: string;
+  kb_selector: string;
+  // same_element: both resolved to the same element on the page; similar_name: matched by name only
+  evidence: 'same_element' | 'similar_name';
+  page_object_resolves?: boolean;
+  kb_resolves?: boolean;
+}
+
+export interface PageObjectDriftReport {
+  generated_at: string;
+  base_url?: string;
+  live: boolean;
+  pages_checked: string[];
+  pages_unreachable: Array<{ page_object: string; url: string; error: string }>;
+  locators_checked: number;
+  kb_entries_checked: number;
+  // Page object locators that match nothing on their page
+  unresolved_locators: UnresolvedLocator[];
+  // Knowledge base entries no page object locator shares a selector or element with
+  unused_kb_entries: Array<{ path: string; selector: string }>;
+  // A page object locator and a knowledge base entry describing the same element differently
+  divergent_selectors: DivergentSelector[];
+  // Page object locators and knowledge base entries with a selector in common
+  consistent: Array<PageObjectLocatorRef & { kb_path: string }>;
+}
+
+const DRIFT_ATTRIBUTE = 'data-po-drift-id';
+
+// Name similarity needed to pair a locator with a knowledge base entry without live evidence
+const MIN_NAME_SIMILARITY = 0.67;
+
+/**
+ * Cross-references page object locators with kb/selectors entries and,
+ * given a browser page, with the running site: which locators no longer
+ * resolve, which kb entries no page object uses, and which pairs describe
+ * the same element with different selectors.
+ */
+export class PageObjectDriftChecker {
+  private kbEntries: Array<{ path: string; selector: string }>;
+
+  constructor(
+    private catalog: PageObjectCatalog,
+    kbSelectors: Record<string, Record<string, string>>
+  ) {
+    this.kbEntries = Object.entries(kbSelectors).flatMap(([group, entries]) =>
+      Object.entries(entries).map(([name, selector]) => ({ path: `${group}.${name}`, selector }))
+    );
+  }
+
+  /**
+   * Static check only, unless a page and base URL are given: then every page
+   * object with a URL is opened and its locators and the kb entries are resolved
+   */
+  async check(page?: Page, baseUrl?: string): Promise<PageObjectDriftReport> {
+    const report: PageObjectDriftReport = {
+      generated_at: new Date().toISOString(),
+      base_url: baseUrl,
+      live: !!(page && baseUrl),
+      pages_checked: [],
+      pages_unreachable: [],
+      locators_checked: 0,
+      kb_entries_checked: this.kbEntries.length,
+      unresolved_locators: [],
+      unused_kb_entries: [],
+      divergent_selectors: [],
+      consistent: []
+    };
+
+    const locators = this.catalog.classes.flatMap(cls =>
+      cls.members.filter(member => member.kind === 'locator').map(member => ({ cls, member }))
+    );
+    report.locators_checked = locators.length;
+
+    // Live evidence: which locators resolve, which kb entries resolve, and which share an element
+    const resolvedLocators = new Set<string>();
+    const resolvedKb = new Set<string>();
+    const sameElement = new Map<string, Set<string>>();
+
+    if (page && baseUrl) {
+      await page.addInitScript('globalThis.__name = globalThis.__name || (fn => fn);');
+      for (const cls of this.catalog.classes.filter(c => c.url)) {
+        await this.checkPage(page, baseUrl, cls, report, resolvedLocators, resolvedKb, sameElement);
+      }
+    }
+
+    const usedKb = new Set<string>();
+
+    for (const { cls, member } of locators) {
+      const id = `${cls.name}.${member.name}`;
+      const ref: PageObjectLocatorRef = { page_object: cls.name, field: member.name, expression: member.expression };
+      const alternatives = this.alternatives(member.selector);
+
+      // Same selector text: the page object and the knowledge base agree
+      const agreeing = this.kbEntries.filter(entry => this.alternatives(entry.selector).some(alt => alternatives.includes(alt)));
+      agreeing.forEach(entry => {
+        usedKb.add(entry.path);
+        report.consistent.push({ ...ref, kb_path: entry.path });
+      });
+
+      const liveStatus = (kbPath: string) => report.live
+        ? { page_object_resolves: resolvedLocators.has(id), kb_resolves: resolvedKb.has(kbPath) }
+        : {};
+
+      const confirmed = [...(sameElement.get(id) || [])].filter(kbPath => !agreeing.some(entry => entry.path === kbPath));
+      for (const kbPath of confirmed) {
+        usedKb.add(kbPath);
+        report.divergent_selectors.push({
+          ...ref,
+          kb_path: kbPath,
+          kb_selector: this.kbEntries.find(entry => entry.path === kbPath)!.selector,
+          evidence: 'same_element',
+          ...liveStatus(kbPath)
+        });
+      }
+
+      if (agreeing.length > 0 || confirmed.length > 0) continue;
+
+      for (const entry of this.similarlyNamed(member)) {
+        usedKb.add(entry.path);
+        report.divergent_selectors.push({ ...ref, kb_path: entry.path, kb_selector: entry.selector, evidence: 'similar_name', ...liveStatus(entry.path) });
+      }
+    }
+
+    report.unused_kb_entries = this.kbEntries.filter(entry => !usedKb.has(entry.path));
+    return report;
+  }
+
+  private async checkPage(
+    page: Page,
+    baseUrl: string,
+    cls: PageObjectClass,
+    report: PageObjectDriftReport,
+    resolvedLocators: Set<string>,
+    resolvedKb: Set<string>,
+    sameElement: Map<string, Set<string>>
+  ): Promise<void> {
+    const url = new URL(cls.url!, baseUrl).toString();
+    console.log(`Checking ${cls.name} on ${url}...`);
+
+    try {
+      await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 45000 });
+      await page.waitForTimeout(500);
+    } catch (error) {
+      report.pages_unreachable.push({ page_object: cls.name, url, error: this.errorMessage(error) });
+      return;
+    }
+    report.pages_checked.push(url);
+
+    // The real class, so locators are built exactly as the tests build them
+    const instance = this.instantiate(cls, page);
+
+    for (const member of cls.members.filter(m => m.kind === 'locator')) {
+      const id = `${cls.name}.${member.name}`;
+      try {
+        const locator: Locator = instance[member.name];
+        const count = await locator.count();
+        if (count === 0) {
+          report.unresolved_locators.push({ page_object: cls.name, field: member.name, expression: member.expression, url });
+          continue;
+        }
+        resolvedLocators.add(id);
+        await locator.evaluateAll((nodes, [attribute, value]) => nodes.forEach(node => {
+          const current = node.getAttribute(attribute);
+          node.setAttribute(attribute, current ? `${current} ${value}` : value);
+        }), [DRIFT_ATTRIBUTE, id]);
+      } catch (error) {
+        report.unresolved_locators.push({ page_object: cls.name, field: member.name, expression: member.expression, url, error: this.errorMessage(error) });
+      }
+    }
+
+    for (const entry of this.kbEntries) {
+      // Try the whole selector list first, then each alternative on its own
+      for (const candidate of [entry.selector, ...this.alternatives(entry.selector)]) {
+        try {
+          const ids = await page.locator(candidate).evaluateAll(
+            (nodes, attribute) => nodes.map(node => node.getAttribute(attribute) || '').join(' '),
+            DRIFT_ATTRIBUTE
+          );
+          const matched = await page.locator(candidate).count();
+          if (matched > 0) resolvedKb.add(entry.path);
+          ids.split(' ').filter(Boolean).forEach(id => {
+            const paths = sameElement.get(id) || new Set<string>();
+            paths.add(entry.path);
+            sameElement.set(id, paths);
+          });
+          break;
+        } catch {
+          // Invalid in this engine (e.g. jQuery :contains), try the next alternative
+        }
+      }
+    }
+  }
+
+  private instantiate(cls: PageObjectClass, page: Page): Record<string, any> {
+    const module = require(path.resolve(cls.file));
+    return new module[cls.name](page);
+  }
+
+  /**
+   * Knowledge base entries whose key names the same thing as the locator,
+   * e.g. experian_header.sign_in_button for HomePage.signInLink
+   */
+  private similarlyNamed(member: PageObjectMember): Array<{ path: string; selector: string }> {
+    const memberTokens = significantTokens(member.name);
+    if (memberTokens.length === 0) return [];
+
+    let best = 0;
+    let matches: Array<{ path: string; selector: string }> = [];
+    for (const entry of this.kbEntries) {
+      const entryTokens = significantTokens(entry.path.split('.')[1]);
+      const common = memberTokens.filter(token => entryTokens.includes(token)).length;
+      const similarity = common / new Set([...memberTokens, ...entryTokens]).size;
+
+      if (similarity < MIN_NAME_SIMILARITY || similarity < best) continue;
+      if (similarity > best) {
+        best = similarity;
+        matches = [];
+      }
+      matches.push(entry);
+    }
+    return matches;
+  }
+
+  /**
+   * The selectors of a selector list, normalised so the same selector
+   * written two ways compares equal
+   */
+  private alternatives(selector?: string): string[] {
+    return selector ? splitSelectorList(selector).map(normaliseSelector).filter(Boolean) : [];
+  }
+
+  private errorMessage(error: unknown): string {
+    return (error instanceof Error ? error.message : String(error)).split('\n')[0];
+  }
+}
+
+// [name op value flags] with the value double-quoted, single-quoted or bare
+const ATTRIBUTE_SELECTOR = /\[\s*([^\s~|^$*=\]]+)\s*(?:([~|^$*]?=)\s*(?:"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|([^\s\]"']+))\s*([iIsS])?\s*)?\]/g;
+
+/**
+ * Split a selector list on its top-level commas, leaving commas inside
+ * quotes, brackets and parentheses (e.g. :is(a, b)) alone
+ */
+function splitSelectorList(selector: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | undefined;
+  let depth = 0;
+
+  for (let i = 0; i < selector.length; i++) {
+    const char = selector[i];
+    if (char === '\\') {
+      current += char + (selector[++i] ?? '');
+      continue;
+    }
+    if (quote) {
+      if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(' || char === '[') {
+      depth++;
+    } else if ((char === ')' || char === ']') && depth > 0) {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  return [...parts, current];
+}
+
+/**
+ * Collapse whitespace and write attribute selectors one way:
+ * button[type='submit'] and button[ type=submit ] become button[type="submit"]
+ */
+function normaliseSelector(selector: string): string {
+  return selector
+    .trim()
+    .replace(/\s+/g, ' ')
+    .replace(ATTRIBUTE_SELECTOR, (_match, name: string, operator?: string, double?: string, single?: string, bare?: string, flag?: string) => {
+      if (!operator) return `[${name}]`;
+      const value = double ?? (single !== undefined ? single.replace(/\\'/g, "'").replace(/"/g, '\\"') : bare!);
+      return `[${name}${operator}"${value}"${flag ? ` ${flag}` : ''}]`;
+    });
+}
@@ -0,0 +1,109 @@
+import { StepActionKind, StepBinding, StepBindingProposal, TestScenario } from '../types';
+import { RAGRetriever } from '../rag/retriever';
+import { AccessibilitySnapshot } from '../mcp/accessibility-snapshot';
+import { quotedText } from '../codegen/quoting';
+import { StepBindingProposalSchema } from '../llm/schemas';
+import { formatIssues } from '../llm/structured-output';
+
+// Actions that cannot be generated without an element to act on
+const TARGETED_ACTIONS: StepActionKind[] = ['click', 'fill', 'check'];
+
+/**
+ * Binds each scenario step to an action, the knowledge base element it acts
+ * on and its test data. Bindings proposed by the LLM are kept when their
+ * target exists in the knowledge base; other steps are bound by retrieval.
+ */
+export class StepBinder {
+  constructor(private retriever: RAGRetriever) {}
+
+  async bind(scenario: TestScenario, proposed: unknown[] = []): Promise<StepBinding[]> {
+    const proposals = new Map<number, StepBindingProposal>();
+    proposed.forEach((item, index) => {
+      const result = StepBindingProposalSchema.safeParse(item);
+      if (result.success) {
+        proposals.set(result.data.step_index, result.data);
+      } else {
+        console.warn(`Agent B: Unusable step binding ${index} for "${scenario.title}": ${formatIssues(result.error)}`);
+      }
+    });
+
+    const bindings: StepBinding[] = [];
+    for (const [index, step] of scenario.steps.entries()) {
+      bindings.push(await this.bindStep(index, step, proposals.get(index)));
+    }
+    return bindings;
+  }
+
+  /**
+   * Validation notes naming every step left without an element
+   */
+  describeMissing(bindings: StepBinding[]): string[] {
+    return bindings
+      .filter(binding => binding.missing_reason)
+      .map(binding => `MISSING BINDING step ${binding.step_index + 1} (${binding.action}): "${binding.step}" - ${binding.missing_reason}`);
+  }
+
+  private async bindStep(index: number, step: string, proposal?: StepBindingProposal): Promise<StepBinding> {
+    const action: StepActionKind = proposal?.action || AccessibilitySnapshot.detectIntent(step);
+    const binding: StepBinding = { step_index: index, step, action };
+
+    const testData = proposal?.test_data ?? this.extractTestData(step, action);
+    if (testData !== undefined) {
+      binding.test_data = testData;
+    }
+    if (proposal?.page_object_member) {
+      binding.page_object_member = proposal.page_object_member;
+    }
+
+    if (action === 'navigate') {
+      return binding;
+    }
+
+    const proposedSelector = proposal?.target ? this.retriever.lookupSelector(proposal.target) : undefined;
+    if (proposedSelector) {
+      return { ...binding, target: proposal!.target, selector: proposedSelector };
+    }
+
+    const [match] = await this.retriever.retrieveSelectors(step, 1).catch(() => []);
+    if (match) {
+      return { ...binding, target: match.key, selector: match.value };
+    }
+
+    if (TARGETED_ACTIONS.includes(action) && !binding.page_object_member) {
+      binding.missing_reason = proposal?.target
+        ? `"${proposal.target}" is not in the knowledge base and no selector matches this step`
+        : 'No knowledge base selector matches this step';
+    }
+    return binding;
+  }
+
+  private extractTestData(step: string, action: StepActionKind): string | undefined {
+    if (action !== 'fill') {
+      return undefined;
+    }
+    return quotedText(step);
+  }
+}
+
+/**
+ * One line per step for LLM prompts: action, bound element and test data
+ */
+export function describeStepBindings(bindings: StepBinding[]): string {
+  return bindings.map(binding => {
+    const head = `Step ${binding.step_index + 1} [${binding.action}] "${binding.step}"`;
+    const data = binding.test_data !== undefined
+      ? ` (data: "${binding.test_data}")`
+      : binding.test_data_ref ? ` (data: ${binding.test_data_ref})` : '';
+
+    if (binding.page_object_member) {
+      return `${head} -> page object ${binding.page_object_member}${data}`;
+    }
+    if (binding.selector) {
+      return `${head} -> ${binding.target}: ${binding.selector}${data}`;
+    }
+    if (binding.missing_reason) {
+      return `${head} -> MISSING BINDING (${binding.missing_reason})`;
+    }
+    return `${head}${data}`;
+  }).join('\n');
+}
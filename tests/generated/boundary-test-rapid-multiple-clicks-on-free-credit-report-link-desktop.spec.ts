@@ -3,7 +3,7 @@ import { test, expect } from '@playwright/test';
 test.describe('Boundary Test: Rapid Multiple Clicks on Free Credit Report Link', () => {
   test('System handles rapid clicks gracefully', async ({ page }) => {
     // Navigate to Experian homepage
-    await page.goto('https://www.experian.com');
+    await page.goto('/');
 
     // Click on Credit dropdown
     await page.click('button.m-n-link.btn-reset.dropdown-toggle[aria-label="Credit"]');
@@ -5,7 +5,7 @@ test.describe('Invalid URL Error Handling', () => {
     // User opens web browser - this is implied by the start of a new test
     
     // User enters 'www.experian.com/free-credit-report' in the address bar, intentionally misspelling 'report' as 'reprot'
-    await page.goto('https://www.experian.com/free-credit-reprot');
+    await page.goto('/free-credit-reprot');
     
     // User presses Enter - implied by the goto command
     
@@ -9,12 +9,12 @@ test.describe('Mobile Viewport Responsiveness for Free Credit Report Page', () =
     // User opens a web browser app - simulated by starting a new browser instance
 
     // User enters 'www.experian.com' in the address bar
-    await page.goto('https://www.experian.com');
+    await page.goto('/');
 
     // User taps Go or Enter - simulated by the page.goto() function
 
     // User waits for the Experian homepage to load
-    await expect(page).toHaveURL('https://www.experian.com');
+    await expect(page).toHaveURL('/');
 
     // User taps on the menu icon to reveal the navigation options
     // TODO: Add selector for menu icon when available
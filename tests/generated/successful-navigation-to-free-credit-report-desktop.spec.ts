@@ -5,10 +5,10 @@ test.describe('Successful Navigation to Free Credit Report', () => {
     // User opens web browser - handled by Playwright
 
     // User enters 'www.experian.com' in the address bar
-    await page.goto('https://www.experian.com');
+    await page.goto('/');
 
     // User waits for the Experian homepage to load
-    await expect(page).toHaveURL('https://www.experian.com');
+    await expect(page).toHaveURL('/');
     await expect(page).toHaveTitle(/Experian/);
 
     // User locates and clicks on Credit dropdown
@@ -0,0 +1,86 @@
+import { test, expect } from '@playwright/test';
+import { AccessibilitySnapshot } from '../../src/mcp/accessibility-snapshot';
+
+const SNAPSHOT = `### Page state
+- Page URL: http://localhost:4173/login.html
+- Page Title: Sign in
+\`\`\`yaml
+- banner [ref=e1]:
+  - link "Experian" [ref=e2]:
+    - /url: /
+  - button "Credit" [expanded=false] [ref=e3]
+- main [ref=e4]:
+  - heading "Sign in to your account" [level=1] [ref=e5]
+  - textbox "Email address" [ref=e6]
+  - textbox "Password" [ref=e7]
+  - checkbox "Remember me" [checked] [ref=e8]
+  - button "Sign In" [ref=e9]
+  - link "Sign in with a code" [ref=e10]
+  - button "Sign In" [disabled] [ref=e11]
+  - 'paragraph [ref=e12]: Forgot it? It''s OK: reset below'
+\`\`\``;
+
+test.describe('AccessibilitySnapshot', () => {
+  const snapshot = AccessibilitySnapshot.parse(SNAPSHOT);
+
+  test('parses nesting, states, properties and quoted YAML entries', () => {
+    expect(snapshot.url).toBe('http://localhost:4173/login.html');
+    expect(snapshot.title).toBe('Sign in');
+    expect(snapshot.roots.map(root => root.role)).toEqual(['banner', 'main']);
+
+    expect(snapshot.findByRef('e2')).toMatchObject({ role: 'link', name: 'Experian', props: { url: '/' } });
+    expect(snapshot.findByRef('e3')?.states.expanded).toBe(false);
+    expect(snapshot.findByRef('e5')?.level).toBe(1);
+    expect(snapshot.findByRef('e8')?.states.checked).toBe(true);
+    expect(snapshot.findByRef('e11')?.states.disabled).toBe(true);
+    expect(snapshot.findByRef('e12')?.text).toBe("Forgot it? It's OK: reset below");
+    expect(snapshot.findByRef('e9')?.parent?.role).toBe('main');
+  });
+
+  test('detects the intent of a step', () => {
+    expect(AccessibilitySnapshot.detectIntent('Enter "jane@example.com" into the email field')).toBe('fill');
+    expect(AccessibilitySnapshot.detectIntent('Tick the remember me box')).toBe('check');
+    expect(AccessibilitySnapshot.detectIntent('Click the Credit dropdown')).toBe('click');
+    expect(AccessibilitySnapshot.detectIntent('User navigates to the homepage')).toBe('navigate');
+    expect(AccessibilitySnapshot.detectIntent('The dashboard is displayed')).toBe('assert');
+  });
+
+  test('ranks the role locator of the best match first', () => {
+    const [best] = snapshot.rankLocators('Click the Credit dropdown');
+
+    expect(best).toMatchObject({ expression: "getByRole('button', { name: 'Credit' })", strategy: 'role' });
+  });
+
+  test('fill steps prefer text boxes and offer a label locator', () => {
+    const ranked = snapshot.rankLocators('Enter the password into the password field');
+
+    expect(ranked[0].element.ref).toBe('e7');
+    expect(ranked.map(candidate => candidate.expression)).toContain("getByLabel('Password')");
+  });
+
+  test('quoted text wins and duplicate names get .first(), enabled element first', () => {
+    const [best] = snapshot.rankLocators('Click the "Sign In" button');
+
+    expect(best.expression).toBe("getByRole('button', { name: 'Sign In' }).first()");
+    expect(best.element.ref).toBe('e9');
+  });
+
+  test('names that are part of another name of the same role are matched exactly', () => {
+    const [best] = snapshot.rankLocators('Click the "Experian" link', { intent: 'click' });
+    const partial = AccessibilitySnapshot.parse('- link "Report" [ref=e1]\n- link "Report history" [ref=e2]').rankLocators('Open the "Report" link');
+
+    expect(best.expression).toBe("getByRole('link', { name: 'Experian' })");
+    expect(partial[0].expression).toBe("getByRole('link', { name: 'Report', exact: true })");
+  });
+
+  test('names are quoted as TypeScript string literals', () => {
+    const quoted = AccessibilitySnapshot.parse('- link "Jane\'s \\\\ report" [ref=e1]').rankLocators('Click the "Jane\'s \\\\ report" link');
+
+    expect(quoted[0].expression).toBe("getByRole('link', { name: 'Jane\\'s \\\\\\\\ report' })");
+  });
+
+  test('steps with no target words rank nothing', () => {
+    expect(snapshot.rankLocators('Click the button')).toEqual([]);
+    expect(snapshot.rankLocators('Click "Nonexistent thing"', { limit: 1 })).toEqual([]);
+  });
+});
@@ -0,0 +1,41 @@
+import { test, expect } from '@playwright/test';
+import { parseEndpoint, pathPattern } from '../../src/mocks/api-mocks';
+
+test.describe('ApiMocks endpoints', () => {
+  test('parseEndpoint splits method and path', () => {
+    expect(parseEndpoint(' POST /api/v1/auth/login ')).toEqual({ method: 'POST', path: '/api/v1/auth/login' });
+    expect(parseEndpoint('* /api/**')).toEqual({ method: '*', path: '/api/**' });
+    expect(() => parseEndpoint('/api/v1/auth/login')).toThrow('Not an endpoint');
+  });
+
+  test('a plain path matches only itself', () => {
+    const pattern = pathPattern('/api/v1/auth/login');
+
+    expect(pattern.test('/api/v1/auth/login')).toBe(true);
+    expect(pattern.test('/api/v1/auth/login/extra')).toBe(false);
+    expect(pattern.test('/prefix/api/v1/auth/login')).toBe(false);
+  });
+
+  test('{param} matches exactly one segment', () => {
+    const pattern = pathPattern('/api/v1/users/{id}/alerts');
+
+    expect(pattern.test('/api/v1/users/42/alerts')).toBe(true);
+    expect(pattern.test('/api/v1/users/42/7/alerts')).toBe(false);
+    expect(pattern.test('/api/v1/users//alerts')).toBe(false);
+  });
+
+  test('a trailing /** matches the path and anything below it', () => {
+    const pattern = pathPattern('/api/**');
+
+    expect(pattern.test('/api')).toBe(true);
+    expect(pattern.test('/api/v1/credit/report')).toBe(true);
+    expect(pattern.test('/apis')).toBe(false);
+  });
+
+  test('regex characters in the path are literal', () => {
+    const pattern = pathPattern('/api/v1.0/score+history');
+
+    expect(pattern.test('/api/v1.0/score+history')).toBe(true);
+    expect(pattern.test('/api/v1x0/scoreehistory')).toBe(false);
+  });
+});
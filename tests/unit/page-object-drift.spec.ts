@@ -0,0 +1,68 @@
+import { test, expect } from '@playwright/test';
+import { PageObjectCatalog, PageObjectMember } from '../../src/codegen/page-object-catalog';
+import { PageObjectDriftChecker } from '../../src/validation/page-object-drift';
+
+function locator(name: string, selector: string): PageObjectMember {
+  return { name, kind: 'locator', parameters: [], selector, expression: `page.locator(${JSON.stringify(selector)})` };
+}
+
+const catalog = new PageObjectCatalog([{
+  name: 'SignInPage',
+  variable: 'signInPage',
+  file: 'src/pages/SignInPage.ts',
+  url: '/login',
+  members: [
+    locator('submitButton', 'button[ type=submit ]'),
+    locator('emailInput', '#email,  input[name="email"]'),
+    locator('rememberMe', ':is(#remember, .remember-me)'),
+    locator('signInLink', "a[href*='login']")
+  ]
+}]);
+
+test.describe('PageObjectDriftChecker', () => {
+  test('attribute quotes and whitespace do not count as drift', async () => {
+    const report = await new PageObjectDriftChecker(catalog, {
+      sign_in_form: {
+        submit_button: "button[type='submit']",
+        email_input: "input[name='email']"
+      }
+    }).check();
+
+    expect(report.live).toBe(false);
+    expect(report.consistent.map(ref => `${ref.field} = ${ref.kb_path}`)).toEqual([
+      'submitButton = sign_in_form.submit_button',
+      'emailInput = sign_in_form.email_input'
+    ]);
+    expect(report.divergent_selectors).toEqual([]);
+  });
+
+  test('selector lists split on top-level commas only', async () => {
+    const report = await new PageObjectDriftChecker(catalog, {
+      sign_in_form: {
+        remember_me: '#remember',
+        remember_me_checkbox: ':is(#remember, .remember-me)'
+      }
+    }).check();
+
+    // '#remember' alone is not an alternative of ':is(#remember, .remember-me)'
+    expect(report.consistent.map(ref => ref.kb_path)).toEqual(['sign_in_form.remember_me_checkbox']);
+    expect(report.unused_kb_entries.map(entry => entry.path)).toEqual(['sign_in_form.remember_me']);
+  });
+
+  test('differently written selectors for similarly named entries are divergent', async () => {
+    const report = await new PageObjectDriftChecker(catalog, {
+      header: { sign_in_link: "a[href*='sign']" },
+      footer: { privacy_link: "a[href*='privacy']" }
+    }).check();
+
+    expect(report.divergent_selectors).toEqual([expect.objectContaining({
+      page_object: 'SignInPage',
+      field: 'signInLink',
+      kb_path: 'header.sign_in_link',
+      kb_selector: "a[href*='sign']",
+      evidence: 'similar_name'
+    })]);
+    expect(report.unused_kb_entries).toEqual([{ path: 'footer.privacy_link', selector: "a[href*='privacy']" }]);
+    expect(report).toMatchObject({ locators_checked: 4, kb_entries_checked: 2 });
+  });
+});
@@ -0,0 +1,73 @@
+import { test, expect } from '@playwright/test';
+import { SpecEmitter } from '../../src/codegen/spec-emitter';
+
+test.describe('SpecEmitter', () => {
+  test('imports only what the spec uses, with blank lines between blocks', () => {
+    const content = new SpecEmitter(['HomePage', 'SignInPage']).emit({
+      title: "User's sign in",
+      comments: ['Type: positive'],
+      tests: [{
+        title: 'signs in',
+        blocks: [
+          { comments: ['Step 1: open'], code: ['const homePage = new HomePage(page);', 'await homePage.goto();'] },
+          { comments: ['MISSING BINDING: no selector'], code: [] },
+          { comments: [], code: ["await expect(page.getByText(testData.valid.name)).toBeVisible();"] }
+        ]
+      }]
+    });
+
+    expect(content).toBe([
+      "import { test, expect } from '@playwright/test';",
+      "import { HomePage } from '@pages';",
+      "import { testData } from '@test-data';",
+      '',
+      "test.describe('User\\'s sign in', () => {",
+      '  // Type: positive',
+      "  test('signs in', async ({ page }) => {",
+      '    // Step 1: open',
+      '    const homePage = new HomePage(page);',
+      '    await homePage.goto();',
+      '',
+      '    // MISSING BINDING: no selector',
+      '',
+      '    await expect(page.getByText(testData.valid.name)).toBeVisible();',
+      '  });',
+      '});',
+      ''
+    ].join('\n'));
+  });
+
+  test('a device adds a file-level test.use', () => {
+    const content = new SpecEmitter().emit({ title: 'Mobile', device: 'iPhone 13', tests: [{ title: 'loads', blocks: [] }] });
+
+    expect(content).toContain("import { test, devices } from '@playwright/test';\n\ntest.use({ ...devices['iPhone 13'] });\n\ntest.describe('Mobile'");
+  });
+
+  test('leaves multi-line strings and braces inside literals alone', () => {
+    const code = [
+      'const body = `{',
+      '    "error": "Unauthorized"',
+      '}`;',
+      "const text = '    { not a block';",
+      'if (body) {',
+      '        await page.goto(`/search?q=${text}`);',
+      '}'
+    ].join('\n');
+
+    const content = new SpecEmitter().emit({ title: 't', tests: [{ title: 'x', blocks: [{ comments: [], code: [code] }] }] });
+
+    expect(content).toContain('    const body = `{\n    "error": "Unauthorized"\n}`;\n');
+    expect(content).toContain("    const text = '    { not a block';\n");
+    expect(content).toContain('    if (body) {\n      await page.goto(`/search?q=${text}`);\n    }\n');
+  });
+
+  test('keeps comments inside parsed code and rejects code that does not parse', () => {
+    const content = new SpecEmitter().emit({
+      title: 't',
+      tests: [{ title: 'x', blocks: [{ comments: [], code: ["// Wait for the menu\nawait page.click('#menu'); // kb: nav.menu"] }] }]
+    });
+
+    expect(content).toContain("    // Wait for the menu\n    await page.click('#menu'); // kb: nav.menu\n");
+    expect(() => SpecEmitter.parseStatements('await page.click(')).toThrow('Code does not parse');
+  });
+});
@@ -0,0 +1,77 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { StepBinder, describeStepBindings } from '../../src/validation/step-binder';
+import { RAGRetriever } from '../../src/rag/retriever';
+import { TfidfEmbedder } from '../../src/rag/embedders';
+import { TestScenario } from '../../src/types';
+
+const SELECTORS = {
+  sign_in_form: {
+    email_input: "input[name='email']",
+    password_input: "input[type='password']",
+    submit_button: "button[type='submit']"
+  }
+};
+
+const scenario: TestScenario = {
+  title: 'Sign in',
+  type: 'positive',
+  description: 'Sign in with valid credentials',
+  steps: [
+    'Navigate to /login',
+    'Enter "jane@example.com" into the email input',
+    'Click the submit button',
+    'Tick the newsletter checkbox'
+  ],
+  expected_outcome: 'The dashboard is shown'
+};
+
+function createBinder(): StepBinder {
+  const kbDir = test.info().outputPath('kb');
+  fs.mkdirSync(path.join(kbDir, 'selectors'), { recursive: true });
+  fs.writeFileSync(path.join(kbDir, 'selectors', 'common.json'), JSON.stringify(SELECTORS));
+  return new StepBinder(new RAGRetriever({ kbDir, site: '', embedder: new TfidfEmbedder(), topK: 8, minScore: 0.1 }));
+}
+
+test.describe('StepBinder', () => {
+  test('binds steps by retrieval and leaves unmatched targeted steps as MISSING BINDING', async () => {
+    const binder = createBinder();
+    const bindings = await binder.bind(scenario);
+
+    expect(bindings.map(binding => binding.action)).toEqual(['navigate', 'fill', 'click', 'check']);
+    expect(bindings[0].target).toBeUndefined();
+    expect(bindings[1]).toMatchObject({ target: 'sign_in_form.email_input', test_data: 'jane@example.com' });
+    expect(bindings[2]).toMatchObject({ target: 'sign_in_form.submit_button', selector: "button[type='submit']" });
+    expect(bindings[3].missing_reason).toBe('No knowledge base selector matches this step');
+    expect(binder.describeMissing(bindings)).toEqual([
+      'MISSING BINDING step 4 (check): "Tick the newsletter checkbox" - No knowledge base selector matches this step'
+    ]);
+  });
+
+  test('keeps proposals whose target is in the knowledge base and skips unusable ones', async () => {
+    const bindings = await createBinder().bind(scenario, [
+      { step_index: 1, action: 'fill', target: 'sign_in_form.password_input', test_data: 'secret' },
+      { step_index: 2, action: 'click', target: 'sign_in_form.missing_button' },
+      { step_index: 3, action: 'check', page_object_member: 'SignInPage.acceptTerms' },
+      { step_index: 'first', action: 'teleport' }
+    ]);
+
+    expect(bindings[1]).toMatchObject({ target: 'sign_in_form.password_input', selector: "input[type='password']", test_data: 'secret' });
+    // A proposed target missing from the knowledge base falls back to retrieval
+    expect(bindings[2].target).toBe('sign_in_form.submit_button');
+    expect(bindings[3]).toMatchObject({ page_object_member: 'SignInPage.acceptTerms' });
+    expect(bindings[3].missing_reason).toBeUndefined();
+  });
+
+  test('describeStepBindings writes one prompt line per step', async () => {
+    const bindings = await createBinder().bind(scenario);
+
+    expect(describeStepBindings(bindings).split('\n')).toEqual([
+      'Step 1 [navigate] "Navigate to /login"',
+      'Step 2 [fill] "Enter "jane@example.com" into the email input" -> sign_in_form.email_input: input[name=\'email\'] (data: "jane@example.com")',
+      'Step 3 [click] "Click the submit button" -> sign_in_form.submit_button: button[type=\'submit\']',
+      'Step 4 [check] "Tick the newsletter checkbox" -> MISSING BINDING (No knowledge base selector matches this step)'
+    ]);
+  });
+});
@@ -0,0 +1,104 @@
+import { test, expect } from '@playwright/test';
+import { PromptTemplate } from '@langchain/core/prompts';
+import { TestPlanCompiler } from '../../src/codegen/test-plan-compiler';
+import { PageObjectCatalog } from '../../src/codegen/page-object-catalog';
+import { LangChainClient } from '../../src/llm/langchain-client';
+import { ValidatedScenario } from '../../src/types';
+
+/**
+ * Answers every template prompt with the same response, offline
+ */
+class CannedLangChainClient extends LangChainClient {
+  prompts = 0;
+
+  constructor(private response: string) {
+    super({ provider: 'replay', fixturesDir: test.info().outputPath() });
+  }
+
+  async generateWithTemplate(_template: PromptTemplate, _variables: Record<string, any>): Promise<string> {
+    this.prompts++;
+    return this.response;
+  }
+}
+
+const STEPS = [
+  'Navigate to /login',
+  'Enter "jane@example.com" into the email field',
+  'Select "Texas" from the state dropdown',
+  'Click the submit button',
+  'Tick the terms box',
+  'The "Welcome" message is shown'
+];
+
+const scenario: ValidatedScenario = {
+  title: 'Sign in',
+  type: 'positive',
+  description: 'Valid sign in',
+  steps: STEPS,
+  expected_outcome: 'The user is taken to /dashboard',
+  selectors: {},
+  api_endpoints: [],
+  validation_notes: [],
+  confidence_score: 1,
+  step_bindings: [
+    { step_index: 0, step: STEPS[0], action: 'navigate' },
+    { step_index: 1, step: STEPS[1], action: 'fill', target: 'form.email', selector: "input[name='email']", test_data: 'jane@example.com' },
+    { step_index: 2, step: STEPS[2], action: 'click', target: 'form.state', selector: '#state' },
+    { step_index: 3, step: STEPS[3], action: 'click' },
+    { step_index: 4, step: STEPS[4], action: 'check', missing_reason: 'No knowledge base selector matches this step' },
+    { step_index: 5, step: STEPS[5], action: 'assert' }
+  ]
+};
+
+test.describe('TestPlanCompiler', () => {
+  test('compiles bound steps without the LLM and leaves the rest as notes', async () => {
+    const { plan, content } = await new TestPlanCompiler(new CannedLangChainClient('[]'), new PageObjectCatalog([])).compile(scenario);
+
+    expect(plan.steps.map(step => step.kind)).toEqual(['navigate', 'fill', 'select', 'llm', 'unbound', 'assertText']);
+    expect(plan.outcome).toMatchObject({ kind: 'assertUrl', url: '/dashboard' });
+
+    expect(content).toContain("await page.goto('/login');");
+    expect(content).toContain("await page.fill('input[name=\\'email\\']', 'jane@example.com'); // form.email");
+    expect(content).toContain("await page.selectOption('#state', 'Texas'); // form.state");
+    expect(content).toContain('// TODO: No element to click; implement this step by hand');
+    expect(content).toContain('// MISSING BINDING: No knowledge base selector matches this step');
+    expect(content).toContain("await expect(page.getByText('Welcome')).toBeVisible();");
+    expect(content).toContain('await expect(page).toHaveURL(/\\/dashboard/);');
+  });
+
+  test('a plan with every step bound asks the LLM nothing', async () => {
+    const llmClient = new CannedLangChainClient('[]');
+    const bound = { ...scenario, steps: STEPS.slice(0, 3), step_bindings: scenario.step_bindings.slice(0, 3) };
+
+    await new TestPlanCompiler(llmClient, new PageObjectCatalog([])).compile(bound);
+
+    expect(llmClient.prompts).toBe(0);
+  });
+
+  test('keeps LLM code that parses and rejects the rest', async () => {
+    const llmClient = new CannedLangChainClient(JSON.stringify([
+      { step_index: 3, code: "await page.getByRole('button', { name: 'Submit' }).click();" },
+      { step_index: 4, code: "await page.check('#terms');" },
+      { step_index: 6, code: "test('nested', async () => {});" }
+    ]));
+    const withoutNotes = { ...scenario, expected_outcome: 'Something happens', step_bindings: scenario.step_bindings.map(b => ({ ...b, missing_reason: undefined })) };
+
+    const { plan, content } = await new TestPlanCompiler(llmClient, new PageObjectCatalog([])).compile(withoutNotes);
+
+    expect(llmClient.prompts).toBe(1);
+    expect(content).toContain('// GENERATED BY LLM: No element to click');
+    expect(content).toContain("await page.getByRole('button', { name: 'Submit' }).click();");
+    // A check step without an element goes to the LLM once its missing reason is gone
+    expect(content).toContain("await page.check('#terms');");
+    expect(plan.outcome).toMatchObject({ kind: 'llm' });
+    expect(content).not.toContain("test('nested'");
+    expect(content).toContain('// TODO: The expected outcome names no element, text or URL; implement this step by hand');
+  });
+
+  test('fallback turns every step into a TODO with the reason', () => {
+    const { plan, content } = new TestPlanCompiler(new CannedLangChainClient('[]'), new PageObjectCatalog([])).fallback(scenario, new Error('boom'));
+
+    expect(plan.steps).toHaveLength(STEPS.length);
+    expect(content.match(/TODO: not compiled \(boom\); implement this step by hand/g)).toHaveLength(STEPS.length + 1);
+  });
+});
@@ -0,0 +1,97 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import { UserStoryLoader } from '../../src/stories/user-story-loader';
+
+function load(fileName: string, content: string) {
+  const filePath = test.info().outputPath(fileName);
+  fs.writeFileSync(filePath, content);
+  return new UserStoryLoader().loadFile(filePath);
+}
+
+test.describe('UserStoryLoader', () => {
+  test('Markdown: repeated headings are stories, a lone top heading is the document title', () => {
+    const stories = load('sprint.md', [
+      '# Sprint 12',
+      '',
+      '## Sign in',
+      'As a user, I want to sign in',
+      '',
+      '### Acceptance Criteria',
+      '- Valid credentials open the dashboard',
+      '- [x] A wrong password shows an error',
+      '',
+      '## Sign out',
+      'As a user, I want to sign out',
+      '**Acceptance Criteria:**',
+      '1. The sign in page is shown'
+    ].join('\n'));
+
+    expect(stories.map(story => story.id)).toEqual(['sign-in', 'sign-out']);
+    expect(stories[0].description).toBe('As a user, I want to sign in');
+    expect(stories[0].acceptance_criteria).toEqual(['Valid credentials open the dashboard', 'A wrong password shows an error']);
+    expect(stories[1].acceptance_criteria).toEqual(['The sign in page is shown']);
+  });
+
+  test('Markdown: a file with one story uses its top heading', () => {
+    const stories = load('story.md', '# Reset password\nAs a user, I want to reset my password\n## Notes\nLinked from sign in');
+
+    expect(stories).toHaveLength(1);
+    expect(stories[0].description).toBe('As a user, I want to reset my password Linked from sign in');
+  });
+
+  test('Gherkin: scenarios become criteria, Background steps are left out', () => {
+    const stories = load('sign-in.feature', [
+      'Feature: Sign in',
+      '  As a registered user I want to sign in',
+      '',
+      '  Background:',
+      '    Given the sign in page is open',
+      '',
+      '  Scenario: Valid credentials',
+      '    When I sign in with a valid password',
+      '    Then I see my dashboard',
+      '',
+      '  Scenario Outline: Invalid credentials',
+      '    When I sign in with <password>',
+      '    Examples:',
+      '      | password |',
+      '      | wrong    |'
+    ].join('\n'));
+
+    expect(stories).toHaveLength(1);
+    expect(stories[0].description).toBe('Sign in. As a registered user I want to sign in');
+    expect(stories[0].acceptance_criteria).toEqual([
+      'Valid credentials: When I sign in with a valid password, Then I see my dashboard',
+      'Invalid credentials: When I sign in with <password>'
+    ]);
+  });
+
+  test('CSV: the description column wins over summary, criteria split on newlines and semicolons', () => {
+    const stories = load('export.csv', [
+      'Issue Key,Summary,Description,Acceptance Criteria',
+      'EXP-1,Sign in,"As a user, I want to sign in","- Dashboard opens\n- Error on ""wrong"" password;Stays on page"',
+      'EXP-2,Empty,,'
+    ].join('\n'));
+
+    expect(stories).toHaveLength(1);
+    expect(stories[0]).toMatchObject({
+      id: 'EXP-1',
+      description: 'As a user, I want to sign in',
+      acceptance_criteria: ['Dashboard opens', 'Error on "wrong" password', 'Stays on page']
+    });
+  });
+
+  test('JSONL: tracker field names are accepted and invalid lines are rejected', () => {
+    const stories = load('stories.jsonl', [
+      '{"id": 7, "user_story": "As a user, I want to sign in", "acceptanceCriteria": ["Dashboard opens"]}',
+      '',
+      '{"story": "As a user, I want to sign out", "acceptance_criteria": "Sign in page is shown"}'
+    ].join('\n'));
+
+    expect(stories.map(story => story.description)).toEqual(['As a user, I want to sign in', 'As a user, I want to sign out']);
+    expect(stories[0].id).toBe('7');
+    expect(stories[1].acceptance_criteria).toEqual(['Sign in page is shown']);
+
+    expect(() => load('broken.jsonl', '{"description": ["not", "text"]}')).toThrow(/broken\.jsonl/);
+  });
+});